@@ -5,9 +5,43 @@ import { validationResult } from 'express-validator';
 import { Request, Response } from 'express';
 import { AuthenticatedRequest } from '../types';
 import { sendEmail, emailTemplates } from '../services/emailService';
+import { CART_TOKEN_COOKIE, CART_TOKEN_HEADER, mergeGuestCart } from '../services/cartService';
+import { mergeGuestFavorites } from '../services/favoriteService';
+import { mergeGuestViews } from '../services/recentlyViewedService';
+import { VISITOR_TOKEN_COOKIE, VISITOR_TOKEN_HEADER, clearGuestTokenCookie, readGuestToken } from '../utils/guestToken';
 
 const prisma = new PrismaClient();
 
+// Carry anything a visitor collected before signing in over to their account.
+// A failed merge must never block the login itself.
+const mergeGuestData = async (req: Request, res: Response, userId: string): Promise<void> => {
+  const cartToken = readGuestToken(req, CART_TOKEN_COOKIE, CART_TOKEN_HEADER);
+  if (cartToken) {
+    try {
+      await mergeGuestCart(cartToken, userId);
+      clearGuestTokenCookie(res, CART_TOKEN_COOKIE);
+    } catch (error) {
+      console.error('Merge guest cart error:', error);
+    }
+  }
+
+  // The visitor token stays: it still identifies this browser for other guest features
+  const visitorToken = readGuestToken(req, VISITOR_TOKEN_COOKIE, VISITOR_TOKEN_HEADER);
+  if (visitorToken) {
+    try {
+      await mergeGuestFavorites(visitorToken, userId);
+    } catch (error) {
+      console.error('Merge guest favorites error:', error);
+    }
+
+    try {
+      await mergeGuestViews(visitorToken, userId);
+    } catch (error) {
+      console.error('Merge guest product views error:', error);
+    }
+  }
+};
+
 // Token generation
 const generateAccessToken = (id: string): string => {
   return jwt.sign({ id }, process.env.JWT_SECRET!, {
@@ -109,6 +143,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     res.cookie('accessToken', accessToken, accessTokenCookieOptions);
     res.cookie('refreshToken', refreshToken, refreshTokenCookieOptions);
 
+    await mergeGuestData(req, res, user.id);
+
     // Send welcome email
     await sendEmail({
       to: user.email,
@@ -201,6 +237,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     res.cookie('accessToken', accessToken, accessTokenCookieOptions);
     res.cookie('refreshToken', refreshToken, refreshTokenCookieOptions);
 
+    await mergeGuestData(req, res, user.id);
+
     res.json({
       success: true,
       message: 'Login successful',
@@ -1,16 +1,78 @@
 import { PrismaClient } from '@prisma/client';
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../types';
+import { isOnSale, priceCart } from '../services/pricingService';
+import {
+  CART_TOKEN_COOKIE,
+  CART_TOKEN_HEADER,
+  CartOwner,
+  cartLineKey,
+  createGuestCart,
+  findGuestCart,
+  touchGuestCart
+} from '../services/cartService';
+import { getAvailableQuantity } from '../services/inventoryService';
+import { getVariantLabel, getVariantPrice, variantInclude } from '../services/variantService';
+import { readGuestToken, setGuestTokenCookie } from '../utils/guestToken';
 
 const prisma = new PrismaClient();
 
-// @desc    Get user's cart
+// Cart lines are per product and variant; update and remove take the variant from the body or query
+const readVariantId = (req: AuthenticatedRequest): string | undefined => {
+  const variantId = req.body?.variantId || req.query.variantId;
+  return variantId ? String(variantId) : undefined;
+};
+
+const cartItemProductSelect = {
+  id: true,
+  name: true,
+  description: true,
+  price: true,
+  originalPrice: true,
+  discount: true,
+  saleEndsAt: true,
+  image: true,
+  stock: true
+};
+
+// Work out whose cart this request is for. Guests are identified by the cartToken cookie;
+// when `create` is set a guest without a cart gets a new one.
+const resolveCartOwner = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  create: boolean = false
+): Promise<CartOwner | null> => {
+  if (req.user) {
+    return { userId: req.user.id };
+  }
+
+  const token = readGuestToken(req, CART_TOKEN_COOKIE, CART_TOKEN_HEADER);
+  const guestCart = token ? await findGuestCart(token) : null;
+
+  if (guestCart) {
+    return { guestCartId: guestCart.id };
+  }
+
+  if (!create) {
+    return null;
+  }
+
+  const newCart = await createGuestCart();
+  setGuestTokenCookie(res, CART_TOKEN_COOKIE, newCart.token);
+  res.setHeader(CART_TOKEN_HEADER, newCart.token);
+
+  return { guestCartId: newCart.id };
+};
+
+// @desc    Get cart
 // @route   GET /api/cart
-// @access  Private
+// @access  Public (guests use the cartToken cookie)
 export const getCart = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const cartItems = await prisma.cartItem.findMany({
-      where: { userId: req.user!.id },
+    const owner = await resolveCartOwner(req, res);
+
+    const cartItems = !owner ? [] : await prisma.cartItem.findMany({
+      where: owner,
       include: {
         product: {
           select: {
@@ -20,40 +82,49 @@ export const getCart = async (req: AuthenticatedRequest, res: Response): Promise
             price: true,
             originalPrice: true,
             discount: true,
+            saleEndsAt: true,
             image: true,
+            category: true,
+            flavors: true,
             stock: true,
             isActive: true
           }
-        }
+        },
+        variant: { include: variantInclude }
       },
       orderBy: { createdAt: 'desc' }
     });
 
-    // Calculate totals
-    let subtotal = 0;
-    let totalItems = 0;
-
-    cartItems.forEach(item => {
-      if (item.product.isActive) {
-        subtotal += Number(item.product.price) * item.quantity;
-        totalItems += item.quantity;
-      }
-    });
-
-    const shipping = subtotal > 50 ? 0 : 5.99;
-    const tax = subtotal * 0.08;
-    const total = subtotal + shipping + tax;
+    const activeItems = cartItems.filter(item => item.product.isActive && (!item.variant || item.variant.isActive));
+
+    const pricing = await priceCart(activeItems.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      variantName: item.variant ? getVariantLabel(item.variant) : null,
+      sku: item.variant?.sku || null,
+      name: item.product.name,
+      unitPrice: getVariantPrice(item.variant, item.product.price),
+      quantity: item.quantity,
+      category: item.product.category,
+      flavors: item.variant?.flavor ? [item.variant.flavor.name] : item.product.flavors,
+      onSale: isOnSale(item.product)
+    })));
 
     res.json({
       success: true,
       data: {
-        cartItems: cartItems.filter(item => item.product.isActive),
+        cartItems: activeItems,
         summary: {
-          subtotal: parseFloat(subtotal.toFixed(2)),
-          shipping: parseFloat(shipping.toFixed(2)),
-          tax: parseFloat(tax.toFixed(2)),
-          total: parseFloat(total.toFixed(2)),
-          totalItems
+          subtotal: pricing.subtotal,
+          discountAmount: pricing.discountAmount,
+          shipping: pricing.shipping,
+          tax: pricing.tax,
+          total: pricing.total,
+          totalItems: pricing.totalItems,
+          lines: pricing.lines,
+          promotions: pricing.promotions,
+          promotionSavings: pricing.promotionAmount,
+          discounts: pricing.discounts
         }
       }
     });
@@ -68,10 +139,10 @@ export const getCart = async (req: AuthenticatedRequest, res: Response): Promise
 
 // @desc    Add item to cart
 // @route   POST /api/cart/add
-// @access  Private
+// @access  Public (guests use the cartToken cookie)
 export const addToCart = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { productId, quantity = 1 } = req.body;
+    const { productId, variantId, quantity = 1 } = req.body;
 
     if (!productId) {
       res.status(400).json({
@@ -83,7 +154,13 @@ export const addToCart = async (req: AuthenticatedRequest, res: Response): Promi
 
     // Check if product exists and is active
     const product = await prisma.product.findUnique({
-      where: { id: productId }
+      where: { id: productId },
+      include: {
+        variants: {
+          where: { isActive: true },
+          select: { id: true, stock: true }
+        }
+      }
     });
 
     if (!product || !product.isActive) {
@@ -94,49 +171,58 @@ export const addToCart = async (req: AuthenticatedRequest, res: Response): Promi
       return;
     }
 
+    // Products sold in variants need one picked; the variant's own stock is what limits the line
+    const variant = variantId ? product.variants.find(v => v.id === variantId) : null;
+
+    if (variantId && !variant) {
+      res.status(404).json({
+        success: false,
+        message: 'Product option not found or not available'
+      });
+      return;
+    }
+
+    if (!variant && product.variants.length > 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Please choose a flavor or size'
+      });
+      return;
+    }
+
+    const availableStock = variant
+      ? await getAvailableQuantity(product.id, variant.stock, variant.id)
+      : await getAvailableQuantity(product.id, product.stock);
+
+    const owner = await resolveCartOwner(req, res, true);
+    if ('guestCartId' in owner) {
+      await touchGuestCart(owner.guestCartId);
+    }
+
     // Check if item already exists in cart
+    const lineKey = cartLineKey(owner, productId, variant ? variant.id : null);
     const existingCartItem = await prisma.cartItem.findUnique({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      }
+      where: lineKey
     });
 
     if (existingCartItem) {
       // Update quantity
       const newQuantity = existingCartItem.quantity + parseInt(quantity);
       
-      if (newQuantity > product.stock) {
+      if (newQuantity > availableStock) {
         res.status(400).json({
           success: false,
-          message: `Only ${product.stock} items available in stock`
+          message: `Only ${availableStock} items available in stock`
         });
         return;
       }
 
       const updatedCartItem = await prisma.cartItem.update({
-        where: {
-          userId_productId: {
-            userId: req.user!.id,
-            productId: productId
-          }
-        },
-        data: { quantity: newQuantity },
+        where: { id: existingCartItem.id },
+        data: { quantity: { increment: parseInt(quantity) } },
         include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              description: true,
-              price: true,
-              originalPrice: true,
-              discount: true,
-              image: true,
-              stock: true
-            }
-          }
+          product: { select: cartItemProductSelect },
+          variant: { include: variantInclude }
         }
       });
 
@@ -148,33 +234,28 @@ export const addToCart = async (req: AuthenticatedRequest, res: Response): Promi
       return;
     } else {
       // Add new item to cart
-      if (parseInt(quantity) > product.stock) {
+      if (parseInt(quantity) > availableStock) {
         res.status(400).json({
           success: false,
-          message: `Only ${product.stock} items available in stock`
+          message: `Only ${availableStock} items available in stock`
         });
         return;
       }
 
-      const cartItem = await prisma.cartItem.create({
-        data: {
-          userId: req.user!.id,
+      // Upsert so a concurrent add of the same line adds to it instead of failing
+      const cartItem = await prisma.cartItem.upsert({
+        where: lineKey,
+        update: { quantity: { increment: parseInt(quantity) } },
+        create: {
+          ...owner,
           productId: productId,
+          variantId: variant ? variant.id : null,
+          variantKey: variant ? variant.id : '',
           quantity: parseInt(quantity)
         },
         include: {
-          product: {
-            select: {
-              id: true,
-              name: true,
-              description: true,
-              price: true,
-              originalPrice: true,
-              discount: true,
-              image: true,
-              stock: true
-            }
-          }
+          product: { select: cartItemProductSelect },
+          variant: { include: variantInclude }
         }
       });
 
@@ -195,7 +276,7 @@ export const addToCart = async (req: AuthenticatedRequest, res: Response): Promi
 
 // @desc    Update cart item quantity
 // @route   PUT /api/cart/update/:productId
-// @access  Private
+// @access  Public (guests use the cartToken cookie)
 export const updateCartItem = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId } = req.params;
@@ -210,14 +291,11 @@ export const updateCartItem = async (req: AuthenticatedRequest, res: Response):
     }
 
     // Check if cart item exists
-    const existingCartItem = await prisma.cartItem.findUnique({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      },
-      include: { product: true }
+    const owner = await resolveCartOwner(req, res);
+    const variantId = readVariantId(req);
+    const existingCartItem = !owner ? null : await prisma.cartItem.findFirst({
+      where: { ...owner, productId, ...(variantId ? { variantId } : {}) },
+      include: { product: true, variant: true }
     });
 
     if (!existingCartItem) {
@@ -229,35 +307,27 @@ export const updateCartItem = async (req: AuthenticatedRequest, res: Response):
     }
 
     // Check stock availability
-    if (parseInt(quantity) > existingCartItem.product.stock) {
+    const availableStock = existingCartItem.variant
+      ? await getAvailableQuantity(existingCartItem.productId, existingCartItem.variant.stock, existingCartItem.variantId)
+      : await getAvailableQuantity(existingCartItem.productId, existingCartItem.product.stock);
+    if (parseInt(quantity) > availableStock) {
       res.status(400).json({
         success: false,
-        message: `Only ${existingCartItem.product.stock} items available in stock`
+        message: `Only ${availableStock} items available in stock`
       });
       return;
     }
 
+    if ('guestCartId' in owner) {
+      await touchGuestCart(owner.guestCartId);
+    }
+
     const updatedCartItem = await prisma.cartItem.update({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      },
+      where: { id: existingCartItem.id },
       data: { quantity: parseInt(quantity) },
       include: {
-        product: {
-          select: {
-            id: true,
-            name: true,
-            description: true,
-            price: true,
-            originalPrice: true,
-            discount: true,
-            image: true,
-            stock: true
-          }
-        }
+        product: { select: cartItemProductSelect },
+        variant: { include: variantInclude }
       }
     });
 
@@ -277,18 +347,15 @@ export const updateCartItem = async (req: AuthenticatedRequest, res: Response):
 
 // @desc    Remove item from cart
 // @route   DELETE /api/cart/remove/:productId
-// @access  Private
+// @access  Public (guests use the cartToken cookie)
 export const removeFromCart = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId } = req.params;
 
-    const cartItem = await prisma.cartItem.findUnique({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      }
+    const owner = await resolveCartOwner(req, res);
+    const variantId = readVariantId(req);
+    const cartItem = !owner ? null : await prisma.cartItem.findFirst({
+      where: { ...owner, productId, ...(variantId ? { variantId } : {}) }
     });
 
     if (!cartItem) {
@@ -300,12 +367,7 @@ export const removeFromCart = async (req: AuthenticatedRequest, res: Response):
     }
 
     await prisma.cartItem.delete({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      }
+      where: { id: cartItem.id }
     });
 
     res.json({
@@ -323,12 +385,16 @@ export const removeFromCart = async (req: AuthenticatedRequest, res: Response):
 
 // @desc    Clear entire cart
 // @route   DELETE /api/cart/clear
-// @access  Private
+// @access  Public (guests use the cartToken cookie)
 export const clearCart = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    await prisma.cartItem.deleteMany({
-      where: { userId: req.user!.id }
-    });
+    const owner = await resolveCartOwner(req, res);
+
+    if (owner) {
+      await prisma.cartItem.deleteMany({
+        where: owner
+      });
+    }
 
     res.json({
       success: true,
@@ -342,10 +408,3 @@ export const clearCart = async (req: AuthenticatedRequest, res: Response): Promi
     });
   }
 };
-
-
-
-
-
-
-
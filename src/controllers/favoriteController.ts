@@ -1,40 +1,56 @@
 import { PrismaClient } from '@prisma/client';
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../types';
+import { getFavoritePriceInfo } from '../services/favoriteService';
+import { resolveVisitorToken } from '../utils/guestToken';
 
 const prisma = new PrismaClient();
 
-// @desc    Get user's favorites
+const favoriteProductSelect = {
+  id: true,
+  name: true,
+  description: true,
+  price: true,
+  originalPrice: true,
+  discount: true,
+  saleEndsAt: true,
+  image: true,
+  category: true,
+  brand: true,
+  rating: true,
+  reviewCount: true,
+  stock: true,
+  isActive: true
+};
+
+// @desc    Get favorites
 // @route   GET /api/favorites
-// @access  Private
+// @access  Public (guests use the visitorToken cookie)
 export const getFavorites = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const favorites = await prisma.favorite.findMany({
-      where: { userId: req.user!.id },
-      include: {
-        product: {
-          select: {
-            id: true,
-            name: true,
-            description: true,
-            price: true,
-            originalPrice: true,
-            discount: true,
-            image: true,
-            category: true,
-            brand: true,
-            rating: true,
-            reviewCount: true,
-            stock: true,
-            isActive: true
-          }
-        }
-      },
-      orderBy: { createdAt: 'desc' }
-    });
-
-    // Filter out inactive products
-    const activeFavorites = favorites.filter(fav => fav.product.isActive);
+    const visitorToken = req.user ? null : resolveVisitorToken(req, res);
+
+    const favorites = req.user
+      ? await prisma.favorite.findMany({
+          where: { userId: req.user.id },
+          include: { product: { select: favoriteProductSelect } },
+          orderBy: { createdAt: 'desc' }
+        })
+      : visitorToken
+        ? await prisma.guestFavorite.findMany({
+            where: { visitorToken },
+            include: { product: { select: favoriteProductSelect } },
+            orderBy: { createdAt: 'desc' }
+          })
+        : [];
+
+    // Filter out inactive products and show how price and stock changed since saving
+    const activeFavorites = favorites
+      .filter(fav => fav.product.isActive)
+      .map(fav => ({
+        ...fav,
+        priceInfo: getFavoritePriceInfo(fav.product, fav.priceWhenAdded)
+      }));
 
     res.json({
       success: true,
@@ -51,7 +67,7 @@ export const getFavorites = async (req: AuthenticatedRequest, res: Response): Pr
 
 // @desc    Add product to favorites
 // @route   POST /api/favorites/add
-// @access  Private
+// @access  Public (guests use the visitorToken cookie)
 export const addToFavorites = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId } = req.body;
@@ -77,15 +93,16 @@ export const addToFavorites = async (req: AuthenticatedRequest, res: Response):
       return;
     }
 
+    const visitorToken = req.user ? null : resolveVisitorToken(req, res, true);
+
     // Check if already in favorites
-    const existingFavorite = await prisma.favorite.findUnique({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      }
-    });
+    const existingFavorite = req.user
+      ? await prisma.favorite.findUnique({
+          where: { userId_productId: { userId: req.user.id, productId } }
+        })
+      : await prisma.guestFavorite.findUnique({
+          where: { visitorToken_productId: { visitorToken, productId } }
+        });
 
     if (existingFavorite) {
       res.status(400).json({
@@ -95,35 +112,25 @@ export const addToFavorites = async (req: AuthenticatedRequest, res: Response):
       return;
     }
 
-    const favorite = await prisma.favorite.create({
-      data: {
-        userId: req.user!.id,
-        productId: productId
-      },
-      include: {
-        product: {
-          select: {
-            id: true,
-            name: true,
-            description: true,
-            price: true,
-            originalPrice: true,
-            discount: true,
-            image: true,
-            category: true,
-            brand: true,
-            rating: true,
-            reviewCount: true,
-            stock: true
-          }
-        }
-      }
-    });
+    const favorite = req.user
+      ? await prisma.favorite.create({
+          data: { userId: req.user.id, productId, priceWhenAdded: product.price },
+          include: { product: { select: favoriteProductSelect } }
+        })
+      : await prisma.guestFavorite.create({
+          data: { visitorToken, productId, priceWhenAdded: product.price },
+          include: { product: { select: favoriteProductSelect } }
+        });
 
     res.status(201).json({
       success: true,
       message: 'Product added to favorites successfully',
-      data: { favorite }
+      data: {
+        favorite: {
+          ...favorite,
+          priceInfo: getFavoritePriceInfo(favorite.product, favorite.priceWhenAdded)
+        }
+      }
     });
   } catch (error) {
     console.error('Add to favorites error:', error);
@@ -136,21 +143,23 @@ export const addToFavorites = async (req: AuthenticatedRequest, res: Response):
 
 // @desc    Remove product from favorites
 // @route   DELETE /api/favorites/remove/:productId
-// @access  Private
+// @access  Public (guests use the visitorToken cookie)
 export const removeFromFavorites = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { productId } = req.params;
-
-    const favorite = await prisma.favorite.findUnique({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      }
-    });
-
-    if (!favorite) {
+    const visitorToken = req.user ? null : resolveVisitorToken(req, res);
+
+    const { count } = req.user
+      ? await prisma.favorite.deleteMany({
+          where: { userId: req.user.id, productId }
+        })
+      : visitorToken
+        ? await prisma.guestFavorite.deleteMany({
+            where: { visitorToken, productId }
+          })
+        : { count: 0 };
+
+    if (count === 0) {
       res.status(404).json({
         success: false,
         message: 'Product not found in favorites'
@@ -158,15 +167,6 @@ export const removeFromFavorites = async (req: AuthenticatedRequest, res: Respon
       return;
     }
 
-    await prisma.favorite.delete({
-      where: {
-        userId_productId: {
-          userId: req.user!.id,
-          productId: productId
-        }
-      }
-    });
-
     res.json({
       success: true,
       message: 'Product removed from favorites successfully'
@@ -179,10 +179,3 @@ export const removeFromFavorites = async (req: AuthenticatedRequest, res: Respon
     });
   }
 };
-
-
-
-
-
-
-
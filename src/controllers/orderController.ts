@@ -2,6 +2,15 @@ import { PrismaClient } from '@prisma/client';
 import { Response, Request } from 'express';
 import { AuthenticatedRequest } from '../types';
 import { sendEmail, emailTemplates } from '../services/emailService';
+import { CART_TOKEN_COOKIE, CART_TOKEN_HEADER, findGuestCart } from '../services/cartService';
+import { DiscountError, redeemDiscount, releaseDiscountRedemption } from '../services/discountService';
+import { InventoryError, assertStockAvailable } from '../services/inventoryService';
+import { PricingBreakdown, PricingError, isOnSale, priceCart } from '../services/pricingService';
+import { getVariantLabel, getVariantPrice, variantInclude } from '../services/variantService';
+import { allocateOrderStock } from '../services/stockLocationService';
+import { pickOrderLots } from '../services/lotService';
+import { readGuestToken } from '../utils/guestToken';
+import { PaginationError, buildPage, pageArgs, readCursorQuery } from '../utils/pagination';
 
 const prisma = new PrismaClient();
 
@@ -22,15 +31,30 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
       paymentMethod,
       notes,
       guestEmail,
+      discountCode,
       items // For guest checkout, items come directly from request
     } = req.body;
 
     const isGuest = !req.user;
     let cartItems: any[] = [];
+    let guestCartId: string | null = null;
 
     if (isGuest) {
-      // Guest checkout: validate items from request body
-      if (!items || items.length === 0) {
+      // Guest checkout: items come from the request body, or from the guest cart if none were sent
+      let guestItems = items;
+      if (!guestItems || guestItems.length === 0) {
+        const cartToken = readGuestToken(req, CART_TOKEN_COOKIE, CART_TOKEN_HEADER);
+        const guestCart = cartToken ? await findGuestCart(cartToken) : null;
+        if (guestCart) {
+          guestCartId = guestCart.id;
+          guestItems = await prisma.cartItem.findMany({
+            where: { guestCartId: guestCart.id },
+            select: { productId: true, variantId: true, quantity: true }
+          });
+        }
+      }
+
+      if (!guestItems || guestItems.length === 0) {
         res.status(400).json({
           success: false,
           message: 'Cart is empty'
@@ -47,25 +71,38 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
       }
 
       // Fetch product details for guest items
-      const productIds = items.map((item: any) => item.productId);
+      const productIds = guestItems.map((item: any) => item.productId);
       const products = await prisma.product.findMany({
         where: { id: { in: productIds } },
         select: {
           id: true,
           name: true,
           price: true,
+          originalPrice: true,
+          discount: true,
+          category: true,
+          flavors: true,
           stock: true,
           isActive: true
         }
       });
 
-      // Map items with product details
-      cartItems = items.map((item: any) => {
+      const variantIds = guestItems.filter((item: any) => item.variantId).map((item: any) => String(item.variantId));
+      const variants = variantIds.length === 0 ? [] : await prisma.productVariant.findMany({
+        where: { id: { in: variantIds } },
+        include: variantInclude
+      });
+
+      // Map items with product and variant details
+      cartItems = guestItems.map((item: any) => {
         const product = products.find(p => p.id === item.productId);
+        const variant = item.variantId ? variants.find(v => v.id === item.variantId && v.productId === item.productId) : null;
         return {
           productId: item.productId,
+          variantId: variant ? variant.id : null,
           quantity: item.quantity,
-          product
+          product,
+          variant
         };
       });
     } else {
@@ -78,10 +115,15 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
               id: true,
               name: true,
               price: true,
+              originalPrice: true,
+              discount: true,
+              category: true,
+              flavors: true,
               stock: true,
               isActive: true
             }
-          }
+          },
+          variant: { include: variantInclude }
         }
       });
 
@@ -96,37 +138,70 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
 
     // Check stock availability
     for (const item of cartItems) {
-      if (!item.product.isActive) {
+      if (!item.product || !item.product.isActive || (item.variant && !item.variant.isActive)) {
         res.status(400).json({
           success: false,
-          message: `Product "${item.product.name}" is no longer available`
+          message: `Product ${item.product ? `"${item.product.name}" ` : ''}is no longer available`
         });
         return;
       }
-      if (item.quantity > item.product.stock) {
+      const stock = item.variant ? item.variant.stock : item.product.stock;
+      if (item.quantity > stock) {
         res.status(400).json({
           success: false,
-          message: `Insufficient stock for "${item.product.name}". Available: ${item.product.stock}`
+          message: `Insufficient stock for "${item.product.name}". Available: ${stock}`
         });
         return;
       }
     }
 
     // Calculate totals
-    let subtotal = 0;
-    cartItems.forEach(item => {
-      subtotal += Number(item.product.price) * item.quantity;
-    });
+    let pricing: PricingBreakdown;
+    try {
+      pricing = await priceCart(cartItems.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        variantName: item.variant ? getVariantLabel(item.variant) : null,
+        sku: item.variant?.sku || null,
+        name: item.product.name,
+        unitPrice: getVariantPrice(item.variant, item.product.price),
+        quantity: item.quantity,
+        category: item.product.category,
+        flavors: item.variant?.flavor ? [item.variant.flavor.name] : item.product.flavors,
+        onSale: isOnSale(item.product)
+      })), {
+        discountCode,
+        customer: isGuest ? { email: guestEmail } : { userId: req.user!.id, email: req.user!.email }
+      });
+    } catch (error) {
+      if (error instanceof PricingError) {
+        res.status(error.statusCode).json({
+          success: false,
+          message: error.message,
+          reason: error.reason
+        });
+        return;
+      }
+      throw error;
+    }
 
-    const shippingAmount = subtotal > 50 ? 0 : 5.99;
-    const taxAmount = subtotal * 0.08;
-    const totalAmount = subtotal + shippingAmount + taxAmount;
+    const shippingAmount = pricing.shipping;
+    const taxAmount = pricing.tax;
+    const discountAmount = pricing.discountAmount;
+    const totalAmount = pricing.total;
 
     // Generate order number
     const orderNumber = `LR-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 
     // Create order with transaction
     const result = await prisma.$transaction(async (tx) => {
+      // Re-check stock under row locks; units held by open Stripe checkouts are not for sale
+      await assertStockAvailable(tx, cartItems.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity
+      })));
+
       // Create order
       const order = await tx.order.create({
         data: {
@@ -136,6 +211,9 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
           totalAmount,
           shippingAmount,
           taxAmount,
+          discountAmount,
+          discountCode: pricing.discountCode,
+          promotions: pricing.promotions.length > 0 ? (pricing.promotions as any) : undefined,
           shippingFirstName,
           shippingLastName,
           shippingAddress,
@@ -149,6 +227,17 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
         }
       });
 
+      // Count the discount use in the same transaction as the order
+      if (pricing.discountId) {
+        await redeemDiscount(tx, {
+          discountId: pricing.discountId,
+          amount: pricing.codeDiscountAmount,
+          orderId: order.id,
+          userId: isGuest ? null : req.user!.id,
+          email: isGuest ? guestEmail : req.user!.email
+        });
+      }
+
       // Create order items and update stock
       const orderItems = [];
       for (const item of cartItems) {
@@ -157,8 +246,12 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
           data: {
             orderId: order.id,
             productId: item.productId,
+            productName: item.product.name,
+            variantId: item.variantId || null,
+            variantName: item.variant ? getVariantLabel(item.variant) : null,
+            sku: item.variant?.sku || null,
             quantity: item.quantity,
-            price: item.product.price
+            price: getVariantPrice(item.variant, item.product.price)
           }
         });
         orderItems.push(orderItem);
@@ -175,13 +268,28 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
             }
           }
         });
+
+        if (item.variantId) {
+          await tx.productVariant.update({
+            where: { id: item.variantId },
+            data: { stock: { decrement: item.quantity } }
+          });
+        }
       }
 
-      // Clear user's cart (only for authenticated users)
+      // Take the stock from the location the order will ship from, first-expiring lots first
+      const allocation = await allocateOrderStock(tx, order.id, orderItems);
+      await pickOrderLots(tx, allocation.picks);
+
+      // Clear the cart the order was built from
       if (!isGuest) {
         await tx.cartItem.deleteMany({
           where: { userId: req.user!.id }
         });
+      } else if (guestCartId) {
+        await tx.cartItem.deleteMany({
+          where: { guestCartId }
+        });
       }
 
       return { order, orderItems };
@@ -230,7 +338,7 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
             orderDate: new Date(completeOrder.createdAt).toLocaleDateString(),
             status: completeOrder.status,
             items: completeOrder.orderItems.map(item => ({
-              name: item.product.name,
+              name: item.variantName ? `${item.product.name} - ${item.variantName}` : item.product.name,
               quantity: item.quantity,
               price: Number(item.price).toFixed(2)
             })),
@@ -255,6 +363,13 @@ export const createOrder = async (req: AuthenticatedRequest, res: Response): Pro
       data: { order: completeOrder }
     });
   } catch (error) {
+    if (error instanceof DiscountError || error instanceof InventoryError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
     console.error('Create order error:', error);
     res.status(500).json({
       success: false,
@@ -270,7 +385,7 @@ export const getUserOrders = async (req: AuthenticatedRequest, res: Response): P
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
 
     const [orders, total] = await Promise.all([
       prisma.order.findMany({
@@ -289,32 +404,31 @@ export const getUserOrders = async (req: AuthenticatedRequest, res: Response): P
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.order.count({
         where: { userId: req.user!.id }
       })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(orders, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        orders,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        orders: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
     console.error('Get user orders error:', error);
     res.status(500).json({
       success: false,
@@ -403,7 +517,7 @@ export const getOrders = async (req: Request, res: Response): Promise<void> => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const status = req.query.status as string;
 
     const where: any = {};
@@ -435,30 +549,29 @@ export const getOrders = async (req: Request, res: Response): Promise<void> => {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.order.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(orders, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        orders,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        orders: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
     console.error('Get orders error:', error);
     res.status(500).json({
       success: false,
@@ -516,6 +629,11 @@ export const updateOrderStatus = async (req: Request, res: Response): Promise<vo
       }
     });
 
+    // Cancelled or unpaid orders give their discount use back
+    if (status === 'CANCELLED' || paymentStatus === 'FAILED') {
+      await releaseDiscountRedemption({ orderId: updatedOrder.id });
+    }
+
     res.json({
       success: true,
       message: 'Order status updated successfully',
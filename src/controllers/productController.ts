@@ -1,6 +1,20 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { Request, Response } from 'express';
 import { uploadToCloudinary } from '../utils/cloudinary';
+import { withAvailableStock, withAvailableVariantStock } from '../services/inventoryService';
+import { getVariantLabel, variantInclude } from '../services/variantService';
+import { deleteImageAssets } from '../services/productImageService';
+import { getLowestPrice, recordPriceChange } from '../services/priceHistoryService';
+import { getProductRecommendations } from '../services/recommendationService';
+import { handleRestock } from '../services/backInStockService';
+import { applyLocationStockChange, trimLotsToStock } from '../services/stockLocationService';
+import { recordProductView } from '../services/recentlyViewedService';
+import { getCategoryProductFilter, getProductCategoryData } from '../services/categoryService';
+import { SEARCH_SORT_FIELDS, SearchSortField, searchProductIds } from '../services/searchService';
+import { formatZodErrors, productListQuerySchema } from '../validators/productQuery';
+import { PaginationError, buildPage, pageArgs, readCursorQuery } from '../utils/pagination';
+import { resolveVisitorToken } from '../utils/guestToken';
+import { AuthenticatedRequest } from '../types';
 
 const prisma = new PrismaClient();
 
@@ -9,35 +23,78 @@ const prisma = new PrismaClient();
 // @access  Public
 export const getProducts = async (req: Request, res: Response): Promise<void> => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
-    const category = req.query.category as string;
-    const sortBy = (req.query.sortBy as string) || 'createdAt';
-    const sortOrder = (req.query.sortOrder as string) || 'desc';
-    const minPrice = parseFloat(req.query.minPrice as string);
-    const maxPrice = parseFloat(req.query.maxPrice as string);
+    const parsed = productListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid query parameters',
+        errors: formatZodErrors(parsed.error)
+      });
+      return;
+    }
 
-    const where: any = {
-      isActive: true,
-      ...(category && { category }),
-      ...(minPrice && maxPrice && {
+    const { page, limit, category, sortBy, sortOrder, minPrice, maxPrice, minRating, inStock, onSale, flavor, brand } = parsed.data;
+    const cursor = readCursorQuery(req.query, limit);
+
+    const conditions: Prisma.ProductWhereInput[] = [];
+
+    if (category) {
+      conditions.push((await getCategoryProductFilter(category)).where);
+    }
+
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      conditions.push({
         price: {
-          gte: minPrice,
-          lte: maxPrice
+          ...(minPrice !== undefined && { gte: minPrice }),
+          ...(maxPrice !== undefined && { lte: maxPrice })
         }
-      })
+      });
+    }
+
+    if (minRating !== undefined) {
+      conditions.push({ rating: { gte: minRating } });
+    }
+
+    if (inStock !== undefined) {
+      conditions.push({ stock: inStock ? { gt: 0 } : { lte: 0 } });
+    }
+
+    // Same rule as isOnSale in the pricing service: marked down from the original price, or a discount set
+    if (onSale !== undefined) {
+      const saleCondition: Prisma.ProductWhereInput = {
+        OR: [
+          { discount: { gt: 0 } },
+          { originalPrice: { gt: prisma.product.fields.price } }
+        ]
+      };
+      conditions.push(onSale ? saleCondition : { NOT: saleCondition });
+    }
+
+    if (flavor && flavor.length > 0) {
+      conditions.push({
+        OR: [
+          { flavors: { hasSome: flavor } },
+          { variants: { some: { isActive: true, flavor: { name: { in: flavor, mode: 'insensitive' } } } } }
+        ]
+      });
+    }
+
+    if (brand && brand.length > 0) {
+      conditions.push({ brand: { in: brand, mode: 'insensitive' } });
+    }
+
+    const where: Prisma.ProductWhereInput = {
+      isActive: true,
+      ...(conditions.length > 0 && { AND: conditions })
     };
 
-    const orderBy: any = {};
-    orderBy[sortBy] = sortOrder;
+    const orderBy: Prisma.ProductOrderByWithRelationInput[] = [{ [sortBy]: sortOrder }, { id: 'asc' }];
 
     const [products, total] = await Promise.all([
       prisma.product.findMany({
         where,
         orderBy,
-        skip,
-        take: limit,
+        ...pageArgs(page, limit, cursor),
         select: {
           id: true,
           name: true,
@@ -46,6 +103,7 @@ export const getProducts = async (req: Request, res: Response): Promise<void> =>
           price: true,
           originalPrice: true,
           discount: true,
+          saleEndsAt: true,
           image: true,
           images: true,
           category: true,
@@ -62,23 +120,23 @@ export const getProducts = async (req: Request, res: Response): Promise<void> =>
       prisma.product.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(products, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        products,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        products: await withAvailableStock(items),
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
     console.error('Get products error:', error);
     res.status(500).json({
       success: false,
@@ -107,6 +165,15 @@ export const getProduct = async (req: Request, res: Response): Promise<void> =>
           },
           orderBy: { createdAt: 'desc' },
           take: 10
+        },
+        variants: {
+          where: { isActive: true },
+          include: variantInclude,
+          orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }]
+        },
+        productImages: {
+          select: { id: true, url: true, altText: true, isPrimary: true, sortOrder: true },
+          orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }]
         }
       }
     });
@@ -119,9 +186,25 @@ export const getProduct = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Remember the view for the shopper's recently viewed list without holding up the response
+    const userId = (req as AuthenticatedRequest).user?.id;
+    const visitorToken = userId ? null : resolveVisitorToken(req, res, true);
+    recordProductView(product.id, userId ? { userId } : { visitorToken: visitorToken as string })
+      .catch(error => console.error('Record product view error:', error));
+
+    const [productWithStock] = await withAvailableStock([product]);
+    const variants = await withAvailableVariantStock(product.variants);
+    const lowestPrice30Days = await getLowestPrice(product.id, product.price, 30);
+
     res.json({
       success: true,
-      data: { product }
+      data: {
+        product: {
+          ...productWithStock,
+          lowestPrice30Days,
+          variants: variants.map(variant => ({ ...variant, label: getVariantLabel(variant) }))
+        }
+      }
     });
   } catch (error) {
     console.error('Get product error:', error);
@@ -132,73 +215,121 @@ export const getProduct = async (req: Request, res: Response): Promise<void> =>
   }
 };
 
-// @desc    Search products
+// Query values that may be repeated or comma-separated, e.g. ?flavor=Cherry&flavor=Grape or ?flavor=Cherry,Grape
+const readList = (value: any): string[] | undefined => {
+  if (value === undefined) return undefined;
+  const list = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list : undefined;
+};
+
+const readNumber = (value: any): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  const number = parseFloat(value as string);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// @desc    Get products frequently bought together with this one, and similar products
+// @route   GET /api/products/:id/related
+// @access  Public
+export const getRelatedProducts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 8, 20);
+
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, isActive: true }
+    });
+
+    if (!product || !product.isActive) {
+      res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+      return;
+    }
+
+    const related = await getProductRecommendations(product.id, limit);
+
+    res.json({
+      success: true,
+      data: related
+    });
+  } catch (error) {
+    console.error('Get related products error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Search products with relevance ranking and facet counts
 // @route   GET /api/products/search
 // @access  Public
 export const searchProducts = async (req: Request, res: Response): Promise<void> => {
   try {
-    const query = req.query.q as string;
-    const category = req.query.category as string;
-    const minPrice = req.query.minPrice as string;
-    const maxPrice = req.query.maxPrice as string;
-    const sortBy = (req.query.sortBy as string) || 'createdAt';
-    const sortOrder = (req.query.sortOrder as string) || 'desc';
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 10));
+    const sortBy = req.query.sortBy as SearchSortField | undefined;
 
-    const where: any = {
-      isActive: true,
-      ...(query && {
-        OR: [
-          { name: { contains: query, mode: 'insensitive' } },
-          { description: { contains: query, mode: 'insensitive' } },
-          { brand: { contains: query, mode: 'insensitive' } }
-        ]
-      }),
-      ...(category && { category }),
-      ...(minPrice && maxPrice && {
-        price: {
-          gte: parseFloat(minPrice),
-          lte: parseFloat(maxPrice)
-        }
-      })
-    };
+    if (sortBy && !SEARCH_SORT_FIELDS.includes(sortBy)) {
+      res.status(400).json({
+        success: false,
+        message: `sortBy must be one of: ${SEARCH_SORT_FIELDS.join(', ')}`
+      });
+      return;
+    }
 
-    const orderBy: any = {};
-    orderBy[sortBy] = sortOrder;
+    const { ids, total, facets } = await searchProductIds({
+      q: req.query.q as string,
+      category: req.query.category as string,
+      flavors: readList(req.query.flavor),
+      brands: readList(req.query.brand),
+      minPrice: readNumber(req.query.minPrice),
+      maxPrice: readNumber(req.query.maxPrice),
+      minRating: readNumber(req.query.minRating),
+      sortBy,
+      sortOrder: req.query.sortOrder === 'asc' ? 'asc' : 'desc',
+      page,
+      limit
+    });
 
-    const [products, total] = await Promise.all([
-      prisma.product.findMany({
-        where,
-        orderBy,
-        skip,
-        take: limit,
-        select: {
-          id: true,
-          name: true,
-          description: true,
-          price: true,
-          originalPrice: true,
-          discount: true,
-          image: true,
-          category: true,
-          brand: true,
-          rating: true,
-          reviewCount: true,
-          sales: true,
-          stock: true
-        }
-      }),
-      prisma.product.count({ where })
-    ]);
+    const products = await prisma.product.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        price: true,
+        originalPrice: true,
+        discount: true,
+        saleEndsAt: true,
+        image: true,
+        category: true,
+        brand: true,
+        flavors: true,
+        rating: true,
+        reviewCount: true,
+        sales: true,
+        stock: true
+      }
+    });
+
+    // Keep the ranked order from the search
+    const ranked = ids
+      .map(id => products.find(product => product.id === id))
+      .filter((product): product is typeof products[number] => !!product);
 
     const totalPages = Math.ceil(total / limit);
 
     res.json({
       success: true,
       data: {
-        products,
+        products: await withAvailableStock(ranked),
+        facets,
         pagination: {
           currentPage: page,
           totalPages,
@@ -218,7 +349,7 @@ export const searchProducts = async (req: Request, res: Response): Promise<void>
   }
 };
 
-// @desc    Get products by category
+// @desc    Get products by category slug, including its subcategories
 // @route   GET /api/products/category/:category
 // @access  Public
 export const getProductsByCategory = async (req: Request, res: Response): Promise<void> => {
@@ -228,12 +359,15 @@ export const getProductsByCategory = async (req: Request, res: Response): Promis
     const limit = parseInt(req.query.limit as string) || 10;
     const skip = (page - 1) * limit;
 
+    const categoryFilter = await getCategoryProductFilter(category);
+    const where: any = {
+      ...categoryFilter.where,
+      isActive: true
+    };
+
     const [products, total] = await Promise.all([
       prisma.product.findMany({
-        where: {
-          category: category,
-          isActive: true
-        },
+        where,
         orderBy: { createdAt: 'desc' },
         skip,
         take: limit,
@@ -244,6 +378,7 @@ export const getProductsByCategory = async (req: Request, res: Response): Promis
           price: true,
           originalPrice: true,
           discount: true,
+          saleEndsAt: true,
           image: true,
           category: true,
           brand: true,
@@ -254,12 +389,7 @@ export const getProductsByCategory = async (req: Request, res: Response): Promis
           stock: true
         }
       }),
-      prisma.product.count({
-        where: {
-          category: category,
-          isActive: true
-        }
-      })
+      prisma.product.count({ where })
     ]);
 
     const totalPages = Math.ceil(total / limit);
@@ -267,7 +397,8 @@ export const getProductsByCategory = async (req: Request, res: Response): Promis
     res.json({
       success: true,
       data: {
-        products,
+        category: categoryFilter.category,
+        products: await withAvailableStock(products),
         pagination: {
           currentPage: page,
           totalPages,
@@ -303,6 +434,7 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       originalPrice,
       discount,
       category,
+      categoryId,
       brand,
       weight,
       ingredients,
@@ -313,6 +445,15 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       image: imageFromBody
     } = req.body;
 
+    const categoryData = await getProductCategoryData(categoryId || category);
+    if (!categoryData) {
+      res.status(400).json({
+        success: false,
+        message: 'Category not found'
+      });
+      return;
+    }
+
     let image = imageFromBody || null; // Use image URL from body if provided
     console.log('🖼️ Image value to use:', image);
     
@@ -337,25 +478,39 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
     const finalImage = image || '';
     console.log('✨ Final image value for database:', finalImage);
 
-    const product = await prisma.product.create({
-      data: {
-        name,
-        description,
-        shortDescription,
-        price: parseFloat(price),
-        originalPrice: originalPrice ? parseFloat(originalPrice) : null,
-        discount: discount ? parseInt(discount) : null,
-        image: finalImage,
-        images,
-        category,
-        brand,
-        weight,
-        ingredients,
-        allergens,
-        nutritionFacts: nutritionFacts ? JSON.parse(nutritionFacts) : null,
-        stock: parseInt(stock) || 0,
-        sku
-      }
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          name,
+          description,
+          shortDescription,
+          price: parseFloat(price),
+          originalPrice: originalPrice ? parseFloat(originalPrice) : null,
+          discount: discount ? parseInt(discount) : null,
+          image: finalImage,
+          images,
+          ...categoryData,
+          brand,
+          weight,
+          ingredients,
+          allergens,
+          nutritionFacts: nutritionFacts ? JSON.parse(nutritionFacts) : null,
+          stock: parseInt(stock) || 0,
+          sku
+        }
+      });
+
+      await applyLocationStockChange(tx, { productId: created.id, quantity: created.stock });
+
+      await recordPriceChange({
+        productId: created.id,
+        previousPrice: null,
+        price: created.price,
+        source: 'PRODUCT_CREATE',
+        changedById: (req as AuthenticatedRequest).user?.id
+      }, tx);
+
+      return created;
     });
 
     console.log('✅ Product created with image:', product.image);
@@ -387,6 +542,7 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       originalPrice,
       discount,
       category,
+      categoryId,
       brand,
       weight,
       ingredients,
@@ -398,7 +554,8 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
     } = req.body;
 
     const existingProduct = await prisma.product.findUnique({
-      where: { id: req.params.id }
+      where: { id: req.params.id },
+      include: { _count: { select: { productImages: true } } }
     });
 
     if (!existingProduct) {
@@ -438,9 +595,22 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
     if (price !== undefined) updateData.price = parseFloat(price);
     if (originalPrice !== undefined) updateData.originalPrice = originalPrice ? parseFloat(originalPrice) : null;
     if (discount !== undefined) updateData.discount = discount ? parseInt(discount) : null;
-    if (image !== undefined && image !== null && image !== '') updateData.image = image;
-    if (images !== undefined) updateData.images = images;
-    if (category !== undefined) updateData.category = category;
+    // Once a product has managed images, image and images follow them; use the image endpoints instead
+    if (existingProduct._count.productImages === 0) {
+      if (image !== undefined && image !== null && image !== '') updateData.image = image;
+      if (images !== undefined) updateData.images = images;
+    }
+    if (categoryId !== undefined || category !== undefined) {
+      const categoryData = await getProductCategoryData(categoryId || category);
+      if (!categoryData) {
+        res.status(400).json({
+          success: false,
+          message: 'Category not found'
+        });
+        return;
+      }
+      Object.assign(updateData, categoryData);
+    }
     if (brand !== undefined) updateData.brand = brand;
     if (weight !== undefined) updateData.weight = weight;
     if (ingredients !== undefined) updateData.ingredients = ingredients;
@@ -452,7 +622,11 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
         // If parsing fails, skip it
       }
     }
-    if (stock !== undefined) updateData.stock = parseInt(stock) || 0;
+    // Stock of a product sold in variants is the sum of its variants and is set on them instead
+    if (stock !== undefined) {
+      const variantCount = await prisma.productVariant.count({ where: { productId: existingProduct.id } });
+      if (variantCount === 0) updateData.stock = parseInt(stock) || 0;
+    }
     if (sku !== undefined) updateData.sku = sku;
     
     // Handle isActive properly - can be boolean or string 'true'/'false'
@@ -466,11 +640,32 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       }
     }
 
-    const product = await prisma.product.update({
-      where: { id: req.params.id },
-      data: updateData
+    const product = await prisma.$transaction(async (tx) => {
+      const updated = await tx.product.update({
+        where: { id: req.params.id },
+        data: updateData
+      });
+
+      await recordPriceChange({
+        productId: updated.id,
+        previousPrice: existingProduct.price,
+        price: updated.price,
+        source: 'PRODUCT_UPDATE',
+        changedById: (req as AuthenticatedRequest).user?.id
+      }, tx);
+
+      if (updateData.stock !== undefined) {
+        const changes = await applyLocationStockChange(tx, { productId: updated.id, quantity: updated.stock - existingProduct.stock });
+        if (updated.stock < existingProduct.stock) {
+          await trimLotsToStock(tx, { productId: updated.id }, changes);
+        }
+      }
+
+      return updated;
     });
 
+    await handleRestock(product.id, existingProduct.stock, product.stock);
+
     res.json({
       success: true,
       message: 'Product updated successfully',
@@ -495,6 +690,12 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
       include: {
         orderItems: {
           select: { id: true }
+        },
+        _count: {
+          select: { purchaseOrderItems: true }
+        },
+        productImages: {
+          select: { storage: true, publicId: true }
         }
       }
     });
@@ -507,8 +708,8 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Check if product has any order items
-    if (product.orderItems && product.orderItems.length > 0) {
+    // Check if product has any order items or is on a purchase order
+    if ((product.orderItems && product.orderItems.length > 0) || product._count.purchaseOrderItems > 0) {
       // Product has orders - use soft delete instead
       await prisma.product.update({
         where: { id: req.params.id },
@@ -530,6 +731,9 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
       where: { id: req.params.id }
     });
 
+    // Image rows go with the product; remove their files so they aren't left orphaned in storage
+    await deleteImageAssets(product.productImages);
+
     res.json({
       success: true,
       message: 'Product deleted successfully'
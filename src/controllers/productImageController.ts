@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import {
+  ProductImageError,
+  addProductImages,
+  getProductImages,
+  removeProductImage,
+  reorderProductImages,
+  updateProductImage
+} from '../services/productImageService';
+
+const handleImageError = (error: unknown, res: Response): boolean => {
+  if (error instanceof ProductImageError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+    return true;
+  }
+  return false;
+};
+
+// @desc    Get product images in display order
+// @route   GET /api/products/:id/images
+// @access  Public
+export const getImages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const images = await getProductImages(req.params.id);
+
+    res.json({
+      success: true,
+      data: { images }
+    });
+  } catch (error) {
+    console.error('Get product images error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Upload product images (multipart field "images"; optional "altText" per file)
+// @route   POST /api/products/:id/images
+// @access  Private/Admin
+export const uploadImages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const files = (req.files as Express.Multer.File[]) || [];
+    const altText = req.body?.altText;
+    const altTexts = Array.isArray(altText) ? altText : [altText];
+
+    const images = await addProductImages(req.params.id, files, altTexts);
+
+    res.status(201).json({
+      success: true,
+      message: `${images.length} image${images.length === 1 ? '' : 's'} uploaded successfully`,
+      data: { images }
+    });
+  } catch (error) {
+    if (handleImageError(error, res)) return;
+    console.error('Upload product images error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Reorder product images
+// @route   PUT /api/products/:id/images/order
+// @access  Private/Admin
+export const reorderImages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { imageIds } = req.body;
+
+    if (!Array.isArray(imageIds) || imageIds.some(id => typeof id !== 'string')) {
+      res.status(400).json({
+        success: false,
+        message: 'imageIds must be an array of image IDs'
+      });
+      return;
+    }
+
+    const images = await reorderProductImages(req.params.id, imageIds);
+
+    res.json({
+      success: true,
+      message: 'Images reordered successfully',
+      data: { images }
+    });
+  } catch (error) {
+    if (handleImageError(error, res)) return;
+    console.error('Reorder product images error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Update image alt text or set it as the primary image
+// @route   PUT /api/products/:id/images/:imageId
+// @access  Private/Admin
+export const updateImage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { altText, isPrimary } = req.body;
+
+    const image = await updateProductImage(req.params.id, req.params.imageId, {
+      altText,
+      isPrimary: isPrimary === true || isPrimary === 'true'
+    });
+
+    res.json({
+      success: true,
+      message: 'Image updated successfully',
+      data: { image }
+    });
+  } catch (error) {
+    if (handleImageError(error, res)) return;
+    console.error('Update product image error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Delete product image and its stored file
+// @route   DELETE /api/products/:id/images/:imageId
+// @access  Private/Admin
+export const deleteImage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await removeProductImage(req.params.id, req.params.imageId);
+
+    res.json({
+      success: true,
+      message: 'Image deleted successfully'
+    });
+  } catch (error) {
+    if (handleImageError(error, res)) return;
+    console.error('Delete product image error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
@@ -33,7 +33,7 @@ export const validateShippingAddress = async (req: Request, res: Response) => {
 // Get shipping rates
 export const getShippingRatesController = async (req: Request, res: Response) => {
   try {
-    const { address, parcels } = req.body;
+    const { address, parcels, orderId, locationId } = req.body;
     
     if (!address || !parcels || !Array.isArray(parcels)) {
       return res.status(400).json({ 
@@ -42,7 +42,12 @@ export const getShippingRatesController = async (req: Request, res: Response) =>
       });
     }
 
-    const rates = await getShippingRates(address, parcels);
+    // Quote from the order's allocated location when rating an existing order
+    const order = orderId
+      ? await prisma.order.findUnique({ where: { id: orderId }, select: { fulfillmentLocationId: true } })
+      : null;
+
+    const rates = await getShippingRates(address, parcels, locationId || order?.fulfillmentLocationId);
     
     res.json({ rates });
   } catch (error) {
@@ -0,0 +1,102 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { StockSubscriptionError, subscribeToRestock, unsubscribeFromRestock } from '../services/backInStockService';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Signed-in shoppers are subscribed with their account email unless they give another
+const readSubscriberEmail = (req: AuthenticatedRequest): string | null => {
+  const email = typeof req.body?.email === 'string' && req.body.email.trim() ? req.body.email.trim() : req.user?.email;
+  return email && EMAIL_PATTERN.test(email) ? email : null;
+};
+
+// @desc    Ask to be emailed when an out-of-stock product is available again
+// @route   POST /api/products/:id/notify-me
+// @access  Public (guests give an email)
+export const subscribeBackInStock = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const email = readSubscriberEmail(req);
+    if (!email) {
+      res.status(400).json({
+        success: false,
+        message: 'A valid email is required'
+      });
+      return;
+    }
+
+    const { subscription, alreadySubscribed } = await subscribeToRestock(req.params.id, {
+      email,
+      userId: req.user?.id
+    });
+
+    res.status(alreadySubscribed ? 200 : 201).json({
+      success: true,
+      message: alreadySubscribed
+        ? 'You are already on the list for this product'
+        : "We'll let you know when this product is back in stock",
+      data: {
+        subscription: {
+          id: subscription.id,
+          productId: subscription.productId,
+          email: subscription.email,
+          status: subscription.status,
+          // Only whoever just created or renewed the alert gets its cancel token
+          ...(alreadySubscribed ? {} : { unsubscribeToken: subscription.unsubscribeToken })
+        }
+      }
+    });
+  } catch (error) {
+    if (error instanceof StockSubscriptionError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+      return;
+    }
+    console.error('Back-in-stock subscribe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Cancel a back-in-stock alert
+// @route   DELETE /api/products/:id/notify-me
+// @access  Public (signed-in shoppers by their account, guests with the token from their email)
+export const unsubscribeBackInStock = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const token = req.body?.token || req.query.token;
+    if (!token && !req.user) {
+      res.status(400).json({
+        success: false,
+        message: 'The cancel link from your confirmation email is required'
+      });
+      return;
+    }
+
+    const removed = await unsubscribeFromRestock(
+      req.params.id,
+      token ? { token: String(token) } : { email: req.user!.email }
+    );
+
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: 'No pending alert found for this product'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Back-in-stock alert cancelled'
+    });
+  } catch (error) {
+    console.error('Back-in-stock unsubscribe error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
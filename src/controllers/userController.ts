@@ -1,6 +1,9 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import { Request, Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { RECENTLY_VIEWED_LIMIT, Viewer, clearRecentlyViewed, getRecentlyViewed } from '../services/recentlyViewedService';
+import { resolveVisitorToken } from '../utils/guestToken';
 
 const prisma = new PrismaClient();
 
@@ -502,3 +505,55 @@ export const changePassword = async (req: Request, res: Response): Promise<void>
     });
   }
 };
+
+// The signed-in user, or the anonymous visitor from the visitorToken cookie
+const readViewer = (req: AuthenticatedRequest, res: Response): Viewer | null => {
+  if (req.user) return { userId: req.user.id };
+  const visitorToken = resolveVisitorToken(req, res);
+  return visitorToken ? { visitorToken } : null;
+};
+
+// @desc    Get recently viewed products, newest first
+// @route   GET /api/users/me/recently-viewed
+// @access  Public (guests are identified by their visitor token)
+export const getMyRecentlyViewed = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const viewer = readViewer(req, res);
+    const limit = parseInt(req.query.limit as string) || RECENTLY_VIEWED_LIMIT;
+    const excludeProductId = req.query.exclude ? String(req.query.exclude) : undefined;
+
+    const products = viewer ? await getRecentlyViewed(viewer, { limit, excludeProductId }) : [];
+
+    res.json({
+      success: true,
+      data: { products }
+    });
+  } catch (error) {
+    console.error('Get recently viewed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Clear recently viewed products
+// @route   DELETE /api/users/me/recently-viewed
+// @access  Public (guests are identified by their visitor token)
+export const clearMyRecentlyViewed = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const viewer = readViewer(req, res);
+    if (viewer) await clearRecentlyViewed(viewer);
+
+    res.json({
+      success: true,
+      message: 'Recently viewed products cleared'
+    });
+  } catch (error) {
+    console.error('Clear recently viewed error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
@@ -0,0 +1,293 @@
+import { PrismaClient } from '@prisma/client';
+import { Request, Response } from 'express';
+import { withAvailableVariantStock } from '../services/inventoryService';
+import {
+  getVariantLabel,
+  getVariantOptionKey,
+  moveProductStockToVariant,
+  syncProductStock,
+  variantInclude,
+  writeOffVariantStock
+} from '../services/variantService';
+import { applyLocationStockChange, trimLotsToStock } from '../services/stockLocationService';
+import { handleRestock } from '../services/backInStockService';
+
+const prisma = new PrismaClient();
+
+const parseBoolean = (value: any): boolean =>
+  typeof value === 'boolean' ? value : value === 'true' || value === '1';
+
+// Build create/update data from the request body, only including fields that are provided
+const buildVariantData = (body: any): any => {
+  const data: any = {};
+
+  if (body.flavorId !== undefined) data.flavorId = body.flavorId || null;
+  if (body.size !== undefined) data.size = body.size || null;
+  if (body.name !== undefined) data.name = body.name || null;
+  if (body.sku !== undefined) data.sku = String(body.sku).trim();
+  if (body.price !== undefined) data.price = body.price === null || body.price === '' ? null : parseFloat(body.price);
+  if (body.stock !== undefined) data.stock = Math.max(0, parseInt(body.stock) || 0);
+  if (body.image !== undefined) data.image = body.image || null;
+  if (body.isActive !== undefined) data.isActive = parseBoolean(body.isActive);
+  if (body.sortOrder !== undefined) data.sortOrder = parseInt(body.sortOrder) || 0;
+
+  return data;
+};
+
+const handleUniqueError = (error: any, res: Response): boolean => {
+  if (error.code === 'P2002') {
+    res.status(400).json({
+      success: false,
+      message: 'A variant with this SKU, or with this flavor and size, already exists'
+    });
+    return true;
+  }
+  return false;
+};
+
+// @desc    Get product variants
+// @route   GET /api/products/:id/variants
+// @access  Public
+export const getProductVariants = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+
+    const variants = await prisma.productVariant.findMany({
+      where: {
+        productId: req.params.id,
+        ...(includeInactive ? {} : { isActive: true })
+      },
+      include: variantInclude,
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    const withStock = await withAvailableVariantStock(variants);
+
+    res.json({
+      success: true,
+      data: {
+        variants: withStock.map(variant => ({ ...variant, label: getVariantLabel(variant) }))
+      }
+    });
+  } catch (error) {
+    console.error('Get product variants error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Create product variant
+// @route   POST /api/products/:id/variants
+// @access  Private/Admin
+export const createVariant = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const data = buildVariantData(req.body);
+
+    if (!data.sku) {
+      res.status(400).json({
+        success: false,
+        message: 'SKU is required'
+      });
+      return;
+    }
+
+    if (!data.flavorId && !data.size) {
+      res.status(400).json({
+        success: false,
+        message: 'A variant needs a flavor, a size or both'
+      });
+      return;
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!product) {
+      res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+      return;
+    }
+
+    if (data.flavorId) {
+      const flavor = await prisma.flavor.findUnique({ where: { id: data.flavorId } });
+      if (!flavor) {
+        res.status(400).json({
+          success: false,
+          message: 'Flavor not found'
+        });
+        return;
+      }
+    }
+
+    // The product's stock becomes the sum of its variants; the first one takes over what the product held
+    const variant = await prisma.$transaction(async (tx) => {
+      const created = await tx.productVariant.create({
+        data: { ...data, productId: product.id, optionKey: getVariantOptionKey(data) }
+      });
+      await moveProductStockToVariant(tx, product.id, created);
+      await applyLocationStockChange(tx, { productId: product.id, variantId: created.id, quantity: created.stock });
+      await syncProductStock(product.id, tx);
+      return tx.productVariant.findUnique({ where: { id: created.id }, include: variantInclude });
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Variant created successfully',
+      data: { variant: { ...variant, label: getVariantLabel(variant) } }
+    });
+  } catch (error: any) {
+    if (handleUniqueError(error, res)) return;
+    console.error('Create variant error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Update product variant
+// @route   PUT /api/products/:id/variants/:variantId
+// @access  Private/Admin
+export const updateVariant = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const existing = await prisma.productVariant.findFirst({
+      where: { id: req.params.variantId, productId: req.params.id }
+    });
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        message: 'Variant not found'
+      });
+      return;
+    }
+
+    const data = buildVariantData(req.body);
+
+    if (data.flavorId) {
+      const flavor = await prisma.flavor.findUnique({ where: { id: data.flavorId } });
+      if (!flavor) {
+        res.status(400).json({
+          success: false,
+          message: 'Flavor not found'
+        });
+        return;
+      }
+    }
+
+    if (data.flavorId !== undefined || data.size !== undefined) {
+      data.optionKey = getVariantOptionKey({ ...existing, ...data });
+    }
+
+    // The product total before and after, for back-in-stock alerts
+    let previousStock = 0;
+    let newStock = 0;
+
+    const variant = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM products WHERE id = ${existing.productId} FOR UPDATE`;
+      const before = await tx.product.findUnique({ where: { id: existing.productId }, select: { stock: true } });
+      previousStock = newStock = before?.stock ?? 0;
+
+      const updated = await tx.productVariant.update({
+        where: { id: existing.id },
+        data,
+        include: variantInclude
+      });
+      if (data.stock !== undefined) {
+        const changes = await applyLocationStockChange(tx, {
+          productId: existing.productId,
+          variantId: existing.id,
+          quantity: updated.stock - existing.stock
+        });
+        if (updated.stock < existing.stock) {
+          await trimLotsToStock(tx, { productId: existing.productId, variantId: existing.id }, changes);
+        }
+        await syncProductStock(existing.productId, tx);
+        const after = await tx.product.findUnique({ where: { id: existing.productId }, select: { stock: true } });
+        newStock = after?.stock ?? 0;
+      }
+      return updated;
+    });
+
+    await handleRestock(existing.productId, previousStock, newStock);
+
+    res.json({
+      success: true,
+      message: 'Variant updated successfully',
+      data: { variant: { ...variant, label: getVariantLabel(variant) } }
+    });
+  } catch (error: any) {
+    if (handleUniqueError(error, res)) return;
+    console.error('Update variant error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
+
+// @desc    Delete product variant
+// @route   DELETE /api/products/:id/variants/:variantId
+// @access  Private/Admin
+export const deleteVariant = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const variant = await prisma.productVariant.findFirst({
+      where: { id: req.params.variantId, productId: req.params.id },
+      include: {
+        _count: {
+          select: {
+            orderItems: true,
+            purchaseOrderItems: true,
+            reservations: { where: { status: 'ACTIVE' } }
+          }
+        }
+      }
+    });
+
+    if (!variant) {
+      res.status(404).json({
+        success: false,
+        message: 'Variant not found'
+      });
+      return;
+    }
+
+    // Variants that were sold, purchased from a supplier or are held by an open checkout are deactivated instead
+    if (variant._count.orderItems > 0 || variant._count.purchaseOrderItems > 0 || variant._count.reservations > 0) {
+      await prisma.productVariant.update({
+        where: { id: variant.id },
+        data: { isActive: false }
+      });
+
+      res.json({
+        success: true,
+        message: 'Variant deactivated successfully (cannot delete variants with existing orders)',
+        softDelete: true
+      });
+      return;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await writeOffVariantStock(tx, variant);
+      await tx.productVariant.delete({
+        where: { id: variant.id }
+      });
+    });
+
+    res.json({
+      success: true,
+      message: 'Variant deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete variant error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+};
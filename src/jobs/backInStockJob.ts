@@ -0,0 +1,22 @@
+import { sendRestockAlerts } from '../services/backInStockService';
+
+const BACK_IN_STOCK_JOB_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Send the next batch of back-in-stock alerts for restocked products
+ */
+export const runBackInStockJob = async (): Promise<void> => {
+  await sendRestockAlerts();
+};
+
+/**
+ * Run the back-in-stock job on an interval for the life of the process
+ */
+export const startBackInStockJob = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    runBackInStockJob().catch(error => console.error('Back-in-stock job error:', error));
+  }, BACK_IN_STOCK_JOB_INTERVAL_MS);
+
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,46 @@
+import { PrismaClient } from '@prisma/client';
+import { expireCheckoutDraft } from '../services/checkoutService';
+import { expireStaleReservations } from '../services/inventoryService';
+
+const prisma = new PrismaClient();
+
+const CHECKOUT_HOLD_JOB_INTERVAL_MS = 60 * 1000;
+
+// Stripe normally reports expired sessions itself; wait a little before cleaning up after it
+const EXPIRED_DRAFT_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * Release stock and discount holds from checkouts that expired without a webhook, and flag
+ * reservations past their hold time
+ */
+export const runCheckoutHoldCleanup = async (): Promise<void> => {
+  const cutoff = new Date(Date.now() - EXPIRED_DRAFT_GRACE_MS);
+
+  const drafts = await prisma.checkoutDraft.findMany({
+    where: { status: 'PENDING', expiresAt: { lt: cutoff } },
+    select: { id: true },
+    take: 100
+  });
+
+  for (const draft of drafts) {
+    await expireCheckoutDraft(draft.id);
+  }
+
+  const expiredReservations = await expireStaleReservations();
+
+  if (drafts.length > 0 || expiredReservations > 0) {
+    console.log(`⌛ Checkout cleanup: ${drafts.length} drafts expired, ${expiredReservations} reservations expired`);
+  }
+};
+
+/**
+ * Run the checkout hold cleanup on an interval for the life of the process
+ */
+export const startCheckoutHoldJob = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    runCheckoutHoldCleanup().catch(error => console.error('Checkout hold cleanup error:', error));
+  }, CHECKOUT_HOLD_JOB_INTERVAL_MS);
+
+  timer.unref();
+  return timer;
+};
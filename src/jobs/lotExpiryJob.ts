@@ -0,0 +1,33 @@
+import { expireLots, flagLotsNearExpiry } from '../services/lotService';
+
+const LOT_EXPIRY_JOB_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Give the server a moment to finish starting before the first check
+const LOT_EXPIRY_JOB_STARTUP_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Flag lots close to their best-by date and write off the ones past it
+ */
+export const runLotExpiryJob = async (): Promise<void> => {
+  const flagged = await flagLotsNearExpiry();
+  const expired = await expireLots();
+
+  if (flagged > 0 || expired > 0) {
+    console.log(`📅 Inventory lots: ${flagged} expiring soon, ${expired} expired`);
+  }
+};
+
+/**
+ * Check lots shortly after startup and then daily for the life of the process
+ */
+export const startLotExpiryJob = (): NodeJS.Timeout => {
+  const run = () => {
+    runLotExpiryJob().catch(error => console.error('Lot expiry job error:', error));
+  };
+
+  setTimeout(run, LOT_EXPIRY_JOB_STARTUP_DELAY_MS).unref();
+  const timer = setInterval(run, LOT_EXPIRY_JOB_INTERVAL_MS);
+
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,26 @@
+import { runDuePriceEvents } from '../services/priceEventService';
+
+const PRICE_EVENT_JOB_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Start and end scheduled price events as their times pass
+ */
+export const runPriceEventJob = async (): Promise<void> => {
+  const { applied, ended } = await runDuePriceEvents();
+
+  if (applied > 0 || ended > 0) {
+    console.log(`🏷️ Price events: ${applied} started, ${ended} ended`);
+  }
+};
+
+/**
+ * Run the price event job on an interval for the life of the process
+ */
+export const startPriceEventJob = (): NodeJS.Timeout => {
+  const timer = setInterval(() => {
+    runPriceEventJob().catch(error => console.error('Price event job error:', error));
+  }, PRICE_EVENT_JOB_INTERVAL_MS);
+
+  timer.unref();
+  return timer;
+};
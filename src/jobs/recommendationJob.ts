@@ -0,0 +1,29 @@
+import { rebuildRecommendations } from '../services/recommendationService';
+
+const RECOMMENDATION_JOB_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Give the server a moment to finish starting before the first rebuild
+const RECOMMENDATION_JOB_STARTUP_DELAY_MS = 60 * 1000;
+
+/**
+ * Recompute the cached related products
+ */
+export const runRecommendationJob = async (): Promise<void> => {
+  const { boughtTogether, similar } = await rebuildRecommendations();
+  console.log(`🧺 Recommendations rebuilt: ${boughtTogether} bought together, ${similar} similar`);
+};
+
+/**
+ * Rebuild recommendations shortly after startup and then on an interval for the life of the process
+ */
+export const startRecommendationJob = (): NodeJS.Timeout => {
+  const run = () => {
+    runRecommendationJob().catch(error => console.error('Recommendation job error:', error));
+  };
+
+  setTimeout(run, RECOMMENDATION_JOB_STARTUP_DELAY_MS).unref();
+  const timer = setInterval(run, RECOMMENDATION_JOB_INTERVAL_MS);
+
+  timer.unref();
+  return timer;
+};
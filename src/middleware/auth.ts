@@ -1,7 +1,8 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { AuthenticatedRequest } from '../types';
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
 
 const prisma = new PrismaClient();
 
@@ -127,3 +128,27 @@ export const adminAuth = async (req: AuthenticatedRequest, res: Response, next:
     });
   }
 };
+
+// Scheduled job calls: Vercel Cron sends "Authorization: Bearer <CRON_SECRET>"
+export const cronAuth = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    res.status(503).json({
+      success: false,
+      message: 'Scheduled jobs are not configured'
+    });
+    return;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(req.header('Authorization') || '');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+    res.status(401).json({
+      success: false,
+      message: 'Access denied'
+    });
+    return;
+  }
+
+  next();
+};
@@ -1,8 +1,21 @@
-import express from 'express';
-import { body } from 'express-validator';
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
 import { auth, adminAuth } from '../middleware/auth';
 import { AnalyticsService } from '../services/analyticsService';
+import { getCategoryProductFilter, getProductCategoryData } from '../services/categoryService';
+import { releaseDiscountRedemption } from '../services/discountService';
+import { retryStripeEvent } from '../services/stripeWebhookService';
+import { getPricingSettings, updatePricingSettings } from '../services/settingsService';
+import { ProductImportError, exportProductsCsv, importProductsCsv } from '../services/productImportService';
+import { deleteImageAssets } from '../services/productImageService';
+import { getLowestPrice, getPriceHistory, recordPriceChange } from '../services/priceHistoryService';
+import { handleRestock } from '../services/backInStockService';
+import { applyLocationStockChange, trimLotsToStock } from '../services/stockLocationService';
+import { getStripe } from '../utils/stripe';
+import { PaginationError, buildPage, pageArgs, readCursorQuery } from '../utils/pagination';
+import { csvUpload } from '../utils/csv';
 import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../types';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -18,6 +31,12 @@ const updateProductValidation = [
   body('isActive').optional().isBoolean().withMessage('isActive must be a boolean')
 ];
 
+const pricingSettingsValidation = [
+  body('taxRate').optional().isFloat({ min: 0, max: 1 }).withMessage('Tax rate must be a fraction between 0 and 1'),
+  body('freeShippingThreshold').optional().isFloat({ min: 0 }).withMessage('Free shipping threshold must be a positive number'),
+  body('flatShippingRate').optional().isFloat({ min: 0 }).withMessage('Flat shipping rate must be a positive number')
+];
+
 // @desc    Get comprehensive dashboard statistics
 // @route   GET /api/admin/dashboard
 // @access  Private/Admin
@@ -147,7 +166,7 @@ router.get('/users', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const search = req.query.search as string;
     const role = req.query.role as string;
     const isActive = req.query.isActive as string;
@@ -184,14 +203,15 @@ router.get('/users', async (req, res) => {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.user.count({ where })
     ]);
 
-    const usersWithStats = users.map(user => ({
+    const { items, pagination } = buildPage(users, total, page, limit, cursor);
+
+    const usersWithStats = items.map(user => ({
       ...user,
       orderCount: user.orders.length,
       totalSpent: user.orders.reduce((sum, order) => sum + Number(order.totalAmount), 0),
@@ -200,23 +220,20 @@ router.get('/users', async (req, res) => {
         : null
     }));
 
-    const totalPages = Math.ceil(total / limit);
-
     res.json({
       success: true,
       data: {
         users: usersWithStats,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get users error:', error);
     res.status(500).json({
       success: false,
@@ -232,7 +249,7 @@ router.get('/orders', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const status = req.query.status as string;
     const paymentStatus = req.query.paymentStatus as string;
     const startDate = req.query.startDate as string;
@@ -273,30 +290,28 @@ router.get('/orders', async (req, res) => {
           payment: true,
           shipment: true
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.order.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(orders, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        orders,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        orders: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get orders error:', error);
     res.status(500).json({
       success: false,
@@ -305,6 +320,64 @@ router.get('/orders', async (req, res) => {
   }
 });
 
+// @desc    Export all products as CSV, in the same format the import accepts
+// @route   GET /api/admin/products/export
+// @access  Private/Admin
+router.get('/products/export', async (req, res) => {
+  try {
+    const csv = await exportProductsCsv();
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="products-${date}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error('Export products error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create or update products by SKU from a CSV file (?dryRun=true to validate only)
+// @route   POST /api/admin/products/import
+// @access  Private/Admin
+router.post('/products/import', csvUpload.single('file'), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const text = req.file ? req.file.buffer.toString('utf8') : req.body?.csv;
+    if (!text || typeof text !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Upload a CSV file in the file field or send its text as csv'
+      });
+    }
+
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === true || req.body?.dryRun === 'true';
+    const result = await importProductsCsv(text, { dryRun, userId: req.user?.id });
+
+    res.json({
+      success: true,
+      message: dryRun
+        ? `Dry run: ${result.created} to create, ${result.updated} to update, ${result.skipped} with errors`
+        : `Imported ${result.created + result.updated} products (${result.created} created, ${result.updated} updated, ${result.skipped} skipped)`,
+      data: result
+    });
+  } catch (error) {
+    if (error instanceof ProductImportError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Import products error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Get all products with advanced filtering
 // @route   GET /api/admin/products
 // @access  Private/Admin
@@ -312,13 +385,13 @@ router.get('/products', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const category = req.query.category as string;
     const isActive = req.query.isActive as string;
     const lowStock = req.query.lowStock === 'true';
 
     const where: any = {};
-    if (category) where.category = category;
+    if (category) where.AND = [(await getCategoryProductFilter(category)).where];
     if (isActive !== undefined) where.isActive = isActive === 'true';
     if (lowStock) where.stock = { lt: 10 };
 
@@ -343,30 +416,28 @@ router.get('/products', async (req, res) => {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.product.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(products, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        products,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        products: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get products error:', error);
     res.status(500).json({
       success: false,
@@ -375,16 +446,68 @@ router.get('/products', async (req, res) => {
   }
 });
 
+// @desc    Get product price history for charting (?days=90, or ?from=&to=)
+// @route   GET /api/admin/products/:id/price-history
+// @access  Private/Admin
+router.get('/products/:id/price-history', async (req, res) => {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, name: true, price: true }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 90, 1), 730);
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from ? new Date(req.query.from as string) : new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date range'
+      });
+    }
+
+    const [history, lowestPrice30Days] = await Promise.all([
+      getPriceHistory(product.id, product.price, from, to),
+      getLowestPrice(product.id, product.price, 30)
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        product: { ...product, lowestPrice30Days },
+        from,
+        to,
+        history
+      }
+    });
+  } catch (error) {
+    console.error('Get price history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Update product (Admin)
 // @route   PUT /api/admin/products/:id
 // @access  Private/Admin
-router.put('/products/:id', updateProductValidation, async (req, res) => {
+router.put('/products/:id', updateProductValidation, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
+    const { category, categoryId, stock, ...updateData } = req.body;
 
     const product = await prisma.product.findUnique({
-      where: { id }
+      where: { id },
+      include: { _count: { select: { productImages: true, variants: true } } }
     });
 
     if (!product) {
@@ -394,11 +517,76 @@ router.put('/products/:id', updateProductValidation, async (req, res) => {
       });
     }
 
-    const updatedProduct = await prisma.product.update({
-      where: { id },
-      data: updateData
+    // Once a product has managed images, image and images follow them; use the image endpoints instead
+    if (product._count.productImages > 0) {
+      delete updateData.image;
+      delete updateData.images;
+    }
+
+    // Link the category by ID and keep the product's copy of its name in step
+    if (category !== undefined || categoryId !== undefined) {
+      const categoryData = await getProductCategoryData(categoryId || category);
+      if (!categoryData) {
+        return res.status(400).json({
+          success: false,
+          message: 'Category not found'
+        });
+      }
+      Object.assign(updateData, categoryData);
+    }
+
+    const { updatedProduct, previousStock } = await prisma.$transaction(async (tx) => {
+      // Hold the product row so a stock edit applies to the stock as it is now
+      const [locked] = await tx.$queryRaw<{ stock: number }[]>`SELECT stock FROM products WHERE id = ${id} FOR UPDATE`;
+
+      let updated = await tx.product.update({
+        where: { id },
+        data: updateData
+      });
+
+      await recordPriceChange({
+        productId: id,
+        previousPrice: product.price,
+        price: updated.price,
+        source: 'ADMIN_UPDATE',
+        changedById: req.user?.id
+      }, tx);
+
+      // Stock of a product sold in variants is held per variant, so it is only edited there.
+      // Otherwise the new stock is applied as an adjustment from the current stock.
+      const stockChange = stock !== undefined && product._count.variants === 0 ? parseInt(stock) - locked.stock : 0;
+
+      if (stockChange !== 0) {
+        updated = await tx.product.update({
+          where: { id },
+          data: { stock: { increment: stockChange } }
+        });
+
+        const locationChanges = await applyLocationStockChange(tx, { productId: id, quantity: stockChange });
+        const entries = locationChanges.length > 0 ? locationChanges : [{ locationId: null, quantity: stockChange }];
+
+        for (const entry of entries) {
+          await tx.inventoryLog.create({
+            data: {
+              productId: id,
+              locationId: entry.locationId,
+              type: 'ADJUSTMENT',
+              quantity: entry.quantity,
+              reason: 'Product update'
+            }
+          });
+        }
+
+        if (stockChange < 0) {
+          await trimLotsToStock(tx, { productId: id }, locationChanges);
+        }
+      }
+
+      return { updatedProduct: updated, previousStock: locked.stock };
     });
 
+    await handleRestock(id, previousStock, updatedProduct.stock);
+
     res.json({
       success: true,
       message: 'Product updated successfully',
@@ -420,7 +608,7 @@ router.get('/reviews', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const rating = req.query.rating as string;
     const isActive = req.query.isActive as string;
 
@@ -447,30 +635,28 @@ router.get('/reviews', async (req, res) => {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.review.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(reviews, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        reviews,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        reviews: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get reviews error:', error);
     res.status(500).json({
       success: false,
@@ -567,7 +753,7 @@ router.get('/audit-logs', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const action = req.query.action as string;
     const entity = req.query.entity as string;
 
@@ -587,30 +773,28 @@ router.get('/audit-logs', async (req, res) => {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.auditLog.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(logs, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        logs,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        logs: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get audit logs error:', error);
     res.status(500).json({
       success: false,
@@ -619,6 +803,173 @@ router.get('/audit-logs', async (req, res) => {
   }
 });
 
+// @desc    Get pricing settings (tax rate and shipping rules)
+// @route   GET /api/admin/settings/pricing
+// @access  Private/Admin
+router.get('/settings/pricing', async (req, res) => {
+  try {
+    const settings = await getPricingSettings();
+
+    res.json({
+      success: true,
+      data: { settings }
+    });
+  } catch (error) {
+    console.error('Get pricing settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update pricing settings
+// @route   PUT /api/admin/settings/pricing
+// @access  Private/Admin
+router.put('/settings/pricing', pricingSettingsValidation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { taxRate, freeShippingThreshold, flatShippingRate } = req.body;
+
+    const settings = await updatePricingSettings(
+      { taxRate, freeShippingThreshold, flatShippingRate },
+      req.user!.id
+    );
+
+    res.json({
+      success: true,
+      message: 'Pricing settings updated successfully',
+      data: { settings }
+    });
+  } catch (error) {
+    console.error('Update pricing settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get Stripe webhook events from the ledger (failed ones by default)
+// @route   GET /api/admin/webhook-events
+// @access  Private/Admin
+router.get('/webhook-events', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const cursor = readCursorQuery(req.query, limit);
+    const status = (req.query.status as string) || 'FAILED';
+    const type = req.query.type as string;
+
+    const where: any = {};
+    if (status !== 'all') where.status = status;
+    if (type) where.type = type;
+
+    const [events, total] = await Promise.all([
+      prisma.stripeWebhookEvent.findMany({
+        where,
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          attempts: true,
+          outcome: true,
+          error: true,
+          processedAt: true,
+          createdAt: true,
+          updatedAt: true
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
+      }),
+      prisma.stripeWebhookEvent.count({ where })
+    ]);
+
+    const { items, pagination } = buildPage(events, total, page, limit, cursor);
+
+    res.json({
+      success: true,
+      data: {
+        events: items,
+        pagination
+      }
+    });
+  } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Get webhook events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Re-run a failed Stripe webhook event
+// @route   POST /api/admin/webhook-events/:id/retry
+// @access  Private/Admin
+router.post('/webhook-events/:id/retry', async (req, res) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(500).json({
+        success: false,
+        message: 'Stripe not configured'
+      });
+    }
+
+    const result = await retryStripeEvent(stripe, req.params.id);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Webhook event not found'
+      });
+    }
+
+    if (result.status === 'DUPLICATE' || result.status === 'IN_PROGRESS') {
+      return res.status(409).json({
+        success: false,
+        message: result.status === 'DUPLICATE'
+          ? 'Webhook event was already processed'
+          : 'Webhook event is currently being processed'
+      });
+    }
+
+    if (result.status === 'FAILED') {
+      return res.status(500).json({
+        success: false,
+        message: 'Webhook event failed again',
+        data: { error: result.error }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook event processed successfully',
+      data: { outcome: result.outcome }
+    });
+  } catch (error) {
+    console.error('Retry webhook event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Update order status (Admin)
 // @route   PUT /api/admin/orders/:id/status
 // @access  Private/Admin
@@ -650,6 +1001,10 @@ router.put('/orders/:id/status', async (req, res) => {
       data: { status }
     });
 
+    if (status === 'CANCELLED') {
+      await releaseDiscountRedemption({ orderId: id });
+    }
+
     res.json({
       success: true,
       message: 'Order status updated successfully',
@@ -682,8 +1037,12 @@ router.delete('/orders/:id', async (req, res) => {
       });
     }
 
-    await prisma.order.delete({
-      where: { id }
+    // The order's discount use would otherwise keep counting against the code's limit
+    await prisma.$transaction(async (tx) => {
+      await releaseDiscountRedemption({ orderId: id }, tx);
+      await tx.order.delete({
+        where: { id }
+      });
     });
 
     res.json({
@@ -876,7 +1235,12 @@ router.delete('/products/:id', async (req, res) => {
     const { id } = req.params;
 
     const product = await prisma.product.findUnique({
-      where: { id }
+      where: { id },
+      include: {
+        productImages: {
+          select: { storage: true, publicId: true }
+        }
+      }
     });
 
     if (!product) {
@@ -890,6 +1254,8 @@ router.delete('/products/:id', async (req, res) => {
       where: { id }
     });
 
+    await deleteImageAssets(product.productImages);
+
     res.json({
       success: true,
       message: 'Product deleted successfully'
@@ -4,9 +4,9 @@ import { auth, optionalAuth } from '../middleware/auth';
 
 const router = express.Router();
 
-// Cart routes support both authenticated users (stored in DB) and guest users (handled client-side)
-// For authenticated users, cart is stored in database
-// For guests, cart is managed in localStorage/cookies on frontend
+// Cart routes support both authenticated users and guests, both stored in the database
+// Authenticated users' items are keyed by user ID
+// Guests get a guest cart identified by the cartToken cookie, merged into their account on login
 router.get('/', optionalAuth, getCart);
 router.post('/add', optionalAuth, addToCart);
 router.put('/update/:productId', optionalAuth, updateCartItem);
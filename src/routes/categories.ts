@@ -2,6 +2,7 @@ import express from 'express';
 import { body } from 'express-validator';
 import { auth, adminAuth } from '../middleware/auth';
 import { PrismaClient } from '@prisma/client';
+import { syncCategoryProducts, wouldCreateCycle } from '../services/categoryService';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -12,9 +13,27 @@ const categoryValidation = [
   body('slug').notEmpty().withMessage('Slug is required'),
   body('description').optional(),
   body('image').optional(),
+  body('parentId').optional({ nullable: true }),
   body('isActive').optional().isBoolean()
 ];
 
+// Nest a flat category list under its parents
+const buildCategoryTree = (categories: any[]): any[] => {
+  const nodes = new Map(categories.map(category => [category.id, { ...category, children: [] as any[] }]));
+  const roots: any[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : null;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+};
+
 // @desc    Get all categories (Public)
 // @route   GET /api/categories
 // @access  Public
@@ -29,12 +48,16 @@ router.get('/', async (req, res) => {
 
     const categories = await prisma.category.findMany({
       where,
+      include: {
+        _count: { select: { products: true } }
+      },
       orderBy: { createdAt: 'desc' }
     });
 
+    // ?tree=true returns top-level categories with their children nested
     res.json({
       success: true,
-      data: { categories }
+      data: { categories: req.query.tree === 'true' ? buildCategoryTree(categories) : categories }
     });
   } catch (error) {
     console.error('Get categories error:', error);
@@ -45,15 +68,22 @@ router.get('/', async (req, res) => {
   }
 });
 
-// @desc    Get single category
+// @desc    Get single category by ID or slug
 // @route   GET /api/categories/:id
 // @access  Public
 router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
-    const category = await prisma.category.findUnique({
-      where: { id }
+    const category = await prisma.category.findFirst({
+      where: { OR: [{ id }, { slug: id }] },
+      include: {
+        parent: true,
+        children: {
+          orderBy: { name: 'asc' }
+        },
+        _count: { select: { products: true } }
+      }
     });
 
     if (!category) {
@@ -81,7 +111,17 @@ router.get('/:id', async (req, res) => {
 // @access  Private/Admin
 router.post('/', auth, adminAuth, categoryValidation, async (req, res) => {
   try {
-    const { name, slug, description, image, isActive } = req.body;
+    const { name, slug, description, image, parentId, isActive } = req.body;
+
+    if (parentId) {
+      const parent = await prisma.category.findUnique({ where: { id: parentId } });
+      if (!parent) {
+        return res.status(400).json({
+          success: false,
+          message: 'Parent category not found'
+        });
+      }
+    }
 
     // Check if slug already exists
     const existingCategory = await prisma.category.findUnique({
@@ -101,6 +141,7 @@ router.post('/', auth, adminAuth, categoryValidation, async (req, res) => {
         slug,
         description,
         image,
+        parentId: parentId || null,
         isActive: isActive !== undefined ? isActive : true
       }
     });
@@ -125,7 +166,7 @@ router.post('/', auth, adminAuth, categoryValidation, async (req, res) => {
 router.put('/:id', auth, adminAuth, categoryValidation, async (req, res) => {
   try {
     const { id } = req.params;
-    const { name, slug, description, image, isActive } = req.body;
+    const { name, slug, description, image, parentId, isActive } = req.body;
 
     const category = await prisma.category.findUnique({
       where: { id }
@@ -152,15 +193,42 @@ router.put('/:id', auth, adminAuth, categoryValidation, async (req, res) => {
       }
     }
 
-    const updatedCategory = await prisma.category.update({
-      where: { id },
-      data: {
-        name,
-        slug,
-        description,
-        image,
-        isActive
+    if (parentId) {
+      const parent = await prisma.category.findUnique({ where: { id: parentId } });
+      if (!parent) {
+        return res.status(400).json({
+          success: false,
+          message: 'Parent category not found'
+        });
+      }
+
+      if (await wouldCreateCycle(id, parentId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'A category cannot be nested inside itself or its subcategories'
+        });
       }
+    }
+
+    // Products are linked by ID, so a rename only has to refresh their copy of the name
+    const updatedCategory = await prisma.$transaction(async (tx) => {
+      const updated = await tx.category.update({
+        where: { id },
+        data: {
+          name,
+          slug,
+          description,
+          image,
+          parentId: parentId === undefined ? undefined : parentId || null,
+          isActive
+        }
+      });
+
+      if (updated.name !== category.name) {
+        await syncCategoryProducts(updated, tx);
+      }
+
+      return updated;
     });
 
     res.json({
@@ -195,9 +263,16 @@ router.delete('/:id', auth, adminAuth, async (req, res) => {
       });
     }
 
-    await prisma.category.delete({
-      where: { id }
-    });
+    // Subcategories move up to the deleted category's parent; products are unlinked
+    await prisma.$transaction([
+      prisma.category.updateMany({
+        where: { parentId: id },
+        data: { parentId: category.parentId }
+      }),
+      prisma.category.delete({
+        where: { id }
+      })
+    ]);
 
     res.json({
       success: true,
@@ -0,0 +1,50 @@
+import express from 'express';
+import { cronAuth } from '../middleware/auth';
+import { runCheckoutHoldCleanup } from '../jobs/checkoutHoldJob';
+import { runPriceEventJob } from '../jobs/priceEventJob';
+import { runRecommendationJob } from '../jobs/recommendationJob';
+import { runLotExpiryJob } from '../jobs/lotExpiryJob';
+import { runBackInStockJob } from '../jobs/backInStockJob';
+
+const router = express.Router();
+
+// Timers started in server.ts don't survive on serverless hosts, so each job can also be run here
+const jobs: Record<string, () => Promise<void>> = {
+  'checkout-holds': runCheckoutHoldCleanup,
+  'price-events': runPriceEventJob,
+  'recommendations': runRecommendationJob,
+  'lot-expiry': runLotExpiryJob,
+  'back-in-stock': runBackInStockJob
+};
+
+router.use(cronAuth);
+
+// @desc    Run one background job now (schedules are in vercel.json)
+// @route   GET /api/cron/:job
+// @access  Cron secret
+router.get('/:job', async (req, res) => {
+  const job = jobs[req.params.job];
+  if (!job) {
+    return res.status(404).json({
+      success: false,
+      message: 'Job not found'
+    });
+  }
+
+  try {
+    await job();
+
+    res.json({
+      success: true,
+      message: `Job ${req.params.job} finished`
+    });
+  } catch (error) {
+    console.error(`Cron job ${req.params.job} error:`, error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
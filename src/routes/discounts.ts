@@ -1,7 +1,10 @@
-import express from 'express';
+import express, { Response } from 'express';
 import { body } from 'express-validator';
-import { auth, adminAuth } from '../middleware/auth';
+import { auth, adminAuth, optionalAuth } from '../middleware/auth';
 import { PrismaClient } from '@prisma/client';
+import { AuthenticatedRequest } from '../types';
+import { DiscountLine, evaluateDiscountCode } from '../services/discountService';
+import { isOnSale } from '../services/pricingService';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -13,7 +16,13 @@ const discountValidation = [
   body('type').isIn(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING']).withMessage('Invalid discount type'),
   body('value').isNumeric().withMessage('Value must be a number'),
   body('startDate').isISO8601().withMessage('Invalid start date'),
-  body('endDate').isISO8601().withMessage('Invalid end date')
+  body('endDate').isISO8601().withMessage('Invalid end date'),
+  body('oncePerCustomer').optional().isBoolean().withMessage('oncePerCustomer must be a boolean'),
+  body('firstOrderOnly').optional().isBoolean().withMessage('firstOrderOnly must be a boolean'),
+  body('excludeSaleItems').optional().isBoolean().withMessage('excludeSaleItems must be a boolean'),
+  body('categories').optional().isArray().withMessage('Categories must be an array'),
+  body('productIds').optional().isArray().withMessage('Product IDs must be an array'),
+  body('assignedUserIds').optional().isArray().withMessage('Assigned user IDs must be an array')
 ];
 
 // @desc    Get all discounts (Admin)
@@ -69,9 +78,9 @@ router.get('/', auth, adminAuth, async (req, res) => {
 // @desc    Validate discount code (Public - for checkout)
 // @route   POST /api/discounts/validate
 // @access  Public
-router.post('/validate', async (req, res) => {
+router.post('/validate', optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { code, orderAmount } = req.body;
+    const { code, orderAmount, email, items } = req.body;
 
     if (!code) {
       return res.status(400).json({
@@ -80,60 +89,47 @@ router.post('/validate', async (req, res) => {
       });
     }
 
-    const discount = await prisma.discount.findUnique({
-      where: { code: code.toUpperCase() }
-    });
-
-    if (!discount) {
-      return res.status(404).json({
-        success: false,
-        message: 'Invalid discount code'
+    // With the cart lines we can check category, product and sale-item rules too
+    let lines: DiscountLine[] | undefined;
+    let amount = Number(orderAmount) || 0;
+    if (Array.isArray(items) && items.length > 0) {
+      const products = await prisma.product.findMany({
+        where: { id: { in: items.map((item: any) => String(item.productId)) } },
+        select: { id: true, price: true, originalPrice: true, discount: true, category: true }
       });
-    }
 
-    // Check if discount is active
-    if (!discount.isActive) {
-      return res.status(400).json({
-        success: false,
-        message: 'This discount code is no longer active'
-      });
+      lines = items
+        .map((item: any) => {
+          const product = products.find(p => p.id === String(item.productId));
+          if (!product) return null;
+          return {
+            productId: product.id,
+            category: product.category,
+            onSale: isOnSale(product),
+            lineTotal: Number(product.price) * (parseInt(item.quantity) || 1)
+          };
+        })
+        .filter(Boolean);
+      amount = lines.reduce((sum, line) => sum + line.lineTotal, 0);
     }
 
-    // Check if discount has expired
-    const now = new Date();
-    if (now < discount.startDate || now > discount.endDate) {
-      return res.status(400).json({
-        success: false,
-        message: 'This discount code has expired'
-      });
-    }
-
-    // Check usage limit
-    if (discount.usageLimit && discount.usedCount >= discount.usageLimit) {
-      return res.status(400).json({
-        success: false,
-        message: 'This discount code has reached its usage limit'
-      });
-    }
+    const evaluation = await evaluateDiscountCode(code, amount, {
+      lines,
+      customer: {
+        userId: req.user?.id,
+        email: req.user?.email || email
+      }
+    });
 
-    // Check minimum order amount
-    if (discount.minimumAmount && orderAmount < Number(discount.minimumAmount)) {
-      return res.status(400).json({
+    if (!evaluation.valid) {
+      return res.status(evaluation.statusCode).json({
         success: false,
-        message: `Minimum order amount of $${discount.minimumAmount} required for this discount`
+        message: evaluation.message,
+        reason: evaluation.reason
       });
     }
 
-    // Calculate discount amount
-    let discountAmount = 0;
-    if (discount.type === 'PERCENTAGE') {
-      discountAmount = (orderAmount * Number(discount.value)) / 100;
-      if (discount.maximumDiscount && discountAmount > Number(discount.maximumDiscount)) {
-        discountAmount = Number(discount.maximumDiscount);
-      }
-    } else if (discount.type === 'FIXED_AMOUNT') {
-      discountAmount = Number(discount.value);
-    }
+    const { discount, discountAmount, eligibleAmount } = evaluation;
 
     res.json({
       success: true,
@@ -142,6 +138,7 @@ router.post('/validate', async (req, res) => {
           code: discount.code,
           name: discount.name,
           type: discount.type,
+          eligibleAmount,
           discountAmount
         }
       }
@@ -171,7 +168,13 @@ router.post('/', auth, adminAuth, discountValidation, async (req, res) => {
       usageLimit,
       startDate,
       endDate,
-      isActive
+      isActive,
+      oncePerCustomer,
+      firstOrderOnly,
+      categories,
+      productIds,
+      excludeSaleItems,
+      assignedUserIds
     } = req.body;
 
     // Check if code already exists
@@ -198,7 +201,13 @@ router.post('/', auth, adminAuth, discountValidation, async (req, res) => {
         usageLimit,
         startDate: new Date(startDate),
         endDate: new Date(endDate),
-        isActive: isActive !== undefined ? isActive : true
+        isActive: isActive !== undefined ? isActive : true,
+        oncePerCustomer: !!oncePerCustomer,
+        firstOrderOnly: !!firstOrderOnly,
+        categories: categories || [],
+        productIds: productIds || [],
+        excludeSaleItems: !!excludeSaleItems,
+        assignedUserIds: assignedUserIds || []
       }
     });
 
@@ -233,7 +242,13 @@ router.put('/:id', auth, adminAuth, discountValidation, async (req, res) => {
       usageLimit,
       startDate,
       endDate,
-      isActive
+      isActive,
+      oncePerCustomer,
+      firstOrderOnly,
+      categories,
+      productIds,
+      excludeSaleItems,
+      assignedUserIds
     } = req.body;
 
     const discount = await prisma.discount.findUnique({
@@ -274,7 +289,13 @@ router.put('/:id', auth, adminAuth, discountValidation, async (req, res) => {
         usageLimit,
         startDate: new Date(startDate),
         endDate: new Date(endDate),
-        isActive
+        isActive,
+        oncePerCustomer,
+        firstOrderOnly,
+        categories,
+        productIds,
+        excludeSaleItems,
+        assignedUserIds
       }
     });
 
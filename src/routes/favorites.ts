@@ -4,9 +4,9 @@ import { auth, optionalAuth } from '../middleware/auth';
 
 const router = express.Router();
 
-// Favorites routes support both authenticated users (stored in DB) and guest users (handled client-side)
-// For authenticated users, favorites are stored in database
-// For guests, favorites are managed in localStorage on frontend
+// Favorites routes support both authenticated users and guests, both stored in the database
+// Authenticated users' favorites are keyed by user ID
+// Guests' favorites are keyed by the visitorToken cookie and merged into their account on login
 router.get('/', optionalAuth, getFavorites);
 router.post('/add', optionalAuth, addToFavorites);
 router.delete('/remove/:productId', optionalAuth, removeFromFavorites);
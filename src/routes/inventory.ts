@@ -1,7 +1,22 @@
-import express from 'express';
-import { body } from 'express-validator';
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
 import { auth, adminAuth } from '../middleware/auth';
 import { PrismaClient } from '@prisma/client';
+import { PaginationError, buildPage, pageArgs, readCursorQuery } from '../utils/pagination';
+import { AuthenticatedRequest } from '../types';
+import { handleRestock } from '../services/backInStockService';
+import { InventoryError } from '../services/inventoryService';
+import {
+  StockLocationError,
+  applyLocationStockChange,
+  createStockLocation,
+  getProductLocationStock,
+  transferStock,
+  trimLotsToStock,
+  updateStockLocation
+} from '../services/stockLocationService';
+import { LOT_EXPIRY_WARNING_DAYS, LotError, adjustLotQuantity, createLot, getLotRecall } from '../services/lotService';
+import { IncomingStock, getIncomingStock } from '../services/purchaseOrderService';
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -16,13 +31,19 @@ router.get('/logs', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const productId = req.query.productId as string;
+    const variantId = req.query.variantId as string;
     const type = req.query.type as string;
+    const locationId = req.query.locationId as string;
+    const referenceId = req.query.referenceId as string;
 
     const where: any = {};
     if (productId) where.productId = productId;
+    if (variantId) where.variantId = variantId;
     if (type) where.type = type;
+    if (locationId) where.locationId = locationId;
+    if (referenceId) where.referenceId = referenceId;
 
     const [logs, total] = await Promise.all([
       prisma.inventoryLog.findMany({
@@ -36,32 +57,46 @@ router.get('/logs', async (req, res) => {
               sku: true,
               stock: true
             }
+          },
+          variant: {
+            select: {
+              id: true,
+              name: true,
+              size: true,
+              sku: true,
+              stock: true
+            }
+          },
+          location: {
+            select: {
+              id: true,
+              name: true,
+              code: true
+            }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.inventoryLog.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(logs, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        logs,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        logs: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get inventory logs error:', error);
     res.status(500).json({
       success: false,
@@ -75,13 +110,16 @@ router.get('/logs', async (req, res) => {
 // @access  Private/Admin
 router.post('/adjust', [
   body('productId').notEmpty().withMessage('Product ID is required'),
+  body('variantId').optional(),
+  body('locationId').optional(),
+  body('lotId').optional(),
   body('type').isIn(['STOCK_IN', 'STOCK_OUT', 'ADJUSTMENT', 'RETURN', 'DAMAGE', 'EXPIRED']).withMessage('Invalid log type'),
   body('quantity').isInt().withMessage('Quantity must be an integer'),
   body('reason').optional(),
   body('notes').optional()
 ], async (req, res) => {
   try {
-    const { productId, type, quantity, reason, notes, referenceId } = req.body;
+    const { productId, variantId, locationId, lotId, type, quantity, reason, notes, referenceId } = req.body;
 
     // Get current product
     const product = await prisma.product.findUnique({
@@ -95,6 +133,26 @@ router.post('/adjust', [
       });
     }
 
+    // Adjustments to a variant change its stock and the product total together
+    const variant = variantId ? await prisma.productVariant.findUnique({
+      where: { id: variantId }
+    }) : null;
+
+    if (variantId && (!variant || variant.productId !== product.id)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product variant not found'
+      });
+    }
+
+    // Products with variants keep their stock per variant
+    if (!variant && (await prisma.productVariant.count({ where: { productId: product.id } })) > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose which variant to adjust'
+      });
+    }
+
     // Calculate new stock
     let stockChange = quantity;
     if (type === 'STOCK_OUT' || type === 'DAMAGE' || type === 'EXPIRED') {
@@ -103,42 +161,85 @@ router.post('/adjust', [
       stockChange = Math.abs(quantity);
     }
 
-    const newStock = product.stock + stockChange;
+    // An adjustment to a lot happens where the lot is kept
+    const lot = lotId ? await prisma.inventoryLot.findUnique({
+      where: { id: lotId },
+      select: { locationId: true }
+    }) : null;
 
-    if (newStock < 0) {
-      return res.status(400).json({
-        success: false,
-        message: 'Insufficient stock for this operation'
+    // Create log and update stock in transaction. With stock locations set up the change
+    // lands on the given location, or the default one, which must hold what is taken out.
+    const { log, updatedProduct, updatedVariant } = await prisma.$transaction(async (tx) => {
+      // Hold the product row so the change below applies to the stock as it is now
+      await tx.$queryRaw`SELECT id FROM products WHERE id = ${productId} FOR UPDATE`;
+
+      if (lotId) {
+        await adjustLotQuantity(tx, lotId, { productId, variantId: variant ? variant.id : null, quantity: stockChange });
+      }
+
+      const locationChanges = await applyLocationStockChange(tx, {
+        productId,
+        variantId: variant ? variant.id : null,
+        quantity: stockChange,
+        locationId: locationId || lot?.locationId || null,
+        strict: true
       });
-    }
+      const [locationChange] = locationChanges;
 
-    // Create log and update stock in transaction
-    const [log, updatedProduct] = await prisma.$transaction([
-      prisma.inventoryLog.create({
+      const log = await tx.inventoryLog.create({
         data: {
           productId,
+          variantId: variant ? variant.id : null,
+          locationId: locationChange ? locationChange.locationId : null,
+          lotId: lotId || null,
           type,
           quantity: stockChange,
           reason,
           notes,
           referenceId
         }
-      }),
-      prisma.product.update({
+      });
+
+      const updatedProduct = await tx.product.update({
         where: { id: productId },
-        data: { stock: newStock }
-      })
-    ]);
+        data: { stock: { increment: stockChange } }
+      });
+
+      const updatedVariant = variant ? await tx.productVariant.update({
+        where: { id: variant.id },
+        data: { stock: { increment: stockChange } }
+      }) : null;
+
+      if (updatedProduct.stock < 0 || (updatedVariant && updatedVariant.stock < 0)) {
+        throw new InventoryError('Insufficient stock for this operation');
+      }
+
+      // Stock taken out without naming a lot still comes out of the lots kept there
+      if (!lotId && stockChange < 0) {
+        await trimLotsToStock(tx, { productId, variantId: variant ? variant.id : null }, locationChanges);
+      }
+
+      return { log, updatedProduct, updatedVariant };
+    });
+
+    await handleRestock(productId, updatedProduct.stock - stockChange, updatedProduct.stock);
 
     res.status(201).json({
       success: true,
       message: 'Inventory adjusted successfully',
       data: {
         log,
-        product: updatedProduct
+        product: updatedProduct,
+        ...(updatedVariant ? { variant: updatedVariant } : {})
       }
     });
   } catch (error) {
+    if (error instanceof StockLocationError || error instanceof LotError || error instanceof InventoryError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Adjust inventory error:', error);
     res.status(500).json({
       success: false,
@@ -147,7 +248,7 @@ router.post('/adjust', [
   }
 });
 
-// @desc    Get low stock products
+// @desc    Get low stock products with what is already on order for them
 // @route   GET /api/inventory/low-stock
 // @access  Private/Admin
 router.get('/low-stock', async (req, res) => {
@@ -171,9 +272,21 @@ router.get('/low-stock', async (req, res) => {
       }
     });
 
+    const incoming = await getIncomingStock(products.map(product => product.id));
+
     res.json({
       success: true,
-      data: { products, threshold }
+      data: {
+        products: products.map(product => {
+          const onOrder = incoming.get(product.id);
+          return {
+            ...product,
+            incoming: onOrder ? onOrder.quantity : 0,
+            nextExpectedAt: onOrder ? onOrder.nextExpectedAt : null
+          };
+        }),
+        threshold
+      }
     });
   } catch (error) {
     console.error('Get low stock products error:', error);
@@ -184,6 +297,38 @@ router.get('/low-stock', async (req, res) => {
   }
 });
 
+// @desc    Get open purchase order report: units still due per product, soonest first
+// @route   GET /api/inventory/incoming
+// @access  Private/Admin
+router.get('/incoming', async (req, res) => {
+  try {
+    const incoming = await getIncomingStock();
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: Array.from(incoming.keys()) } },
+      select: { id: true, name: true, sku: true, image: true, stock: true }
+    });
+
+    const report = products
+      .map(product => ({ ...product, ...(incoming.get(product.id) as IncomingStock) }))
+      .sort((a, b) => (a.nextExpectedAt?.getTime() ?? Infinity) - (b.nextExpectedAt?.getTime() ?? Infinity));
+
+    res.json({
+      success: true,
+      data: {
+        products: report,
+        totalIncoming: report.reduce((sum, product) => sum + product.quantity, 0)
+      }
+    });
+  } catch (error) {
+    console.error('Get incoming stock error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 // @desc    Get inventory summary
 // @route   GET /api/inventory/summary
 // @access  Private/Admin
@@ -233,6 +378,468 @@ router.get('/summary', async (req, res) => {
   }
 });
 
+const locationValidation = (isUpdate: boolean) => {
+  const field = (name: string) => (isUpdate ? body(name).optional() : body(name));
+  return [
+    field('name').notEmpty().withMessage('Name is required'),
+    field('code').matches(/^[A-Za-z0-9_-]+$/).withMessage('Code may only contain letters, numbers, dashes and underscores'),
+    body('type').optional().isString().withMessage('Invalid location type'),
+    body('priority').optional().isInt().withMessage('Priority must be an integer'),
+    body('isDefault').optional().isBoolean().withMessage('isDefault must be true or false'),
+    body('isActive').optional().isBoolean().withMessage('isActive must be true or false'),
+    body('email').optional({ nullable: true, checkFalsy: true }).isEmail().withMessage('Invalid email')
+  ];
+};
+
+const LOCATION_FIELDS = [
+  'name', 'code', 'type', 'priority', 'isDefault', 'isActive',
+  'contactName', 'company', 'email', 'phone', 'street1', 'street2', 'city', 'state', 'zip', 'country'
+] as const;
+
+// Pick the writable stock location fields out of a request body
+const buildLocationInput = (input: any) => {
+  const data: any = {};
+  for (const field of LOCATION_FIELDS) {
+    if (input[field] !== undefined) data[field] = input[field];
+  }
+  if (data.code) data.code = String(data.code).toUpperCase();
+  if (data.priority !== undefined) data.priority = parseInt(data.priority);
+  if (data.isDefault !== undefined) data.isDefault = data.isDefault === true || data.isDefault === 'true';
+  if (data.isActive !== undefined) data.isActive = data.isActive === true || data.isActive === 'true';
+  return data;
+};
+
+// @desc    Get stock locations with how many units each holds
+// @route   GET /api/inventory/locations
+// @access  Private/Admin
+router.get('/locations', async (req, res) => {
+  try {
+    const [locations, totals] = await Promise.all([
+      prisma.stockLocation.findMany({
+        orderBy: [{ isActive: 'desc' }, { priority: 'asc' }, { createdAt: 'asc' }]
+      }),
+      prisma.locationStock.groupBy({
+        by: ['locationId'],
+        _sum: { quantity: true }
+      })
+    ]);
+
+    const units = new Map(totals.map(total => [total.locationId, total._sum.quantity || 0]));
+
+    res.json({
+      success: true,
+      data: {
+        locations: locations.map(location => ({ ...location, totalStock: units.get(location.id) || 0 }))
+      }
+    });
+  } catch (error) {
+    console.error('Get stock locations error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create stock location (the first one takes over all existing stock)
+// @route   POST /api/inventory/locations
+// @access  Private/Admin
+router.post('/locations', locationValidation(false), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const location = await createStockLocation(buildLocationInput(req.body), req.user?.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock location created successfully',
+      data: { location }
+    });
+  } catch (error) {
+    if (error instanceof StockLocationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Create stock location error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update stock location
+// @route   PUT /api/inventory/locations/:id
+// @access  Private/Admin
+router.put('/locations/:id', locationValidation(true), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const location = await updateStockLocation(req.params.id, buildLocationInput(req.body), req.user?.id);
+
+    res.json({
+      success: true,
+      message: 'Stock location updated successfully',
+      data: { location }
+    });
+  } catch (error) {
+    if (error instanceof StockLocationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Update stock location error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get stock held at a location
+// @route   GET /api/inventory/locations/:id/stock
+// @access  Private/Admin
+router.get('/locations/:id/stock', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const cursor = readCursorQuery(req.query, limit);
+
+    const location = await prisma.stockLocation.findUnique({ where: { id: req.params.id } });
+    if (!location) {
+      return res.status(404).json({
+        success: false,
+        message: 'Stock location not found'
+      });
+    }
+
+    const where = { locationId: location.id, quantity: { not: 0 } };
+    const [rows, total] = await Promise.all([
+      prisma.locationStock.findMany({
+        where,
+        include: {
+          product: { select: { id: true, name: true, sku: true, image: true, stock: true } },
+          variant: { select: { id: true, name: true, size: true, sku: true, stock: true } }
+        },
+        orderBy: [{ productId: 'asc' }, { id: 'asc' }],
+        ...pageArgs(page, limit, cursor)
+      }),
+      prisma.locationStock.count({ where })
+    ]);
+
+    const { items, pagination } = buildPage(rows, total, page, limit, cursor);
+
+    res.json({
+      success: true,
+      data: {
+        location,
+        stock: items,
+        pagination
+      }
+    });
+  } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Get location stock error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get a product's stock per location
+// @route   GET /api/inventory/products/:productId/locations
+// @access  Private/Admin
+router.get('/products/:productId/locations', async (req, res) => {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { id: req.params.productId },
+      select: { id: true, name: true, stock: true }
+    });
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        message: 'Product not found'
+      });
+    }
+
+    const stock = await getProductLocationStock(product.id);
+
+    res.json({
+      success: true,
+      data: { product, stock }
+    });
+  } catch (error) {
+    console.error('Get product location stock error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Move stock from one location to another
+// @route   POST /api/inventory/transfers
+// @access  Private/Admin
+router.post('/transfers', [
+  body('productId').notEmpty().withMessage('Product ID is required'),
+  body('variantId').optional({ nullable: true }).isString().withMessage('Invalid variant ID'),
+  body('fromLocationId').notEmpty().withMessage('Source location is required'),
+  body('toLocationId').notEmpty().withMessage('Destination location is required'),
+  body('lotId').optional({ nullable: true }).isString().withMessage('Invalid lot ID'),
+  body('quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
+  body('notes').optional()
+], async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId, variantId, lotId, fromLocationId, toLocationId, quantity, notes } = req.body;
+    const transfer = await transferStock(
+      { productId, variantId, lotId, fromLocationId, toLocationId, quantity: parseInt(quantity), notes },
+      req.user?.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock transferred successfully',
+      data: transfer
+    });
+  } catch (error) {
+    if (error instanceof StockLocationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Transfer stock error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get inventory lots, soonest best-by date first
+// @route   GET /api/inventory/lots
+// @access  Private/Admin
+router.get('/lots', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const cursor = readCursorQuery(req.query, limit);
+    const { productId, variantId, locationId, status, lotNumber } = req.query;
+
+    const where: any = {};
+    if (productId) where.productId = String(productId);
+    if (variantId) where.variantId = String(variantId);
+    if (locationId) where.locationId = String(locationId);
+    if (status) where.status = String(status).toUpperCase();
+    if (lotNumber) where.lotNumber = String(lotNumber);
+
+    // ?expiringWithin=N lists active lots reaching their best-by date in the next N days
+    if (req.query.expiringWithin !== undefined) {
+      const days = parseInt(req.query.expiringWithin as string) || LOT_EXPIRY_WARNING_DAYS;
+      where.status = 'ACTIVE';
+      where.quantity = { gt: 0 };
+      where.bestBy = { lte: new Date(Date.now() + days * 24 * 60 * 60 * 1000) };
+    }
+
+    const [lots, total] = await Promise.all([
+      prisma.inventoryLot.findMany({
+        where,
+        include: {
+          product: { select: { id: true, name: true, sku: true } },
+          variant: { select: { id: true, name: true, sku: true } },
+          location: { select: { id: true, name: true, code: true } }
+        },
+        orderBy: [{ bestBy: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }, { id: 'asc' }],
+        ...pageArgs(page, limit, cursor)
+      }),
+      prisma.inventoryLot.count({ where })
+    ]);
+
+    const { items, pagination } = buildPage(lots, total, page, limit, cursor);
+
+    res.json({
+      success: true,
+      data: {
+        lots: items,
+        pagination
+      }
+    });
+  } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Get inventory lots error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get the orders that received units from a lot number
+// @route   GET /api/inventory/lots/recall?lotNumber=&productId=
+// @access  Private/Admin
+router.get('/lots/recall', async (req, res) => {
+  try {
+    const lotNumber = req.query.lotNumber as string;
+    const productId = req.query.productId as string;
+
+    if (!lotNumber) {
+      return res.status(400).json({
+        success: false,
+        message: 'Lot number is required'
+      });
+    }
+
+    const picks = await getLotRecall(lotNumber, productId);
+    const orders = new Set(picks.map(pick => pick.orderItem.order.id));
+
+    res.json({
+      success: true,
+      data: {
+        lotNumber,
+        orderCount: orders.size,
+        units: picks.reduce((sum, pick) => sum + pick.quantity, 0),
+        items: picks
+      }
+    });
+  } catch (error) {
+    console.error('Get lot recall error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get lot with its stock movements
+// @route   GET /api/inventory/lots/:id
+// @access  Private/Admin
+router.get('/lots/:id', async (req, res) => {
+  try {
+    const lot = await prisma.inventoryLot.findUnique({
+      where: { id: req.params.id },
+      include: {
+        product: { select: { id: true, name: true, sku: true } },
+        variant: { select: { id: true, name: true, sku: true } },
+        location: { select: { id: true, name: true, code: true } },
+        inventoryLogs: { orderBy: { createdAt: 'desc' } },
+        _count: { select: { orderItems: true } }
+      }
+    });
+
+    if (!lot) {
+      return res.status(404).json({
+        success: false,
+        message: 'Lot not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { lot }
+    });
+  } catch (error) {
+    console.error('Get inventory lot error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Receive a lot of stock, or start tracking units already in stock as a lot
+// @route   POST /api/inventory/lots
+// @access  Private/Admin
+router.post('/lots', [
+  body('productId').notEmpty().withMessage('Product ID is required'),
+  body('variantId').optional({ nullable: true }).isString().withMessage('Invalid variant ID'),
+  body('locationId').optional({ nullable: true }).isString().withMessage('Invalid location ID'),
+  body('lotNumber').trim().notEmpty().withMessage('Lot number is required'),
+  body('bestBy').optional({ nullable: true }).isISO8601().withMessage('Invalid best-by date'),
+  body('receivedAt').optional().isISO8601().withMessage('Invalid received date'),
+  body('quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
+  body('existingStock').optional().isBoolean().withMessage('existingStock must be true or false')
+], async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { productId, variantId, locationId, lotNumber, bestBy, receivedAt, quantity, existingStock, notes } = req.body;
+    const lot = await createLot({
+      productId,
+      variantId,
+      locationId,
+      lotNumber,
+      bestBy: bestBy ? new Date(bestBy) : null,
+      receivedAt: receivedAt ? new Date(receivedAt) : undefined,
+      quantity: parseInt(quantity),
+      existingStock: existingStock === true || existingStock === 'true',
+      notes
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Lot created successfully',
+      data: { lot }
+    });
+  } catch (error) {
+    if (error instanceof LotError || error instanceof StockLocationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Create inventory lot error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
 export default router;
 
 
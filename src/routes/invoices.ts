@@ -52,7 +52,7 @@ router.get('/order/:orderId', auth, async (req, res) => {
         country: order.shippingCountry
       },
       items: order.orderItems.map(item => ({
-        name: item.product.name,
+        name: item.variantName ? `${item.product.name} - ${item.variantName}` : item.product.name,
         quantity: item.quantity,
         price: Number(item.price),
         total: Number(item.price) * item.quantity
@@ -125,7 +125,7 @@ router.post('/order/:orderId/email', auth, async (req, res) => {
         country: order.shippingCountry
       },
       items: order.orderItems.map(item => ({
-        name: item.product.name,
+        name: item.variantName ? `${item.product.name} - ${item.variantName}` : item.product.name,
         quantity: item.quantity,
         price: Number(item.price),
         total: Number(item.price) * item.quantity
@@ -196,7 +196,7 @@ router.get('/admin/order/:orderId', auth, adminAuth, async (req, res) => {
         country: order.shippingCountry
       },
       items: order.orderItems.map(item => ({
-        name: item.product.name,
+        name: item.variantName ? `${item.product.name} - ${item.variantName}` : item.product.name,
         quantity: item.quantity,
         price: Number(item.price),
         total: Number(item.price) * item.quantity
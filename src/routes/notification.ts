@@ -4,6 +4,7 @@ import { auth, adminAuth } from '../middleware/auth';
 import { PrismaClient } from '@prisma/client';
 import { getNotificationStats, markAllNotificationsAsRead } from '../services/socketService';
 import { AuthenticatedRequest } from '../types';
+import { PaginationError, buildPage, pageArgs, readCursorQuery } from '../utils/pagination';
 import { Response } from 'express';
 
 const prisma = new PrismaClient();
@@ -24,7 +25,7 @@ router.get('/', auth, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const unreadOnly = req.query.unreadOnly === 'true';
 
     const where: any = { userId: req.user!.id };
@@ -35,30 +36,28 @@ router.get('/', auth, async (req: AuthenticatedRequest, res: Response) => {
     const [notifications, total] = await Promise.all([
       prisma.notification.findMany({
         where,
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.notification.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(notifications, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        notifications,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        notifications: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get notifications error:', error);
     res.status(500).json({
       success: false,
@@ -196,7 +195,7 @@ router.get('/admin', auth, adminAuth, async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const skip = (page - 1) * limit;
+    const cursor = readCursorQuery(req.query, limit);
     const type = req.query.type as string;
     const unreadOnly = req.query.unreadOnly === 'true';
 
@@ -216,30 +215,28 @@ router.get('/admin', auth, adminAuth, async (req, res) => {
             }
           }
         },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
       }),
       prisma.notification.count({ where })
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(notifications, total, page, limit, cursor);
 
     res.json({
       success: true,
       data: {
-        notifications,
-        pagination: {
-          currentPage: page,
-          totalPages,
-          totalItems: total,
-          itemsPerPage: limit,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        notifications: items,
+        pagination
       }
     });
   } catch (error) {
+    if (error instanceof PaginationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
     console.error('Get admin notifications error:', error);
     res.status(500).json({
       success: false,
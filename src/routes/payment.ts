@@ -1,18 +1,109 @@
 import express from "express";
 import Stripe from "stripe";
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, CheckoutDraft } from "@prisma/client";
+import {
+  CheckoutError,
+  CheckoutPriceChange,
+  attachCheckoutSession,
+  createCheckoutDraft,
+  expireCheckoutDraft,
+  normalizeCheckoutItems,
+  quoteCheckout,
+} from "../services/checkoutService";
+import {
+  reactivateDiscountRedemption,
+  releaseDiscountRedemption,
+} from "../services/discountService";
+import { handleStripeWebhookEvent } from "../services/stripeWebhookService";
+import { getStripe } from "../utils/stripe";
+import { optionalAuth } from "../middleware/auth";
+import { AuthenticatedRequest } from "../types";
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Lazy Stripe init to allow running without keys in dev/demo
-function getStripe(): Stripe | null {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) return null;
-  return new Stripe(key, { apiVersion: "2024-06-20" } as any);
+const toUnitAmount = (amount: number): number =>
+  Math.max(0, Math.round(Number(amount || 0) * 100));
+
+// Build Stripe line items from server-side prices plus shipping and tax
+function buildLineItems(
+  lines: Array<{ name: string; variantName?: string | null; unitPrice: number; quantity: number }>,
+  shipping: number,
+  tax: number
+): Stripe.Checkout.SessionCreateParams.LineItem[] {
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = lines.map(
+    (line) => ({
+      price_data: {
+        currency: "usd",
+        product_data: {
+          name: line.variantName ? `${line.name} - ${line.variantName}` : line.name,
+        },
+        unit_amount: toUnitAmount(line.unitPrice),
+      },
+      quantity: Math.max(1, line.quantity),
+    })
+  );
+
+  if (shipping > 0) {
+    lineItems.push({
+      price_data: {
+        currency: "usd",
+        product_data: { name: "Shipping" },
+        unit_amount: toUnitAmount(shipping),
+      },
+      quantity: 1,
+    });
+  }
+
+  if (tax > 0) {
+    lineItems.push({
+      price_data: {
+        currency: "usd",
+        product_data: { name: "Tax" },
+        unit_amount: toUnitAmount(tax),
+      },
+      quantity: 1,
+    });
+  }
+
+  return lineItems;
+}
+
+// Build Stripe line items for an order that was already priced when it was created
+function buildOrderLineItems(order: any) {
+  return buildLineItems(
+    order.orderItems.map((item: any) => ({
+      name: String(item.productName || item.productId || "Item"),
+      unitPrice: Number(item.price || 0),
+      quantity: Number(item.quantity || 1),
+    })),
+    Number(order.shippingAmount || 0),
+    Number(order.taxAmount || 0)
+  );
+}
+
+// Stripe line items cannot be negative, so discounts go through a single-use coupon
+async function buildSessionDiscounts(
+  stripe: Stripe,
+  amount: number,
+  name: string
+): Promise<Stripe.Checkout.SessionCreateParams.Discount[] | undefined> {
+  if (!amount || amount <= 0) return undefined;
+
+  const coupon = await stripe.coupons.create({
+    amount_off: toUnitAmount(amount),
+    currency: "usd",
+    duration: "once",
+    max_redemptions: 1,
+    name: name.substring(0, 40),
+  });
+
+  return [{ coupon: coupon.id }];
 }
 
-router.post("/create-checkout-session", async (req, res) => {
+router.post("/create-checkout-session", optionalAuth, async (req: AuthenticatedRequest, res) => {
+  let draft: CheckoutDraft | null = null;
+
   try {
     const stripe = getStripe();
     if (!stripe) {
@@ -31,23 +122,17 @@ router.post("/create-checkout-session", async (req, res) => {
       return res.status(400).json({ message: "No items provided" });
     }
 
-    // Convert items to Stripe line items
-    const line_items = items.map((it: any) => ({
-      price_data: {
-        currency: "usd",
-        product_data: { name: String(it.productName || it.name || "Item") },
-        unit_amount: Math.max(0, Math.round(Number(it.price || 0) * 100)),
-      },
-      quantity: Math.max(1, Number(it.quantity || 1)),
-    }));
-
     // Store minimal data in Stripe metadata - NO pending orders created
     const metadata: any = {};
+    let line_items: Stripe.Checkout.SessionCreateParams.LineItem[];
+    let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+    let priceChanges: CheckoutPriceChange[] = [];
 
     if (orderId) {
       // Existing order (retry payment) - verify it exists
       const existingOrder = await prisma.order.findUnique({
         where: { id: orderId },
+        include: { orderItems: true },
       });
 
       if (!existingOrder) {
@@ -55,54 +140,58 @@ router.post("/create-checkout-session", async (req, res) => {
       }
 
       metadata.orderId = String(orderId);
+      line_items = buildOrderLineItems(existingOrder);
+      discounts = await buildSessionDiscounts(
+        stripe,
+        Number(existingOrder.discountAmount),
+        `Order ${existingOrder.orderNumber} discount`
+      );
     } else if (orderData) {
-      // New order - store only essential data in metadata
-      // Product IDs in compact format: "pid1:qty1,pid2:qty2"
-      const productItems = orderData.orderItems || [];
-      const productIds = productItems
-        .map(
-          (item: any) =>
-            `${item.productId || item.pid}:${item.quantity || 1}:${Number(
-              item.price || 0
-            ).toFixed(2)}`
-        )
-        .join(",");
-
-      // Store in metadata (will be used to create order in webhook)
-      if (orderData.userId) {
-        metadata.userId = String(orderData.userId);
-      }
-      if (orderData.shippingAddress?.email) {
-        metadata.guestEmail = String(orderData.shippingAddress.email);
-      }
-      metadata.products = productIds.substring(0, 400); // Limit to 400 chars to stay under 500 total
-
-      // Store shipping rate info if provided
-      if (selectedShippingRate) {
-        metadata.shippingRateId = selectedShippingRate.objectId;
-        metadata.shippingCarrier = selectedShippingRate.carrier;
-        metadata.shippingAmount = String(selectedShippingRate.amount);
-        metadata.shippingService = selectedShippingRate.serviceName;
-      }
+      // New order - price everything from the database, never from the client
+      const productItems =
+        Array.isArray(orderData.orderItems) && orderData.orderItems.length > 0
+          ? orderData.orderItems
+          : items;
+
+      // Who is buying comes from the session, never the body; guests are known by their shipping email
+      const guestEmail =
+        !req.user && orderData.shippingAddress?.email
+          ? String(orderData.shippingAddress.email)
+          : null;
+      const customer = {
+        userId: req.user?.id || null,
+        email: req.user?.email || guestEmail,
+      };
+
+      const quote = await quoteCheckout({
+        items: normalizeCheckoutItems(productItems),
+        discountCode: orderData.discountCode,
+        shippingRateId: selectedShippingRate?.objectId,
+        customer,
+      });
 
-      // Store notes if provided (truncated if needed)
-      if (orderData.orderNotes) {
-        metadata.notes = String(orderData.orderNotes).substring(0, 50);
+      priceChanges = quote.priceChanges;
+      line_items = buildLineItems(quote.lines, quote.shipping, quote.tax);
+      if (quote.discountAmount > 0) {
+        discounts = await buildSessionDiscounts(
+          stripe,
+          quote.discountAmount,
+          [quote.discountCode, ...quote.promotions.map((p) => p.label)]
+            .filter(Boolean)
+            .join(" + ")
+        );
       }
 
-      // Store pre-collected shipping address (minimal fields)
-      if (orderData.shippingAddress) {
-        const addr = orderData.shippingAddress;
-        metadata.addrName = addr.name?.substring(0, 50) || "";
-        metadata.addrStreet = addr.street?.substring(0, 50) || "";
-        metadata.addrCity = addr.city?.substring(0, 30) || "";
-        metadata.addrState = addr.state?.substring(0, 20) || "";
-        metadata.addrZip = addr.zipCode?.substring(0, 10) || "";
-        metadata.addrCountry = addr.country?.substring(0, 10) || "";
-        if (addr.phone) {
-          metadata.addrPhone = addr.phone.substring(0, 20);
-        }
-      }
+      // The full cart lives in a draft; Stripe only carries its ID
+      draft = await createCheckoutDraft(quote, {
+        userId: customer.userId,
+        guestEmail,
+        email: customer.email,
+        shippingAddress: orderData.shippingAddress || null,
+        notes: orderData.orderNotes ? String(orderData.orderNotes) : null,
+      });
+
+      metadata.draftId = draft.id;
     } else {
       return res
         .status(400)
@@ -115,11 +204,18 @@ router.post("/create-checkout-session", async (req, res) => {
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
       line_items,
+      ...(discounts ? { discounts } : {}),
       success_url:
         successUrl ||
         `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: cancelUrl || `${process.env.CLIENT_URL}/cart`,
       metadata,
+      ...(draft
+        ? {
+            client_reference_id: draft.id,
+            expires_at: Math.floor(draft.expiresAt.getTime() / 1000),
+          }
+        : {}),
       billing_address_collection: "required",
       // Only collect shipping address if not pre-collected on frontend
       ...(hasPreCollectedAddress
@@ -134,8 +230,22 @@ router.post("/create-checkout-session", async (req, res) => {
           }),
     });
 
-    return res.json({ url: session.url });
+    if (draft) {
+      await attachCheckoutSession(draft.id, session.id);
+    }
+
+    return res.json({ url: session.url, priceChanges });
   } catch (err) {
+    // A draft without a session will never be paid; give back its discount use
+    if (draft) {
+      await expireCheckoutDraft(draft.id).catch((expireError) =>
+        console.error("Failed to expire checkout draft:", expireError)
+      );
+    }
+
+    if (err instanceof CheckoutError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Stripe session error:", err);
     return res
       .status(500)
@@ -175,22 +285,19 @@ router.post("/retry-payment", async (req, res) => {
       });
     }
 
-    // Convert order items to Stripe line items
-    const line_items = order.orderItems.map((item: any) => ({
-      price_data: {
-        currency: "usd",
-        product_data: {
-          name: String(item.productName || item.productId || "Item"),
-        },
-        unit_amount: Math.max(0, Math.round(Number(item.price || 0) * 100)),
-      },
-      quantity: Math.max(1, Number(item.quantity || 1)),
-    }));
+    // Charge exactly what the order was priced at
+    const line_items = buildOrderLineItems(order);
+    const discounts = await buildSessionDiscounts(
+      stripe,
+      Number(order.discountAmount),
+      `Order ${order.orderNumber} discount`
+    );
 
     // Create new Stripe checkout session
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
       line_items,
+      ...(discounts ? { discounts } : {}),
       success_url:
         successUrl ||
         `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
@@ -208,6 +315,9 @@ router.post("/retry-payment", async (req, res) => {
       },
     });
 
+    // A failed payment gave back the discount use; hold it again for the retry
+    await reactivateDiscountRedemption({ orderId });
+
     // Update order status to pending while payment is being retried
     await prisma.order.update({
       where: { id: orderId },
@@ -286,6 +396,7 @@ router.post("/verify-payment-status", async (req, res) => {
               updatedAt: new Date(),
             },
           });
+          await releaseDiscountRedemption({ orderId });
 
           return res.json({
             message: "Payment status updated to failed",
@@ -302,6 +413,7 @@ router.post("/verify-payment-status", async (req, res) => {
             updatedAt: new Date(),
           },
         });
+        await releaseDiscountRedemption({ orderId });
 
         return res.json({
           message: "No payment session found, marked as failed",
@@ -431,563 +543,20 @@ router.post("/webhook", async (req, res) => {
   }
 
   try {
-    console.log(`🎯 Processing webhook event: ${event.type}`);
-
-    if (event.type === "checkout.session.completed") {
-      const session = event.data.object as Stripe.Checkout.Session;
+    const result = await handleStripeWebhookEvent(stripe, event);
 
-      // Retrieve the full session to get shipping details
-      const fullSession = await stripe.checkout.sessions.retrieve(session.id, {
-        expand: ["line_items", "payment_intent"],
-      });
-
-      const orderId = fullSession.metadata?.orderId;
-      const isRetry = fullSession.metadata?.isRetry === "true";
-
-      console.log("💳 Processing checkout.session.completed:", {
-        sessionId: fullSession.id,
-        orderId,
-        isRetry,
-        paymentStatus: fullSession.payment_status,
-      });
-
-      if (orderId) {
-        // Update existing order (retry payment scenario)
-        const existingOrder = await prisma.order.findUnique({
-          where: { id: orderId },
-          include: {
-            orderItems: true,
-          },
-        });
-
-        if (!existingOrder) {
-          console.error("❌ Order not found for webhook:", orderId);
-          return res.status(404).json({ error: "Order not found" });
-        }
-
-        const shippingDetails: any =
-          (fullSession as any).shipping_details || null;
-        const customerDetails: any =
-          (fullSession as any).customer_details || null;
-
-        // Extract payment intent ID
-        const paymentIntentId =
-          typeof fullSession.payment_intent === "string"
-            ? fullSession.payment_intent
-            : (fullSession.payment_intent as any)?.id || null;
-
-        const updateData: any = {
-          paymentStatus: "COMPLETED",
-          status: "CONFIRMED",
-          paymentId: paymentIntentId,
-          updatedAt: new Date(),
-        };
-
-        // Update shipping address if Stripe collected it
-        if (shippingDetails || customerDetails) {
-          const addressData =
-            shippingDetails?.address || customerDetails?.address;
-          if (addressData) {
-            updateData.shippingStreet = addressData.line1 || "";
-            updateData.shippingCity = addressData.city || "";
-            updateData.shippingState = addressData.state || "";
-            updateData.shippingZip = addressData.postal_code || "";
-            updateData.shippingZipCode = addressData.postal_code || "";
-            updateData.shippingCountry = addressData.country || "";
-
-            if (customerDetails?.name) {
-              const nameParts = customerDetails.name.split(" ");
-              updateData.shippingFirstName = nameParts[0] || null;
-              updateData.shippingLastName =
-                nameParts.slice(1).join(" ") || null;
-            }
-
-            if (customerDetails?.email) {
-              updateData.guestEmail = customerDetails.email;
-            }
-
-            if (customerDetails?.phone || shippingDetails?.phone) {
-              updateData.shippingPhone =
-                customerDetails?.phone || shippingDetails?.phone || null;
-            }
-          }
-        }
-
-        await prisma.order.update({
-          where: { id: orderId },
-          data: updateData,
-        });
-
-        console.log("✅ Order updated successfully:", orderId);
-
-        // Create Shippo shipment if shipping rate is in metadata
-        const shippingRateId = fullSession.metadata?.shippingRateId;
-        if (shippingRateId && existingOrder.shippingStreet) {
-          try {
-            const { createShipment } = await import(
-              "../services/shipmentService"
-            );
-
-            const shippingAddress = {
-              name:
-                existingOrder.shippingFirstName &&
-                existingOrder.shippingLastName
-                  ? `${existingOrder.shippingFirstName} ${existingOrder.shippingLastName}`
-                  : existingOrder.shippingFirstName || "Customer",
-              street: existingOrder.shippingStreet || "",
-              city: existingOrder.shippingCity || "",
-              state: existingOrder.shippingState || "",
-              zip:
-                existingOrder.shippingZip ||
-                existingOrder.shippingZipCode ||
-                "",
-              country: existingOrder.shippingCountry || "US",
-              email: existingOrder.guestEmail || "",
-              phone: existingOrder.shippingPhone || "",
-            };
-
-            const shippingRateInfo = {
-              objectId: shippingRateId,
-              carrier: fullSession.metadata?.shippingCarrier || "",
-              amount: fullSession.metadata?.shippingAmount
-                ? parseFloat(fullSession.metadata.shippingAmount)
-                : 0,
-              serviceName: fullSession.metadata?.shippingService || "",
-            };
-
-            await createShipment(
-              {
-                orderId: existingOrder.id,
-                toAddress: {
-                  name: shippingAddress.name,
-                  street1: shippingAddress.street,
-                  city: shippingAddress.city,
-                  state: shippingAddress.state,
-                  zip: shippingAddress.zip,
-                  country: shippingAddress.country,
-                  email: shippingAddress.email,
-                  phone: shippingAddress.phone,
-                },
-                parcels: [
-                  {
-                    length: "6",
-                    width: "4",
-                    height: "2",
-                    weight: "0.5",
-                    massUnit: "lb" as const,
-                    distanceUnit: "in" as const,
-                  },
-                ],
-              },
-              shippingRateId,
-              shippingRateInfo
-            );
-
-            console.log("📦 Shippo shipment created for order");
-          } catch (shipmentError) {
-            console.error(
-              "⚠️ Failed to create Shippo shipment:",
-              shipmentError
-            );
-          }
-        }
-
-        // Send confirmation email
-        try {
-          const { sendEmail, emailTemplates } = await import(
-            "../services/emailService"
-          );
-
-          const customerEmail =
-            existingOrder.guestEmail ||
-            (existingOrder.userId
-              ? (
-                  await prisma.user.findUnique({
-                    where: { id: existingOrder.userId },
-                    select: { email: true },
-                  })
-                )?.email
-              : null);
-
-          if (customerEmail) {
-            // Fetch updated order with shipment details
-            const orderWithShipping = await prisma.order.findUnique({
-              where: { id: existingOrder.id },
-              select: {
-                trackingNumber: true,
-                trackingUrl: true,
-                shippingCarrier: true,
-                shippingService: true,
-                shippingCost: true,
-              },
-            });
-
-            const customerName =
-              existingOrder.shippingFirstName && existingOrder.shippingLastName
-                ? `${existingOrder.shippingFirstName} ${existingOrder.shippingLastName}`
-                : existingOrder.shippingFirstName || "Customer";
-
-            const emailData = {
-              customerName,
-              orderNumber: existingOrder.orderNumber || existingOrder.id,
-              orderId: existingOrder.id,
-              orderDate: new Date(existingOrder.createdAt).toLocaleDateString(),
-              status: "CONFIRMED",
-              items: existingOrder.orderItems.map((item: any) => ({
-                name: item.productName || "Product",
-                quantity: item.quantity,
-                price: item.price,
-              })),
-              total: existingOrder.totalAmount,
-              shippingAddress: {
-                firstName: existingOrder.shippingFirstName || "",
-                lastName: existingOrder.shippingLastName || "",
-                address: existingOrder.shippingStreet || "",
-                city: existingOrder.shippingCity || "",
-                state: existingOrder.shippingState || "",
-                zipCode:
-                  existingOrder.shippingZip ||
-                  existingOrder.shippingZipCode ||
-                  "",
-              },
-              shippingDetails: orderWithShipping
-                ? {
-                    trackingNumber: orderWithShipping.trackingNumber,
-                    trackingUrl: orderWithShipping.trackingUrl,
-                    carrier: orderWithShipping.shippingCarrier,
-                    service: orderWithShipping.shippingService,
-                    shippingCost: orderWithShipping.shippingCost
-                      ? Number(orderWithShipping.shippingCost)
-                      : null,
-                  }
-                : undefined,
-            };
-
-            await sendEmail({
-              to: customerEmail,
-              subject: "Order Confirmation - Licorice Ropes",
-              html: emailTemplates.orderConfirmation(emailData),
-            });
-            console.log("✅ Order confirmation email sent to:", customerEmail);
-          }
-        } catch (emailError) {
-          console.warn("❌ Email service not available:", emailError);
-        }
-      } else if (fullSession.metadata?.products) {
-        // Create NEW order from metadata (NO pending order was created)
-        console.log("📝 Creating new order from webhook metadata");
-
-        const metadata = fullSession.metadata;
-
-        // Parse product data from metadata: "pid1:qty1:price1,pid2:qty2:price2"
-        const productData = metadata.products.split(",").map((item: string) => {
-          const [productId, quantity, price] = item.split(":");
-          return {
-            productId,
-            quantity: parseInt(quantity) || 1,
-            price: parseFloat(price) || 0,
-          };
-        });
-
-        // Get shipping address - from metadata or Stripe-collected
-        let shippingAddress: any = {};
-        const shippingDetails: any =
-          (fullSession as any).shipping_details || null;
-        const customerDetails: any =
-          (fullSession as any).customer_details || null;
-
-        if (metadata.addrName) {
-          // Address was pre-collected on frontend (from metadata)
-          shippingAddress = {
-            name: metadata.addrName,
-            email: metadata.guestEmail || customerDetails?.email || "",
-            phone: metadata.addrPhone || customerDetails?.phone || "",
-            street: metadata.addrStreet,
-            city: metadata.addrCity,
-            state: metadata.addrState,
-            zip: metadata.addrZip,
-            country: metadata.addrCountry || "US",
-          };
-        } else if (shippingDetails || customerDetails) {
-          // Address was collected by Stripe
-          const addressData =
-            shippingDetails?.address || customerDetails?.address;
-          if (addressData) {
-            shippingAddress = {
-              name: shippingDetails?.name || customerDetails?.name || "",
-              email: customerDetails?.email || metadata.guestEmail || "",
-              phone: customerDetails?.phone || shippingDetails?.phone || "",
-              street: addressData.line1 || "",
-              city: addressData.city || "",
-              state: addressData.state || "",
-              zip: addressData.postal_code || "",
-              country: addressData.country || "US",
-            };
-          }
-        }
-
-        // Calculate totals from Stripe session
-        const amountTotal = fullSession.amount_total
-          ? fullSession.amount_total / 100
-          : 0;
-        const shippingAmount = metadata.shippingAmount
-          ? parseFloat(metadata.shippingAmount)
-          : 0;
-        const taxAmount =
-          amountTotal -
-          shippingAmount -
-          productData.reduce(
-            (sum, item) => sum + item.price * item.quantity,
-            0
-          );
-
-        // Generate unique order number
-        const orderNumber = `ORD-${Date.now()}-${Math.random()
-          .toString(36)
-          .substr(2, 9)
-          .toUpperCase()}`;
-
-        // Extract payment intent ID
-        const paymentIntentId =
-          typeof fullSession.payment_intent === "string"
-            ? fullSession.payment_intent
-            : (fullSession.payment_intent as any)?.id || null;
-
-        // Create order with order items
-        const newOrder = await prisma.$transaction(async (tx) => {
-          // Create order
-          const order = await tx.order.create({
-            data: {
-              orderNumber,
-              userId: metadata.userId || null,
-              guestEmail: shippingAddress.email || metadata.guestEmail || null,
-              totalAmount: amountTotal,
-              shippingAmount,
-              taxAmount,
-              status: "CONFIRMED",
-              paymentStatus: "COMPLETED",
-              paymentId: paymentIntentId,
-              orderNotes: metadata.notes || "",
-              shippingFirstName: shippingAddress.name?.split(" ")[0] || null,
-              shippingLastName:
-                shippingAddress.name?.split(" ").slice(1).join(" ") || null,
-              shippingStreet: shippingAddress.street || null,
-              shippingCity: shippingAddress.city || null,
-              shippingState: shippingAddress.state || null,
-              shippingZip: shippingAddress.zip || null,
-              shippingZipCode: shippingAddress.zip || null,
-              shippingCountry: shippingAddress.country || null,
-              shippingPhone: shippingAddress.phone || null,
-            },
-          });
-
-          // Create order items
-          const orderItems = [];
-          for (const item of productData) {
-            // Get product name from database
-            const product = await tx.product.findUnique({
-              where: { id: item.productId },
-              select: { name: true },
-            });
-
-            const orderItem = await tx.orderItem.create({
-              data: {
-                orderId: order.id,
-                productId: item.productId,
-                productName: product?.name || "Product",
-                quantity: item.quantity,
-                price: item.price,
-                total: item.price * item.quantity,
-              },
-            });
-            orderItems.push(orderItem);
-          }
-
-          return { order, orderItems };
-        });
-
-        console.log("✅ New order created successfully:", newOrder.order.id);
-
-        // Get shipping rate info from metadata
-        const shippingRateId = metadata.shippingRateId;
-        const shippingRateInfo = shippingRateId
-          ? {
-              objectId: shippingRateId,
-              carrier: metadata.shippingCarrier || "",
-              amount: metadata.shippingAmount
-                ? parseFloat(metadata.shippingAmount)
-                : 0,
-              serviceName: metadata.shippingService || "",
-            }
-          : null;
-
-        // Create Shippo shipment if shipping rate is provided
-        if (shippingRateId && shippingRateInfo && shippingAddress.street) {
-          try {
-            const { createShipment } = await import(
-              "../services/shipmentService"
-            );
-
-            await createShipment(
-              {
-                orderId: newOrder.order.id,
-                toAddress: {
-                  name: shippingAddress.name || "Customer",
-                  street1: shippingAddress.street,
-                  city: shippingAddress.city,
-                  state: shippingAddress.state,
-                  zip: shippingAddress.zip,
-                  country: shippingAddress.country || "US",
-                  email: shippingAddress.email || "",
-                  phone: shippingAddress.phone || "",
-                },
-                parcels: [
-                  {
-                    length: "6",
-                    width: "4",
-                    height: "2",
-                    weight: "0.5",
-                    massUnit: "lb" as const,
-                    distanceUnit: "in" as const,
-                  },
-                ],
-              },
-              shippingRateId,
-              {
-                carrier: shippingRateInfo.carrier,
-                amount: shippingRateInfo.amount,
-                serviceName: shippingRateInfo.serviceName,
-              }
-            );
-
-            console.log("📦 Shippo shipment created for new order");
-          } catch (shipmentError) {
-            console.error(
-              "⚠️ Failed to create Shippo shipment:",
-              shipmentError
-            );
-          }
-        }
-
-        // Send confirmation email
-        try {
-          const { sendEmail, emailTemplates } = await import(
-            "../services/emailService"
-          );
-
-          const customerEmail =
-            shippingAddress.email ||
-            metadata.guestEmail ||
-            (metadata.userId
-              ? (
-                  await prisma.user.findUnique({
-                    where: { id: metadata.userId },
-                    select: { email: true },
-                  })
-                )?.email
-              : null);
-
-          if (customerEmail) {
-            // Fetch order with shipment details
-            const orderWithShipping = await prisma.order.findUnique({
-              where: { id: newOrder.order.id },
-              select: {
-                trackingNumber: true,
-                trackingUrl: true,
-                shippingCarrier: true,
-                shippingService: true,
-                shippingCost: true,
-              },
-            });
-
-            const emailData = {
-              customerName: shippingAddress.name || "Customer",
-              orderNumber: newOrder.order.orderNumber,
-              orderId: newOrder.order.id,
-              orderDate: new Date(
-                newOrder.order.createdAt
-              ).toLocaleDateString(),
-              status: "CONFIRMED",
-              items: newOrder.orderItems.map((item: any) => ({
-                name: item.productName || "Product",
-                quantity: item.quantity,
-                price: item.price,
-              })),
-              total: newOrder.order.totalAmount,
-              shippingAddress: {
-                firstName: shippingAddress.name?.split(" ")[0] || "",
-                lastName:
-                  shippingAddress.name?.split(" ").slice(1).join(" ") || "",
-                address: shippingAddress.street || "",
-                city: shippingAddress.city || "",
-                state: shippingAddress.state || "",
-                zipCode: shippingAddress.zip || "",
-              },
-              shippingDetails: orderWithShipping
-                ? {
-                    trackingNumber: orderWithShipping.trackingNumber,
-                    trackingUrl: orderWithShipping.trackingUrl,
-                    carrier: orderWithShipping.shippingCarrier,
-                    service: orderWithShipping.shippingService,
-                    shippingCost: orderWithShipping.shippingCost
-                      ? Number(orderWithShipping.shippingCost)
-                      : null,
-                  }
-                : undefined,
-            };
-
-            await sendEmail({
-              to: customerEmail,
-              subject: "Order Confirmation - Licorice Ropes",
-              html: emailTemplates.orderConfirmation(emailData),
-            });
-            console.log("✅ Order confirmation email sent to:", customerEmail);
-          }
-        } catch (emailError) {
-          console.warn("❌ Email service not available:", emailError);
-        }
-      } else {
-        console.error("❌ Missing order data in webhook metadata");
-        return res
-          .status(400)
-          .json({ error: "Missing order data in metadata" });
-      }
-    } else if (event.type === "payment_intent.payment_failed") {
-      const pi = event.data.object as Stripe.PaymentIntent;
-      console.log("❌ Payment failed:", pi.id);
-
-      // Try to find the order and mark as failed
-      const orderId = pi.metadata?.orderId;
-      if (orderId) {
-        await prisma.order.update({
-          where: { id: orderId },
-          data: {
-            paymentStatus: "FAILED",
-            status: "CANCELLED",
-            updatedAt: new Date(),
-          },
-        });
-        console.log("✅ Order marked as failed:", orderId);
-      }
-    } else if (event.type === "charge.refunded") {
-      const charge = event.data.object as Stripe.Charge;
-      console.log("💸 Charge refunded:", charge.id);
+    if (result.status === "DUPLICATE") {
+      console.log("ℹ️ Webhook event already processed:", event.id);
+      return res.json({ received: true, duplicate: true });
+    }
 
-      // Find order by payment ID and mark as refunded
-      const order = await prisma.order.findFirst({
-        where: { paymentId: charge.payment_intent as string },
-      });
+    if (result.status === "IN_PROGRESS") {
+      // Another delivery is handling it; let Stripe retry later
+      return res.status(409).json({ error: "Webhook event is being processed" });
+    }
 
-      if (order) {
-        await prisma.order.update({
-          where: { id: order.id },
-          data: {
-            paymentStatus: "REFUNDED",
-            status: "REFUNDED",
-            updatedAt: new Date(),
-          },
-        });
-      }
+    if (result.status === "FAILED") {
+      return res.status(500).json({ error: "Webhook processing failed" });
     }
 
     return res.json({ received: true });
@@ -0,0 +1,219 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { auth, adminAuth } from '../middleware/auth';
+import { PrismaClient } from '@prisma/client';
+import { PriceEventError, PriceEventInput, cancelPriceEvent, createPriceEvent, updatePriceEvent } from '../services/priceEventService';
+import { PaginationError, buildPage, pageArgs, readCursorQuery } from '../utils/pagination';
+import { AuthenticatedRequest } from '../types';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// All price event routes are for admins
+router.use(auth, adminAuth);
+
+// Validation middleware
+const priceEventValidation = (isUpdate: boolean) => {
+  const field = (name: string) => (isUpdate ? body(name).optional() : body(name));
+  return [
+    field('name').notEmpty().withMessage('Name is required'),
+    field('type').isIn(['PERCENT_OFF', 'AMOUNT_OFF', 'FIXED_PRICE']).withMessage('Invalid price event type'),
+    field('value').isFloat({ min: 0 }).withMessage('Value must be a positive number'),
+    field('startsAt').isISO8601().withMessage('Invalid start time'),
+    body('endsAt').optional({ nullable: true }).isISO8601().withMessage('Invalid end time'),
+    body('productId').optional({ nullable: true }).isString().withMessage('Invalid product ID'),
+    body('categoryId').optional({ nullable: true }).isString().withMessage('Invalid category ID')
+  ];
+};
+
+// Pick the writable price event fields out of a request body
+const buildPriceEventInput = (input: any): PriceEventInput => ({
+  name: input.name,
+  productId: input.productId,
+  categoryId: input.categoryId,
+  type: input.type,
+  value: input.value !== undefined ? parseFloat(input.value) : undefined,
+  startsAt: input.startsAt ? new Date(input.startsAt) : undefined,
+  endsAt: input.endsAt !== undefined ? (input.endsAt ? new Date(input.endsAt) : null) : undefined
+});
+
+const handlePriceEventError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PriceEventError || error instanceof PaginationError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+    return true;
+  }
+  return false;
+};
+
+// @desc    Get price events
+// @route   GET /api/price-events
+// @access  Private/Admin
+router.get('/', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const cursor = readCursorQuery(req.query, limit);
+    const { status, productId, categoryId } = req.query;
+
+    const where: any = {};
+    if (status) where.status = String(status).toUpperCase();
+    if (productId) where.productId = String(productId);
+    if (categoryId) where.categoryId = String(categoryId);
+
+    const [events, total] = await Promise.all([
+      prisma.priceEvent.findMany({
+        where,
+        include: {
+          product: { select: { id: true, name: true } },
+          category: { select: { id: true, name: true } },
+          _count: { select: { items: true } }
+        },
+        orderBy: [{ startsAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
+      }),
+      prisma.priceEvent.count({ where })
+    ]);
+
+    const { items, pagination } = buildPage(events, total, page, limit, cursor);
+
+    res.json({
+      success: true,
+      data: {
+        priceEvents: items,
+        pagination
+      }
+    });
+  } catch (error) {
+    if (handlePriceEventError(error, res)) return;
+    console.error('Get price events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get price event with the products it changed
+// @route   GET /api/price-events/:id
+// @access  Private/Admin
+router.get('/:id', async (req, res) => {
+  try {
+    const priceEvent = await prisma.priceEvent.findUnique({
+      where: { id: req.params.id },
+      include: {
+        product: { select: { id: true, name: true } },
+        category: { select: { id: true, name: true } },
+        items: {
+          include: { product: { select: { id: true, name: true, price: true } } },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    });
+
+    if (!priceEvent) {
+      return res.status(404).json({
+        success: false,
+        message: 'Price event not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { priceEvent }
+    });
+  } catch (error) {
+    console.error('Get price event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Schedule price event
+// @route   POST /api/price-events
+// @access  Private/Admin
+router.post('/', priceEventValidation(false), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const priceEvent = await createPriceEvent(buildPriceEventInput(req.body), req.user?.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Price event scheduled successfully',
+      data: { priceEvent }
+    });
+  } catch (error) {
+    if (handlePriceEventError(error, res)) return;
+    console.error('Create price event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update price event (only endsAt once it has started)
+// @route   PUT /api/price-events/:id
+// @access  Private/Admin
+router.put('/:id', priceEventValidation(true), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const priceEvent = await updatePriceEvent(req.params.id, buildPriceEventInput(req.body), req.user?.id);
+
+    res.json({
+      success: true,
+      message: 'Price event updated successfully',
+      data: { priceEvent }
+    });
+  } catch (error) {
+    if (handlePriceEventError(error, res)) return;
+    console.error('Update price event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Cancel price event, restoring prices if it is running
+// @route   DELETE /api/price-events/:id
+// @access  Private/Admin
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    await cancelPriceEvent(req.params.id, req.user?.id);
+
+    res.json({
+      success: true,
+      message: 'Price event cancelled successfully'
+    });
+  } catch (error) {
+    if (handlePriceEventError(error, res)) return;
+    console.error('Cancel price event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
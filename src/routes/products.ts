@@ -1,17 +1,35 @@
 import express from 'express';
-import { getProducts, getProduct, createProduct, updateProduct, deleteProduct, searchProducts, getProductsByCategory } from '../controllers/productController';
-import { auth, adminAuth } from '../middleware/auth';
+import { getProducts, getProduct, createProduct, updateProduct, deleteProduct, searchProducts, getProductsByCategory, getRelatedProducts } from '../controllers/productController';
+import { getProductVariants, createVariant, updateVariant, deleteVariant } from '../controllers/variantController';
+import { getImages, uploadImages, reorderImages, updateImage, deleteImage } from '../controllers/productImageController';
+import { subscribeBackInStock, unsubscribeBackInStock } from '../controllers/stockSubscriptionController';
+import { auth, adminAuth, optionalAuth } from '../middleware/auth';
 import { upload, uploadToCloudinary } from '../utils/cloudinary';
 import { AuthenticatedRequest } from '../types';
 import { Response } from 'express';
+import rateLimit from 'express-rate-limit';
 
 const router = express.Router();
 
+// Back-in-stock sign-ups are open to guests, so keep one visitor from filling the list
+const notifyMeLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 10,
+  message: { success: false, message: 'Too many alert requests, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 // Public routes
 router.get('/', getProducts);
 router.get('/search', searchProducts);
 router.get('/category/:category', getProductsByCategory);
-router.get('/:id', getProduct);
+router.get('/:id', optionalAuth, getProduct);
+router.get('/:id/variants', getProductVariants);
+router.get('/:id/related', getRelatedProducts);
+router.get('/:id/images', getImages);
+router.post('/:id/notify-me', notifyMeLimiter, optionalAuth, subscribeBackInStock);
+router.delete('/:id/notify-me', notifyMeLimiter, optionalAuth, unsubscribeBackInStock);
 
 // Image upload route (removed auth temporarily for testing, add back in production)
 router.post('/upload-image', upload.single('image'), async (req: AuthenticatedRequest, res: Response) => {
@@ -44,6 +62,13 @@ router.post('/upload-image', upload.single('image'), async (req: AuthenticatedRe
 router.post('/', auth, adminAuth, createProduct);
 router.put('/:id', auth, adminAuth, updateProduct);
 router.delete('/:id', auth, adminAuth, deleteProduct);
+router.post('/:id/variants', auth, adminAuth, createVariant);
+router.put('/:id/variants/:variantId', auth, adminAuth, updateVariant);
+router.delete('/:id/variants/:variantId', auth, adminAuth, deleteVariant);
+router.post('/:id/images', auth, adminAuth, upload.array('images', 10), uploadImages);
+router.put('/:id/images/order', auth, adminAuth, reorderImages);
+router.put('/:id/images/:imageId', auth, adminAuth, updateImage);
+router.delete('/:id/images/:imageId', auth, adminAuth, deleteImage);
 
 export default router;
 
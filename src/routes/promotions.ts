@@ -0,0 +1,234 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { auth, adminAuth } from '../middleware/auth';
+import { PrismaClient } from '@prisma/client';
+import { getActivePromotions, parsePromotionTiers } from '../services/promotionService';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// Validation middleware
+const promotionValidation = [
+  body('name').notEmpty().withMessage('Name is required'),
+  body('type').isIn(['BUY_X_GET_Y', 'SPEND_THRESHOLD', 'BUNDLE_PRICE']).withMessage('Invalid promotion type'),
+  body('priority').optional().isInt().withMessage('Priority must be an integer'),
+  body('isExclusive').optional().isBoolean().withMessage('isExclusive must be a boolean'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  body('startDate').optional({ nullable: true }).isISO8601().withMessage('Invalid start date'),
+  body('endDate').optional({ nullable: true }).isISO8601().withMessage('Invalid end date'),
+  body('productIds').optional().isArray().withMessage('Product IDs must be an array'),
+  body('categories').optional().isArray().withMessage('Categories must be an array'),
+  body('flavors').optional().isArray().withMessage('Flavors must be an array'),
+  body('buyQuantity').if(body('type').equals('BUY_X_GET_Y')).isInt({ min: 1 }).withMessage('Buy quantity must be at least 1'),
+  body('getQuantity').if(body('type').equals('BUY_X_GET_Y')).isInt({ min: 1 }).withMessage('Get quantity must be at least 1'),
+  body('getPercentOff').optional().isInt({ min: 1, max: 100 }).withMessage('Get percent off must be between 1 and 100'),
+  body('tiers').if(body('type').equals('SPEND_THRESHOLD')).isArray({ min: 1 }).withMessage('At least one tier is required'),
+  body('bundleQuantity').if(body('type').equals('BUNDLE_PRICE')).isInt({ min: 2 }).withMessage('Bundle quantity must be at least 2'),
+  body('bundlePrice').if(body('type').equals('BUNDLE_PRICE')).isFloat({ min: 0 }).withMessage('Bundle price must be a positive number')
+];
+
+// Pick the writable promotion fields out of a request body
+const buildPromotionData = (input: any) => ({
+  name: input.name,
+  description: input.description,
+  type: input.type,
+  priority: input.priority !== undefined ? parseInt(input.priority) : undefined,
+  isExclusive: input.isExclusive,
+  isActive: input.isActive,
+  startDate: input.startDate ? new Date(input.startDate) : null,
+  endDate: input.endDate ? new Date(input.endDate) : null,
+  productIds: input.productIds || [],
+  categories: input.categories || [],
+  flavors: input.flavors || [],
+  buyQuantity: input.buyQuantity !== undefined ? parseInt(input.buyQuantity) : null,
+  getQuantity: input.getQuantity !== undefined ? parseInt(input.getQuantity) : null,
+  getPercentOff: input.getPercentOff !== undefined ? parseInt(input.getPercentOff) : 100,
+  tiers: input.tiers ? (parsePromotionTiers(input.tiers) as any) : undefined,
+  bundleQuantity: input.bundleQuantity !== undefined ? parseInt(input.bundleQuantity) : null,
+  bundlePrice: input.bundlePrice !== undefined ? input.bundlePrice : null
+});
+
+// @desc    Get promotions currently running (Public - for storefront banners)
+// @route   GET /api/promotions/active
+// @access  Public
+router.get('/active', async (req, res) => {
+  try {
+    const promotions = await getActivePromotions();
+
+    res.json({
+      success: true,
+      data: { promotions }
+    });
+  } catch (error) {
+    console.error('Get active promotions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get all promotions (Admin)
+// @route   GET /api/promotions
+// @access  Private/Admin
+router.get('/', auth, adminAuth, async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const skip = (page - 1) * limit;
+    const isActive = req.query.isActive as string;
+
+    const where: any = {};
+    if (isActive !== undefined) {
+      where.isActive = isActive === 'true';
+    }
+
+    const [promotions, total] = await Promise.all([
+      prisma.promotion.findMany({
+        where,
+        orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
+        skip,
+        take: limit
+      }),
+      prisma.promotion.count({ where })
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: {
+        promotions,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalItems: total,
+          itemsPerPage: limit,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get promotions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create promotion (Admin)
+// @route   POST /api/promotions
+// @access  Private/Admin
+router.post('/', auth, adminAuth, promotionValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const promotion = await prisma.promotion.create({
+      data: buildPromotionData(req.body)
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Promotion created successfully',
+      data: { promotion }
+    });
+  } catch (error) {
+    console.error('Create promotion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update promotion (Admin)
+// @route   PUT /api/promotions/:id
+// @access  Private/Admin
+router.put('/:id', auth, adminAuth, promotionValidation, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { id } = req.params;
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id }
+    });
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    const updatedPromotion = await prisma.promotion.update({
+      where: { id },
+      data: buildPromotionData(req.body)
+    });
+
+    res.json({
+      success: true,
+      message: 'Promotion updated successfully',
+      data: { promotion: updatedPromotion }
+    });
+  } catch (error) {
+    console.error('Update promotion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Delete promotion (Admin)
+// @route   DELETE /api/promotions/:id
+// @access  Private/Admin
+router.delete('/:id', auth, adminAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id }
+    });
+
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        message: 'Promotion not found'
+      });
+    }
+
+    await prisma.promotion.delete({
+      where: { id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Promotion deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete promotion error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
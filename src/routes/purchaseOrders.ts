@@ -0,0 +1,308 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { auth, adminAuth } from '../middleware/auth';
+import { PrismaClient } from '@prisma/client';
+import {
+  PurchaseOrderError,
+  PurchaseOrderInput,
+  cancelPurchaseOrder,
+  createPurchaseOrder,
+  placePurchaseOrder,
+  purchaseOrderInclude,
+  receivePurchaseOrder,
+  updatePurchaseOrder
+} from '../services/purchaseOrderService';
+import { StockLocationError } from '../services/stockLocationService';
+import { PaginationError, buildPage, pageArgs, readCursorQuery } from '../utils/pagination';
+import { AuthenticatedRequest } from '../types';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// All purchase order routes are for admins
+router.use(auth, adminAuth);
+
+// Validation middleware
+const purchaseOrderValidation = (isUpdate: boolean) => [
+  (isUpdate ? body('supplierId').optional() : body('supplierId')).notEmpty().withMessage('Supplier is required'),
+  (isUpdate ? body('items').optional() : body('items')).isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.productId').notEmpty().withMessage('Product ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
+  body('items.*.unitCost').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Unit cost must be a positive number'),
+  body('items.*.expectedAt').optional({ nullable: true }).isISO8601().withMessage('Invalid expected date'),
+  body('expectedAt').optional({ nullable: true }).isISO8601().withMessage('Invalid expected date'),
+  body('locationId').optional({ nullable: true }).isString().withMessage('Invalid location ID')
+];
+
+const readDate = (value: any): Date | null | undefined =>
+  value === undefined ? undefined : value ? new Date(value) : null;
+
+// Pick the writable purchase order fields out of a request body
+const buildPurchaseOrderInput = (input: any): PurchaseOrderInput => ({
+  supplierId: input.supplierId,
+  locationId: input.locationId,
+  expectedAt: readDate(input.expectedAt),
+  notes: input.notes,
+  items: Array.isArray(input.items)
+    ? input.items.map((item: any) => ({
+        productId: item.productId,
+        variantId: item.variantId || null,
+        quantity: parseInt(item.quantity),
+        unitCost: item.unitCost !== undefined && item.unitCost !== null ? parseFloat(item.unitCost) : null,
+        expectedAt: readDate(item.expectedAt) || null
+      }))
+    : undefined
+});
+
+const handlePurchaseOrderError = (error: unknown, res: Response): boolean => {
+  if (error instanceof PurchaseOrderError || error instanceof StockLocationError || error instanceof PaginationError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: error.message
+    });
+    return true;
+  }
+  return false;
+};
+
+// @desc    Get purchase orders
+// @route   GET /api/purchase-orders
+// @access  Private/Admin
+router.get('/', async (req, res) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const cursor = readCursorQuery(req.query, limit);
+    const { status, supplierId, productId } = req.query;
+
+    const where: any = {};
+    if (status) where.status = { in: String(status).toUpperCase().split(',') };
+    if (supplierId) where.supplierId = String(supplierId);
+    if (productId) where.items = { some: { productId: String(productId) } };
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        include: {
+          supplier: { select: { id: true, name: true } },
+          location: { select: { id: true, name: true, code: true } },
+          _count: { select: { items: true } }
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...pageArgs(page, limit, cursor)
+      }),
+      prisma.purchaseOrder.count({ where })
+    ]);
+
+    const { items, pagination } = buildPage(purchaseOrders, total, page, limit, cursor);
+
+    res.json({
+      success: true,
+      data: {
+        purchaseOrders: items,
+        pagination
+      }
+    });
+  } catch (error) {
+    if (handlePurchaseOrderError(error, res)) return;
+    console.error('Get purchase orders error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get purchase order with its lines and the stock received against it
+// @route   GET /api/purchase-orders/:id
+// @access  Private/Admin
+router.get('/:id', async (req, res) => {
+  try {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: req.params.id },
+      include: purchaseOrderInclude
+    });
+
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        message: 'Purchase order not found'
+      });
+    }
+
+    // Receipts are the STOCK_IN logs that point back to this purchase order
+    const receipts = await prisma.inventoryLog.findMany({
+      where: { referenceId: purchaseOrder.id, type: 'STOCK_IN' },
+      include: { lot: { select: { id: true, lotNumber: true, bestBy: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { purchaseOrder, receipts }
+    });
+  } catch (error) {
+    console.error('Get purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create draft purchase order
+// @route   POST /api/purchase-orders
+// @access  Private/Admin
+router.post('/', purchaseOrderValidation(false), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const purchaseOrder = await createPurchaseOrder(buildPurchaseOrderInput(req.body), req.user?.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Purchase order created successfully',
+      data: { purchaseOrder }
+    });
+  } catch (error) {
+    if (handlePurchaseOrderError(error, res)) return;
+    console.error('Create purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update purchase order (only dates, location and notes once placed)
+// @route   PUT /api/purchase-orders/:id
+// @access  Private/Admin
+router.put('/:id', purchaseOrderValidation(true), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const purchaseOrder = await updatePurchaseOrder(req.params.id, buildPurchaseOrderInput(req.body), req.user?.id);
+
+    res.json({
+      success: true,
+      message: 'Purchase order updated successfully',
+      data: { purchaseOrder }
+    });
+  } catch (error) {
+    if (handlePurchaseOrderError(error, res)) return;
+    console.error('Update purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Place purchase order with the supplier
+// @route   POST /api/purchase-orders/:id/place
+// @access  Private/Admin
+router.post('/:id/place', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const purchaseOrder = await placePurchaseOrder(req.params.id, req.user?.id);
+
+    res.json({
+      success: true,
+      message: 'Purchase order placed successfully',
+      data: { purchaseOrder }
+    });
+  } catch (error) {
+    if (handlePurchaseOrderError(error, res)) return;
+    console.error('Place purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Receive some or all outstanding items of a purchase order
+// @route   POST /api/purchase-orders/:id/receive
+// @access  Private/Admin
+router.post('/:id/receive', [
+  body('items').isArray({ min: 1 }).withMessage('At least one received item is required'),
+  body('items.*.itemId').notEmpty().withMessage('Purchase order item ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be a positive integer'),
+  body('items.*.lotNumber').optional({ nullable: true }).isString().withMessage('Invalid lot number'),
+  body('items.*.bestBy').optional({ nullable: true }).isISO8601().withMessage('Invalid best-by date'),
+  body('locationId').optional({ nullable: true }).isString().withMessage('Invalid location ID')
+], async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const purchaseOrder = await receivePurchaseOrder(req.params.id, {
+      lines: req.body.items.map((item: any) => ({
+        itemId: item.itemId,
+        quantity: parseInt(item.quantity),
+        lotNumber: item.lotNumber ? String(item.lotNumber).trim() : null,
+        bestBy: item.bestBy ? new Date(item.bestBy) : null
+      })),
+      locationId: req.body.locationId,
+      notes: req.body.notes
+    }, req.user?.id);
+
+    res.json({
+      success: true,
+      message: purchaseOrder.status === 'RECEIVED'
+        ? 'Purchase order fully received'
+        : 'Purchase order partially received',
+      data: { purchaseOrder }
+    });
+  } catch (error) {
+    if (handlePurchaseOrderError(error, res)) return;
+    console.error('Receive purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Cancel purchase order; anything not yet received stops counting as incoming
+// @route   DELETE /api/purchase-orders/:id
+// @access  Private/Admin
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const purchaseOrder = await cancelPurchaseOrder(req.params.id, req.user?.id);
+
+    res.json({
+      success: true,
+      message: 'Purchase order cancelled successfully',
+      data: { purchaseOrder }
+    });
+  } catch (error) {
+    if (handlePurchaseOrderError(error, res)) return;
+    console.error('Cancel purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -3,10 +3,82 @@ import { body } from 'express-validator';
 import { auth, adminAuth } from '../middleware/auth';
 import { PrismaClient } from '@prisma/client';
 import { sendEmail, emailTemplates } from '../services/emailService';
+import { handleRestock } from '../services/backInStockService';
+import { applyLocationStockChange } from '../services/stockLocationService';
+import { lockProducts } from '../services/inventoryService';
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
+// Approve the return and add returned quantities back to product and variant stock with
+// RETURN log entries. Only the request that moves the return to APPROVED restocks it.
+const restockReturnedItems = async (
+  returnRequestId: string,
+  orderId: string,
+  items: Array<{ productId: string; variantId: string | null; quantity: number }>
+): Promise<void> => {
+  const previousStock = new Map<string, number>();
+
+  await prisma.$transaction(async (tx) => {
+    const claimed = await tx.returnRequest.updateMany({
+      where: { id: returnRequestId, status: { not: 'APPROVED' } },
+      data: { status: 'APPROVED' }
+    });
+    if (claimed.count === 0) return;
+
+    const products = await lockProducts(tx, items.map(item => item.productId));
+
+    // Returns go back to the location the order shipped from while it is still in use
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: { fulfillmentLocation: { select: { id: true, isActive: true } } }
+    });
+    const locationId = order?.fulfillmentLocation?.isActive ? order.fulfillmentLocation.id : null;
+
+    for (const item of items) {
+      const product = products.get(item.productId);
+      if (!product) continue;
+      if (!previousStock.has(item.productId)) previousStock.set(item.productId, product.stock);
+
+      await tx.product.update({
+        where: { id: item.productId },
+        data: { stock: { increment: item.quantity } }
+      });
+
+      if (item.variantId) {
+        await tx.productVariant.updateMany({
+          where: { id: item.variantId },
+          data: { stock: { increment: item.quantity } }
+        });
+      }
+
+      const [locationChange] = await applyLocationStockChange(tx, {
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        locationId
+      });
+
+      await tx.inventoryLog.create({
+        data: {
+          productId: item.productId,
+          variantId: item.variantId,
+          locationId: locationChange ? locationChange.locationId : null,
+          type: 'RETURN',
+          quantity: item.quantity,
+          reason: 'Customer return',
+          referenceId: orderId
+        }
+      });
+    }
+  });
+
+  for (const [productId, stock] of previousStock) {
+    const returned = items.filter(item => item.productId === productId).reduce((sum, item) => sum + item.quantity, 0);
+    await handleRestock(productId, stock, stock + returned);
+  }
+};
+
 // @desc    Create return request
 // @route   POST /api/returns
 // @access  Private
@@ -268,11 +340,13 @@ router.get('/admin/all', auth, adminAuth, async (req, res) => {
 // @access  Private/Admin
 router.put('/admin/:id/process', auth, adminAuth, [
   body('status').isIn(['APPROVED', 'REJECTED']).withMessage('Status must be APPROVED or REJECTED'),
-  body('adminNotes').optional()
+  body('adminNotes').optional(),
+  body('restock').optional().isBoolean().withMessage('restock must be a boolean')
 ], async (req, res) => {
   try {
     const { id } = req.params;
     const { status, adminNotes, refundMethod } = req.body;
+    const restock = req.body.restock === true || req.body.restock === 'true';
     const adminId = (req as any).user.id;
 
     const returnRequest = await prisma.returnRequest.findUnique({
@@ -280,7 +354,10 @@ router.put('/admin/:id/process', auth, adminAuth, [
       include: {
         order: {
           include: {
-            user: true
+            user: true,
+            orderItems: {
+              select: { productId: true, variantId: true, quantity: true }
+            }
           }
         }
       }
@@ -293,6 +370,11 @@ router.put('/admin/:id/process', auth, adminAuth, [
       });
     }
 
+    // Put resellable items back on the shelf, once, when the return is first approved
+    if (status === 'APPROVED' && restock) {
+      await restockReturnedItems(id, returnRequest.orderId, returnRequest.order.orderItems);
+    }
+
     // Update return request
     const updated = await prisma.returnRequest.update({
       where: { id },
@@ -0,0 +1,202 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { auth, adminAuth } from '../middleware/auth';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// All supplier routes are for admins
+router.use(auth, adminAuth);
+
+// Validation middleware
+const supplierValidation = (isUpdate: boolean) => [
+  (isUpdate ? body('name').optional() : body('name')).trim().notEmpty().withMessage('Name is required'),
+  body('email').optional({ nullable: true, checkFalsy: true }).isEmail().withMessage('Invalid email'),
+  body('leadTimeDays').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Lead time must be a whole number of days'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be true or false')
+];
+
+const SUPPLIER_FIELDS = ['name', 'contactName', 'email', 'phone', 'address', 'leadTimeDays', 'notes', 'isActive'] as const;
+
+// Pick the writable supplier fields out of a request body
+const buildSupplierData = (input: any) => {
+  const data: any = {};
+  for (const field of SUPPLIER_FIELDS) {
+    if (input[field] !== undefined) data[field] = input[field];
+  }
+  if (data.leadTimeDays !== undefined) data.leadTimeDays = data.leadTimeDays === null ? null : parseInt(data.leadTimeDays);
+  if (data.isActive !== undefined) data.isActive = data.isActive === true || data.isActive === 'true';
+  return data;
+};
+
+// @desc    Get suppliers
+// @route   GET /api/suppliers
+// @access  Private/Admin
+router.get('/', async (req, res) => {
+  try {
+    const includeInactive = req.query.includeInactive === 'true';
+
+    const suppliers = await prisma.supplier.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      include: {
+        _count: {
+          select: { purchaseOrders: { where: { status: { in: ['ORDERED', 'PARTIALLY_RECEIVED'] } } } }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { suppliers }
+    });
+  } catch (error) {
+    console.error('Get suppliers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Get supplier with recent purchase orders
+// @route   GET /api/suppliers/:id
+// @access  Private/Admin
+router.get('/:id', async (req, res) => {
+  try {
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: req.params.id },
+      include: {
+        purchaseOrders: {
+          orderBy: { createdAt: 'desc' },
+          take: 20
+        }
+      }
+    });
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { supplier }
+    });
+  } catch (error) {
+    console.error('Get supplier error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Create supplier
+// @route   POST /api/suppliers
+// @access  Private/Admin
+router.post('/', supplierValidation(false), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const supplier = await prisma.supplier.create({
+      data: buildSupplierData(req.body)
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Supplier created successfully',
+      data: { supplier }
+    });
+  } catch (error) {
+    console.error('Create supplier error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Update supplier
+// @route   PUT /api/suppliers/:id
+// @access  Private/Admin
+router.put('/:id', supplierValidation(true), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const existing = await prisma.supplier.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    const supplier = await prisma.supplier.update({
+      where: { id: existing.id },
+      data: buildSupplierData(req.body)
+    });
+
+    res.json({
+      success: true,
+      message: 'Supplier updated successfully',
+      data: { supplier }
+    });
+  } catch (error) {
+    console.error('Update supplier error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+// @desc    Deactivate supplier (purchase orders keep pointing to it)
+// @route   DELETE /api/suppliers/:id
+// @access  Private/Admin
+router.delete('/:id', async (req, res) => {
+  try {
+    const existing = await prisma.supplier.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Supplier not found'
+      });
+    }
+
+    await prisma.supplier.update({
+      where: { id: existing.id },
+      data: { isActive: false }
+    });
+
+    res.json({
+      success: true,
+      message: 'Supplier deactivated successfully'
+    });
+  } catch (error) {
+    console.error('Delete supplier error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error'
+    });
+  }
+});
+
+export default router;
@@ -7,9 +7,11 @@ import {
   getMyProfile,
   updateMyProfile,
   updateProfileImage,
-  changePassword
+  changePassword,
+  getMyRecentlyViewed,
+  clearMyRecentlyViewed
 } from '../controllers/userController';
-import { auth, adminAuth } from '../middleware/auth';
+import { auth, adminAuth, optionalAuth } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -18,6 +20,8 @@ router.get('/profile/me', auth, getMyProfile);
 router.put('/profile/me', auth, updateMyProfile);
 router.patch('/profile/image', auth, updateProfileImage);
 router.put('/profile/password', auth, changePassword);
+router.get('/me/recently-viewed', optionalAuth, getMyRecentlyViewed);
+router.delete('/me/recently-viewed', optionalAuth, clearMyRecentlyViewed);
 
 // Admin routes
 router.get('/', auth, adminAuth, getUsers);
@@ -0,0 +1,122 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+// Storefront event names that mean a product page was opened
+const PRODUCT_VIEW_EVENTS = ['product_view', 'view_product', 'view_item'];
+
+// Page views count too when the page is a product page
+const PRODUCT_PATH = /\/products?\/([A-Za-z0-9_-]+)\/?(?:[?#].*)?$/;
+
+const BATCH_SIZE = 1000;
+
+// Pull a product ID out of a tracking event's data or page info
+const readProductId = (event: { event: string; data: Prisma.JsonValue; page: Prisma.JsonValue }): string | null => {
+  const data = (event.data || {}) as Record<string, any>;
+  const page = (event.page || {}) as Record<string, any>;
+
+  if (PRODUCT_VIEW_EVENTS.includes(event.event)) {
+    const id = data.productId || data.product_id || data.id || data.product?.id;
+    if (typeof id === 'string' && id) return id;
+  }
+
+  const path = page.path || page.pathname || page.url;
+  const match = typeof path === 'string' ? path.match(PRODUCT_PATH) : null;
+  return match ? match[1] : null;
+};
+
+// Seed recently viewed products from tracked storefront events of signed-in users.
+// Safe to run again: counts and view times are only ever raised, never added twice.
+// --days=N limits how far back to look (default 90); --dry-run only reports.
+const backfillRecentlyViewed = async (): Promise<void> => {
+  const dryRun = process.argv.includes('--dry-run');
+  const daysArg = process.argv.find(arg => arg.startsWith('--days='));
+  const days = daysArg ? parseInt(daysArg.split('=')[1]) || 90 : 90;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  try {
+    console.log(`👀 Backfilling recently viewed products from the last ${days} days${dryRun ? ' (dry run)' : ''}...`);
+
+    const views = new Map<string, { userId: string; productId: string; count: number; viewedAt: Date }>();
+    let scanned = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const events = await prisma.trackingEvent.findMany({
+        where: {
+          userId: { not: null },
+          timestamp: { gte: since },
+          event: { in: [...PRODUCT_VIEW_EVENTS, 'page_view'] }
+        },
+        select: { id: true, userId: true, event: true, data: true, page: true, timestamp: true },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      if (events.length === 0) break;
+      cursor = events[events.length - 1].id;
+      scanned += events.length;
+
+      for (const event of events) {
+        const productId = readProductId(event);
+        if (!productId || !event.userId) continue;
+
+        const key = `${event.userId}:${productId}`;
+        const existing = views.get(key);
+        if (existing) {
+          existing.count++;
+          if (event.timestamp > existing.viewedAt) existing.viewedAt = event.timestamp;
+        } else {
+          views.set(key, { userId: event.userId, productId, count: 1, viewedAt: event.timestamp });
+        }
+      }
+    }
+
+    // Tracking data is sent by the browser, so only keep users and products that really exist
+    const entries = Array.from(views.values());
+    const [users, products] = await Promise.all([
+      prisma.user.findMany({ where: { id: { in: [...new Set(entries.map(view => view.userId))] } }, select: { id: true } }),
+      prisma.product.findMany({ where: { id: { in: [...new Set(entries.map(view => view.productId))] } }, select: { id: true } })
+    ]);
+    const userIds = new Set(users.map(user => user.id));
+    const productIds = new Set(products.map(product => product.id));
+    const valid = entries.filter(view => userIds.has(view.userId) && productIds.has(view.productId));
+
+    console.log(`📊 Scanned ${scanned} events: ${valid.length} product views for ${userIds.size} users`);
+
+    if (!dryRun) {
+      for (const view of valid) {
+        const existing = await prisma.productView.findUnique({
+          where: { userId_productId: { userId: view.userId, productId: view.productId } }
+        });
+
+        if (existing) {
+          await prisma.productView.update({
+            where: { id: existing.id },
+            data: {
+              viewCount: Math.max(existing.viewCount, view.count),
+              viewedAt: view.viewedAt > existing.viewedAt ? view.viewedAt : existing.viewedAt
+            }
+          });
+        } else {
+          await prisma.productView.create({
+            data: { userId: view.userId, productId: view.productId, viewCount: view.count, viewedAt: view.viewedAt }
+          });
+        }
+      }
+    }
+
+    console.log(`🎉 ${dryRun ? 'Would backfill' : 'Backfilled'} ${valid.length} recently viewed entries`);
+  } catch (error) {
+    console.error('❌ Error backfilling recently viewed products:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+};
+
+backfillRecentlyViewed();
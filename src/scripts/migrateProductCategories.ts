@@ -0,0 +1,84 @@
+import { PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+import { resolveCategory, slugify } from '../services/categoryService';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+// Link products to Category rows using their free-text category names.
+// Names that match no category get a new one unless --no-create is passed.
+// --dry-run reports what would change without writing anything.
+const migrateProductCategories = async (): Promise<void> => {
+  const dryRun = process.argv.includes('--dry-run');
+  const createMissing = !process.argv.includes('--no-create');
+
+  try {
+    console.log(`🔗 Linking products to categories${dryRun ? ' (dry run)' : ''}...`);
+
+    const groups = await prisma.product.groupBy({
+      by: ['category'],
+      where: { categoryId: null },
+      _count: { _all: true }
+    });
+
+    if (groups.length === 0) {
+      console.log('✅ Every product is already linked to a category');
+      return;
+    }
+
+    let linked = 0;
+    let created = 0;
+    const unmatched: string[] = [];
+
+    for (const group of groups) {
+      const name = (group.category || '').trim();
+      const count = group._count._all;
+
+      if (!name) {
+        unmatched.push(`(empty) x${count}`);
+        continue;
+      }
+
+      let category = await resolveCategory(name);
+
+      if (!category && !createMissing) {
+        unmatched.push(`${name} x${count}`);
+        continue;
+      }
+
+      if (!category) {
+        console.log(`➕ Creating category "${name}" (${slugify(name)})`);
+        created++;
+        if (dryRun) {
+          linked += count;
+          continue;
+        }
+        category = await prisma.category.create({
+          data: { name, slug: slugify(name) }
+        });
+      }
+
+      console.log(`✅ "${name}" -> ${category.name} (${count} products)`);
+      if (!dryRun) {
+        await prisma.product.updateMany({
+          where: { categoryId: null, category: group.category },
+          data: { categoryId: category.id, category: category.name }
+        });
+      }
+      linked += count;
+    }
+
+    console.log(`🎉 Linked ${linked} products, created ${created} categories`);
+    if (unmatched.length > 0) {
+      console.log(`⚠️  No category for: ${unmatched.join(', ')}`);
+    }
+  } catch (error) {
+    console.error('❌ Error migrating product categories:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+};
+
+migrateProductCategories();
@@ -27,18 +27,28 @@ import shippoRoutes from "./routes/shippo";
 import notificationRoutes from "./routes/notification";
 import categoryRoutes from "./routes/categories";
 import discountRoutes from "./routes/discounts";
+import promotionRoutes from "./routes/promotions";
+import priceEventRoutes from "./routes/priceEvents";
 import newsletterRoutes from "./routes/newsletter";
 import addressRoutes from "./routes/addresses";
 import inventoryRoutes from "./routes/inventory";
+import supplierRoutes from "./routes/suppliers";
+import purchaseOrderRoutes from "./routes/purchaseOrders";
 import flavorRoutes from "./routes/flavors";
 import returnRoutes from "./routes/returns";
 import wholesaleRoutes from "./routes/wholesale";
 import trackingRoutes from "./routes/tracking";
+import cronRoutes from "./routes/cron";
 
 // Import middleware
 import { errorHandler } from "./middleware/errorHandler";
 import { notFound } from "./middleware/notFound";
 import { setupSocketHandlers } from "./services/socketService";
+import { startCheckoutHoldJob } from "./jobs/checkoutHoldJob";
+import { startPriceEventJob } from "./jobs/priceEventJob";
+import { startRecommendationJob } from "./jobs/recommendationJob";
+import { startLotExpiryJob } from "./jobs/lotExpiryJob";
+import { startBackInStockJob } from "./jobs/backInStockJob";
 
 const app = express();
 const server = createServer(app);
@@ -133,8 +143,8 @@ app.use(
     },
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization", "Cookie"],
-    exposedHeaders: ["Set-Cookie"],
+    allowedHeaders: ["Content-Type", "Authorization", "Cookie", "X-Cart-Token", "X-Visitor-Token"],
+    exposedHeaders: ["Set-Cookie", "X-Cart-Token", "X-Visitor-Token"],
   })
 );
 
@@ -159,6 +169,14 @@ app.use((req, res, next) => {
 app.use(express.urlencoded({ extended: true, limit: "500mb" }));
 app.use(cookieParser()); // Add cookie parser AFTER body parsing
 
+// Product images stored on local disk (IMAGE_STORAGE=local), e.g. in development
+if (process.env.IMAGE_STORAGE === "local") {
+  app.use(
+    process.env.LOCAL_UPLOAD_URL || "/uploads",
+    express.static(process.env.LOCAL_UPLOAD_DIR || "uploads")
+  );
+}
+
 // Health check endpoint
 app.get("/health", (req, res) => {
   res.status(200).json({
@@ -199,13 +217,18 @@ app.use("/shippo", shippoRoutes); // Shippo webhook at /shippo/webhook
 app.use("/api/notifications", notificationRoutes);
 app.use("/api/categories", categoryRoutes);
 app.use("/api/discounts", discountRoutes);
+app.use("/api/promotions", promotionRoutes);
+app.use("/api/price-events", priceEventRoutes);
 app.use("/api/newsletter", newsletterRoutes);
 app.use("/api/addresses", addressRoutes);
 app.use("/api/inventory", inventoryRoutes);
+app.use("/api/suppliers", supplierRoutes);
+app.use("/api/purchase-orders", purchaseOrderRoutes);
 app.use("/api/flavors", flavorRoutes);
 app.use("/api/returns", returnRoutes);
 app.use("/api/wholesale", wholesaleRoutes);
 app.use("/api/tracking", trackingRoutes);
+app.use("/api/cron", cronRoutes);
 
 // Root endpoint
 app.get("/", (req, res) => {
@@ -262,6 +285,13 @@ server.listen(PORT, () => {
   console.log("✅ Shipment Tracking: Active");
   console.log("✅ Advanced Analytics: Available");
   console.log("🚀 ====================================");
+
+  // Background jobs; serverless deploys run them through /api/cron instead
+  startCheckoutHoldJob();
+  startPriceEventJob();
+  startRecommendationJob();
+  startLotExpiryJob();
+  startBackInStockJob();
 });
 
 // Graceful shutdown
@@ -0,0 +1,210 @@
+import { PrismaClient, StockSubscription } from '@prisma/client';
+import { AppError } from '../types';
+import { sendEmail, emailTemplates } from './emailService';
+import { getAvailableQuantity } from './inventoryService';
+
+const prisma = new PrismaClient();
+
+// Alerts go out one batch per product each time the back-in-stock job runs, so a restock
+// doesn't flood the mail server
+const NOTIFY_BATCH_SIZE = 25;
+
+// Subscribers alerted per restock; the rest stay subscribed for the next one
+const MAX_NOTIFICATIONS_PER_RESTOCK = 500;
+
+// Restocked products worked through per job run
+const RESTOCKED_PRODUCTS_PER_RUN = 20;
+
+export class StockSubscriptionError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'StockSubscriptionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Ask to be told when an out-of-stock product is available again. Subscribing again
+ * after an alert was sent or the subscription was cancelled renews it. New and renewed
+ * subscriptions get a confirmation email with a link to cancel them.
+ */
+export const subscribeToRestock = async (
+  productId: string,
+  subscriber: { email: string; userId?: string | null }
+): Promise<{ subscription: StockSubscription; alreadySubscribed: boolean }> => {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, name: true, isActive: true, stock: true }
+  });
+
+  if (!product || !product.isActive) {
+    throw new StockSubscriptionError('Product not found', 404);
+  }
+
+  if (await getAvailableQuantity(product.id, product.stock) > 0) {
+    throw new StockSubscriptionError('This product is in stock');
+  }
+
+  const email = subscriber.email.trim().toLowerCase();
+  const existing = await prisma.stockSubscription.findUnique({
+    where: { productId_email: { productId, email } }
+  });
+
+  if (existing?.status === 'ACTIVE') {
+    return { subscription: existing, alreadySubscribed: true };
+  }
+
+  const subscription = existing
+    ? await prisma.stockSubscription.update({
+        where: { id: existing.id },
+        data: { status: 'ACTIVE', notifiedAt: null, userId: subscriber.userId || existing.userId }
+      })
+    : await prisma.stockSubscription.create({
+        data: { productId, email, userId: subscriber.userId || null }
+      });
+
+  await sendEmail({
+    to: email,
+    subject: `We'll tell you when ${product.name} is back`,
+    html: emailTemplates.backInStockSubscribed(product, subscription.unsubscribeToken)
+  });
+
+  return { subscription, alreadySubscribed: false };
+};
+
+/**
+ * Cancel a pending back-in-stock alert, found by the signed-in shopper's email or by the
+ * token from the confirmation email
+ */
+export const unsubscribeFromRestock = async (
+  productId: string,
+  subscriber: { email: string } | { token: string }
+): Promise<boolean> => {
+  const result = await prisma.stockSubscription.updateMany({
+    where: {
+      productId,
+      status: 'ACTIVE',
+      ...('email' in subscriber
+        ? { email: subscriber.email.trim().toLowerCase() }
+        : { unsubscribeToken: subscriber.token })
+    },
+    data: { status: 'CANCELLED' }
+  });
+  return result.count > 0;
+};
+
+/**
+ * Email and notify up to `limit` waiting subscribers that a product is back. Each subscription is
+ * marked NOTIFIED before its alert is sent, so it ends after one alert and concurrent runs can't
+ * double-send. A subscription whose email could not be sent goes back to ACTIVE for the next run.
+ */
+export const notifyBackInStock = async (productId: string, limit: number = NOTIFY_BATCH_SIZE): Promise<number> => {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, name: true, price: true, image: true, stock: true, isActive: true }
+  });
+
+  if (!product || !product.isActive || product.stock <= 0) return 0;
+
+  const subscriptions = await prisma.stockSubscription.findMany({
+    where: { productId, status: 'ACTIVE' },
+    orderBy: { createdAt: 'asc' },
+    take: limit
+  });
+
+  let sent = 0;
+  for (const subscription of subscriptions) {
+    const claimed = await prisma.stockSubscription.updateMany({
+      where: { id: subscription.id, status: 'ACTIVE' },
+      data: { status: 'NOTIFIED', notifiedAt: new Date() }
+    });
+    if (claimed.count === 0) continue;
+
+    const delivery = await sendEmail({
+      to: subscription.email,
+      subject: `${product.name} is back in stock`,
+      html: emailTemplates.backInStock({
+        id: product.id,
+        name: product.name,
+        price: Number(product.price).toFixed(2),
+        image: product.image
+      })
+    });
+
+    if (!delivery.success) {
+      await prisma.stockSubscription.update({
+        where: { id: subscription.id },
+        data: { status: 'ACTIVE', notifiedAt: null }
+      });
+      continue;
+    }
+
+    if (subscription.userId) {
+      await prisma.notification.create({
+        data: {
+          userId: subscription.userId,
+          title: 'Back in stock',
+          message: `${product.name} is available again.`,
+          type: 'GENERAL',
+          relatedId: product.id,
+          data: { productId: product.id, reason: 'back_in_stock' }
+        }
+      });
+    }
+
+    sent++;
+  }
+
+  if (sent > 0) {
+    console.log(`🔔 Back-in-stock alerts sent for ${product.name}: ${sent}`);
+  }
+  return sent;
+};
+
+/**
+ * Call after a product's stock changes. When it goes from none to some the product is queued for
+ * back-in-stock alerts, which the back-in-stock job sends so the request doesn't wait on email.
+ */
+export const handleRestock = async (productId: string, previousStock: number, newStock: number): Promise<void> => {
+  if (previousStock > 0 || newStock <= 0) return;
+
+  await prisma.product.updateMany({
+    where: { id: productId, restockedAt: null },
+    data: { restockedAt: new Date() }
+  });
+};
+
+/**
+ * Send the next batch of alerts for each restocked product. A product leaves the queue once its
+ * subscribers are all alerted, it has had its share for this restock, nothing could be sent or it
+ * sold out again. Returns the number of alerts sent.
+ */
+export const sendRestockAlerts = async (): Promise<number> => {
+  const products = await prisma.product.findMany({
+    where: { restockedAt: { not: null } },
+    select: { id: true, restockedAt: true },
+    orderBy: { restockedAt: 'asc' },
+    take: RESTOCKED_PRODUCTS_PER_RUN
+  });
+
+  let total = 0;
+  for (const product of products) {
+    const alerted = await prisma.stockSubscription.count({
+      where: { productId: product.id, status: 'NOTIFIED', notifiedAt: { gte: product.restockedAt } }
+    });
+    const limit = Math.min(NOTIFY_BATCH_SIZE, MAX_NOTIFICATIONS_PER_RESTOCK - alerted);
+
+    const sent = limit > 0 ? await notifyBackInStock(product.id, limit) : 0;
+    total += sent;
+
+    const waiting = await prisma.stockSubscription.count({ where: { productId: product.id, status: 'ACTIVE' } });
+    if (sent === 0 || waiting === 0 || alerted + sent >= MAX_NOTIFICATIONS_PER_RESTOCK) {
+      await prisma.product.update({ where: { id: product.id }, data: { restockedAt: null } });
+    }
+  }
+
+  return total;
+};
@@ -0,0 +1,126 @@
+import { PrismaClient, Prisma, GuestCart } from '@prisma/client';
+import { generateGuestToken, guestTokenExpiry } from '../utils/guestToken';
+
+const prisma = new PrismaClient();
+
+export const CART_TOKEN_COOKIE = 'cartToken';
+export const CART_TOKEN_HEADER = 'X-Cart-Token';
+
+// Whose cart a request works on: a signed-in user or an anonymous guest cart
+export type CartOwner = { userId: string } | { guestCartId: string };
+
+export interface CartMergeAdjustment {
+  productId: string;
+  variantId?: string | null;
+  requested: number;
+  quantity: number; // What ended up in the cart after capping at stock
+}
+
+/**
+ * Unique key of a cart line. Lines without a variant have an empty variantKey, since a null
+ * variantId would let the database accept duplicate lines.
+ */
+export const cartLineKey = (
+  owner: CartOwner,
+  productId: string,
+  variantId?: string | null
+): Prisma.CartItemWhereUniqueInput => {
+  const variantKey = variantId || '';
+  return 'userId' in owner
+    ? { userId_productId_variantKey: { userId: owner.userId, productId, variantKey } }
+    : { guestCartId_productId_variantKey: { guestCartId: owner.guestCartId, productId, variantKey } };
+};
+
+/**
+ * Find a guest cart by its token, ignoring carts that have expired
+ */
+export const findGuestCart = async (token: string): Promise<GuestCart | null> => {
+  const cart = await prisma.guestCart.findUnique({
+    where: { token }
+  });
+
+  if (!cart || cart.expiresAt < new Date()) return null;
+
+  return cart;
+};
+
+/**
+ * Start a new guest cart with a fresh token
+ */
+export const createGuestCart = async (): Promise<GuestCart> => {
+  return prisma.guestCart.create({
+    data: {
+      token: generateGuestToken(),
+      expiresAt: guestTokenExpiry()
+    }
+  });
+};
+
+/**
+ * Keep an active guest cart alive for another full token lifetime
+ */
+export const touchGuestCart = async (guestCartId: string): Promise<void> => {
+  await prisma.guestCart.update({
+    where: { id: guestCartId },
+    data: { expiresAt: guestTokenExpiry() }
+  });
+};
+
+/**
+ * Move a guest cart into a user's cart. Quantities for the same product and variant are summed and
+ * capped at current stock; inactive or sold-out products are dropped. The guest cart is deleted.
+ */
+export const mergeGuestCart = async (
+  token: string,
+  userId: string
+): Promise<{ merged: number; adjustments: CartMergeAdjustment[] }> => {
+  const guestCart = await findGuestCart(token);
+  if (!guestCart) return { merged: 0, adjustments: [] };
+
+  return prisma.$transaction(async (tx) => {
+    const guestItems = await tx.cartItem.findMany({
+      where: { guestCartId: guestCart.id },
+      include: {
+        product: { select: { id: true, stock: true, isActive: true } },
+        variant: { select: { id: true, stock: true, isActive: true } }
+      }
+    });
+
+    let merged = 0;
+    const adjustments: CartMergeAdjustment[] = [];
+
+    for (const item of guestItems) {
+      const stock = item.variant ? item.variant.stock : item.product.stock;
+      const variantId = item.variantId || null;
+
+      if (!item.product.isActive || (item.variant && !item.variant.isActive) || stock <= 0) {
+        adjustments.push({ productId: item.productId, variantId, requested: item.quantity, quantity: 0 });
+        continue;
+      }
+
+      const key = cartLineKey({ userId }, item.productId, variantId);
+      const existing = await tx.cartItem.findUnique({ where: key });
+
+      const requested = (existing?.quantity || 0) + item.quantity;
+      const quantity = Math.min(requested, stock);
+
+      await tx.cartItem.upsert({
+        where: key,
+        update: { quantity },
+        create: { userId, productId: item.productId, variantId, variantKey: variantId || '', quantity }
+      });
+
+      if (quantity < requested) {
+        adjustments.push({ productId: item.productId, variantId, requested, quantity });
+      }
+      merged++;
+    }
+
+    // Cascades to the guest cart's items
+    await tx.guestCart.delete({
+      where: { id: guestCart.id }
+    });
+
+    return { merged, adjustments };
+  });
+};
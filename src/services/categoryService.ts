@@ -0,0 +1,125 @@
+import { PrismaClient, Prisma, Category } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Turn a category name into a URL slug, e.g. "Sour Ropes" -> "sour-ropes"
+ */
+export const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .trim()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Find a category by ID, slug or (case-insensitive) name
+ */
+export const resolveCategory = async (
+  value: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<Category | null> => {
+  if (!value) return null;
+
+  return client.category.findFirst({
+    where: {
+      OR: [
+        { id: value },
+        { slug: value.toLowerCase() },
+        { slug: slugify(value) },
+        { name: { equals: value, mode: 'insensitive' } }
+      ]
+    }
+  });
+};
+
+/**
+ * IDs of a category and everything nested below it
+ */
+export const getCategoryTreeIds = async (
+  categoryId: string,
+  options: { activeOnly?: boolean } = {}
+): Promise<string[]> => {
+  const ids = [categoryId];
+  let frontier = [categoryId];
+
+  while (frontier.length > 0) {
+    const children = await prisma.category.findMany({
+      where: {
+        parentId: { in: frontier },
+        id: { notIn: ids },
+        ...(options.activeOnly ? { isActive: true } : {})
+      },
+      select: { id: true }
+    });
+
+    frontier = children.map(child => child.id);
+    ids.push(...frontier);
+  }
+
+  return ids;
+};
+
+/**
+ * Whether making parentId the parent of categoryId would put the category inside itself
+ */
+export const wouldCreateCycle = async (categoryId: string, parentId: string): Promise<boolean> => {
+  if (categoryId === parentId) return true;
+  const descendants = await getCategoryTreeIds(categoryId);
+  return descendants.includes(parentId);
+};
+
+/**
+ * Category fields to store on a product for a category given by ID, slug or name.
+ * Returns null when no such category exists.
+ */
+export const getProductCategoryData = async (
+  value: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<{ categoryId: string; category: string } | null> => {
+  const category = await resolveCategory(value, client);
+  return category ? { categoryId: category.id, category: category.name } : null;
+};
+
+/**
+ * Copy a category's current name onto its products after it is renamed
+ */
+export const syncCategoryProducts = async (
+  category: Pick<Category, 'id' | 'name'>,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const { count } = await client.product.updateMany({
+    where: { categoryId: category.id, category: { not: category.name } },
+    data: { category: category.name }
+  });
+
+  return count;
+};
+
+/**
+ * Product filter for a category given by slug, name or ID, including its subcategories.
+ * Products not yet linked by ID still match on the category name; an unknown value
+ * falls back to matching the name as before.
+ */
+export const getCategoryProductFilter = async (
+  value: string
+): Promise<{ category: Category | null; where: Prisma.ProductWhereInput }> => {
+  const category = await resolveCategory(value);
+
+  if (!category) {
+    return { category: null, where: { category: value } };
+  }
+
+  const categoryIds = await getCategoryTreeIds(category.id, { activeOnly: true });
+
+  return {
+    category,
+    where: {
+      OR: [
+        { categoryId: { in: categoryIds } },
+        { categoryId: null, category: { equals: category.name, mode: 'insensitive' } }
+      ]
+    }
+  };
+};
@@ -0,0 +1,552 @@
+import Stripe from 'stripe';
+import { PrismaClient, CheckoutDraft, Order, OrderItem } from '@prisma/client';
+import { AppError } from '../types';
+import {
+  DiscountCustomer,
+  DiscountError,
+  reactivateDiscountRedemption,
+  redeemDiscount,
+  releaseDiscountRedemption
+} from './discountService';
+import { getShippingRate } from './shipmentService';
+import {
+  InventoryError,
+  assertStockAvailable,
+  convertReservations,
+  getReservedQuantities,
+  getReservedVariantQuantities,
+  releaseReservations,
+  reserveStock
+} from './inventoryService';
+import { PricingAdjustment, PricingError, PricingItemInput, PricingLine, isOnSale, priceCart } from './pricingService';
+import { getVariantLabel, getVariantPrice, variantInclude } from './variantService';
+import { allocateOrderStock } from './stockLocationService';
+import { pickOrderLots } from './lotService';
+
+const prisma = new PrismaClient();
+
+// Stripe requires checkout sessions to live at least 30 minutes
+export const CHECKOUT_DRAFT_TTL_MINUTES = 60;
+
+export class CheckoutError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'CheckoutError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface CheckoutItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  price?: number; // Price the client displayed, only used to report changes
+}
+
+export type CheckoutLine = PricingLine;
+
+export interface CheckoutPriceChange {
+  productId: string;
+  variantId?: string | null;
+  name: string;
+  clientPrice: number;
+  price: number;
+}
+
+export interface CheckoutShippingRate {
+  objectId: string;
+  carrier: string;
+  serviceName: string;
+  amount: number;
+}
+
+export interface CheckoutQuote {
+  lines: CheckoutLine[];
+  priceChanges: CheckoutPriceChange[];
+  subtotal: number;
+  discounts: PricingAdjustment[];
+  promotions: PricingAdjustment[];
+  discountId: string | null;
+  discountCode: string | null;
+  codeDiscountAmount: number;
+  discountAmount: number;
+  shipping: number;
+  shippingRate: CheckoutShippingRate | null;
+  tax: number;
+  total: number;
+}
+
+/**
+ * Normalize the loosely shaped cart items the storefront sends
+ */
+export const normalizeCheckoutItems = (items: any[]): CheckoutItemInput[] => {
+  const merged = new Map<string, CheckoutItemInput>();
+
+  for (const item of items || []) {
+    const productId = item?.productId || item?.pid || item?.id;
+    if (!productId) continue;
+
+    const variantId = item.variantId ? String(item.variantId) : null;
+    const quantity = Math.max(1, parseInt(item.quantity) || 1);
+    const clientPrice = item.price !== undefined && item.price !== null ? Number(item.price) : undefined;
+
+    // Each variant of a product is its own line
+    const key = `${productId}:${variantId || ''}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      merged.set(key, {
+        productId: String(productId),
+        variantId,
+        quantity,
+        price: Number.isFinite(clientPrice) ? clientPrice : undefined
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+};
+
+/**
+ * Price a checkout from the database, ignoring any amounts supplied by the client
+ */
+export const quoteCheckout = async (options: {
+  items: CheckoutItemInput[];
+  discountCode?: string | null;
+  shippingRateId?: string | null;
+  customer?: DiscountCustomer;
+}): Promise<CheckoutQuote> => {
+  const { items, discountCode, shippingRateId, customer } = options;
+
+  if (!items || items.length === 0) {
+    throw new CheckoutError('No items provided');
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: items.map(item => item.productId) } },
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      originalPrice: true,
+      discount: true,
+      category: true,
+      flavors: true,
+      stock: true,
+      isActive: true
+    }
+  });
+
+  const variants = await prisma.productVariant.findMany({
+    where: { productId: { in: items.map(item => item.productId) } },
+    include: variantInclude
+  });
+
+  const reserved = await getReservedQuantities(products.map(p => p.id));
+  const reservedVariants = await getReservedVariantQuantities(variants.map(v => v.id));
+
+  const pricedItems: PricingItemInput[] = [];
+  const priceChanges: CheckoutPriceChange[] = [];
+
+  for (const item of items) {
+    const product = products.find(p => p.id === item.productId);
+
+    if (!product || !product.isActive) {
+      throw new CheckoutError(`Product ${product ? `"${product.name}" ` : ''}is no longer available`);
+    }
+
+    const variant = item.variantId ? variants.find(v => v.id === item.variantId && v.productId === product.id) : null;
+    if (item.variantId && (!variant || !variant.isActive)) {
+      throw new CheckoutError(`The selected option of "${product.name}" is no longer available`);
+    }
+    if (!variant && variants.some(v => v.productId === product.id && v.isActive)) {
+      throw new CheckoutError(`Please choose an option for "${product.name}"`);
+    }
+
+    // Stock held by other shoppers' open checkouts is not available
+    const available = variant
+      ? Math.max(0, variant.stock - (reservedVariants.get(variant.id) || 0))
+      : Math.max(0, product.stock - (reserved.get(product.id) || 0));
+    if (item.quantity > available) {
+      throw new CheckoutError(`Insufficient stock for "${product.name}". Available: ${available}`);
+    }
+
+    const unitPrice = getVariantPrice(variant, product.price);
+    const variantName = variant ? getVariantLabel(variant) : null;
+
+    if (item.price !== undefined && Math.abs(item.price - unitPrice) >= 0.005) {
+      priceChanges.push({
+        productId: product.id,
+        variantId: variant?.id || null,
+        name: variantName ? `${product.name} - ${variantName}` : product.name,
+        clientPrice: item.price,
+        price: unitPrice
+      });
+    }
+
+    pricedItems.push({
+      productId: product.id,
+      variantId: variant?.id || null,
+      variantName,
+      sku: variant?.sku || null,
+      name: product.name,
+      unitPrice,
+      quantity: item.quantity,
+      category: product.category,
+      flavors: variant?.flavor ? [variant.flavor.name] : product.flavors,
+      onSale: isOnSale(product)
+    });
+  }
+
+  let shippingRate: CheckoutShippingRate | null = null;
+  if (shippingRateId) {
+    try {
+      const rate = await getShippingRate(shippingRateId);
+      shippingRate = {
+        objectId: rate.objectId,
+        carrier: rate.carrier,
+        serviceName: rate.serviceName,
+        amount: rate.amount
+      };
+    } catch (error) {
+      throw new CheckoutError('The selected shipping rate is no longer available');
+    }
+  }
+
+  try {
+    const pricing = await priceCart(pricedItems, {
+      discountCode,
+      customer,
+      shippingAmount: shippingRate ? shippingRate.amount : null
+    });
+
+    return {
+      lines: pricing.lines,
+      priceChanges,
+      subtotal: pricing.subtotal,
+      discounts: pricing.discounts,
+      promotions: pricing.promotions,
+      discountId: pricing.discountId,
+      discountCode: pricing.discountCode,
+      codeDiscountAmount: pricing.codeDiscountAmount,
+      discountAmount: pricing.discountAmount,
+      shipping: pricing.shipping,
+      shippingRate,
+      tax: pricing.tax,
+      total: pricing.total
+    };
+  } catch (error) {
+    if (error instanceof PricingError) {
+      throw new CheckoutError(error.message, error.statusCode);
+    }
+    throw error;
+  }
+};
+
+export interface CheckoutAddress {
+  name?: string;
+  email?: string;
+  phone?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  country?: string;
+}
+
+/**
+ * Persist a priced checkout so the webhook can build the order from it later.
+ * Stock is reserved and any discount code redeemed here, so both are held while the shopper pays.
+ */
+export const createCheckoutDraft = async (
+  quote: CheckoutQuote,
+  details: {
+    userId?: string | null;
+    guestEmail?: string | null;
+    email?: string | null; // Account email for signed-in shoppers, else the guest email
+    shippingAddress?: CheckoutAddress | null;
+    notes?: string | null;
+  }
+): Promise<CheckoutDraft> => {
+  const expiresAt = new Date(Date.now() + CHECKOUT_DRAFT_TTL_MINUTES * 60 * 1000);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const draft = await tx.checkoutDraft.create({
+        data: {
+          userId: details.userId || null,
+          guestEmail: details.guestEmail || null,
+          items: quote.lines as any,
+          shippingAddress: (details.shippingAddress as any) || undefined,
+          shippingRate: (quote.shippingRate as any) || undefined,
+          notes: details.notes || null,
+          discountCode: quote.discountCode,
+          promotions: quote.promotions.length > 0 ? (quote.promotions as any) : undefined,
+          subtotal: quote.subtotal,
+          discountAmount: quote.discountAmount,
+          shippingAmount: quote.shipping,
+          taxAmount: quote.tax,
+          totalAmount: quote.total,
+          expiresAt
+        }
+      });
+
+      await reserveStock(
+        tx,
+        quote.lines.map(line => ({ productId: line.productId, variantId: line.variantId, quantity: line.quantity })),
+        { checkoutDraftId: draft.id, expiresAt }
+      );
+
+      if (quote.discountId) {
+        await redeemDiscount(tx, {
+          discountId: quote.discountId,
+          amount: quote.codeDiscountAmount,
+          checkoutDraftId: draft.id,
+          userId: details.userId,
+          email: details.email || details.guestEmail
+        });
+      }
+
+      return draft;
+    });
+  } catch (error) {
+    if (error instanceof DiscountError || error instanceof InventoryError) {
+      throw new CheckoutError(error.message, error.statusCode);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Link a draft to the Stripe session that will pay for it
+ */
+export const attachCheckoutSession = async (draftId: string, sessionId: string): Promise<void> => {
+  await prisma.checkoutDraft.update({
+    where: { id: draftId },
+    data: { stripeSessionId: sessionId }
+  });
+};
+
+/**
+ * Pick the shipping address for a draft: the storefront's copy wins, Stripe's is the fallback
+ */
+export const resolveDraftAddress = (draft: CheckoutDraft, session: Stripe.Checkout.Session): CheckoutAddress => {
+  const stored = (draft.shippingAddress as CheckoutAddress | null) || null;
+  const shippingDetails: any = (session as any).shipping_details || null;
+  const customerDetails: any = session.customer_details || null;
+
+  if (stored?.name) {
+    return {
+      ...stored,
+      email: stored.email || draft.guestEmail || customerDetails?.email || '',
+      phone: stored.phone || customerDetails?.phone || '',
+      country: stored.country || 'US'
+    };
+  }
+
+  const addressData = shippingDetails?.address || customerDetails?.address;
+  if (!addressData) {
+    return { email: draft.guestEmail || customerDetails?.email || '' };
+  }
+
+  return {
+    name: shippingDetails?.name || customerDetails?.name || '',
+    email: customerDetails?.email || draft.guestEmail || '',
+    phone: customerDetails?.phone || shippingDetails?.phone || '',
+    street: addressData.line1 || '',
+    city: addressData.city || '',
+    state: addressData.state || '',
+    zipCode: addressData.postal_code || '',
+    country: addressData.country || 'US'
+  };
+};
+
+/**
+ * Turn a paid checkout draft into an order, converting its reservations and decrementing stock
+ * in the same transaction.
+ * Returns the existing order if the draft was already converted. A draft whose hold lapsed
+ * before payment arrived is re-checked; if it can no longer be filled at the price paid, the
+ * order is kept PENDING with a note for an admin to refund or review.
+ */
+export const convertCheckoutDraft = async (
+  draftId: string,
+  session: Stripe.Checkout.Session
+): Promise<{ draft: CheckoutDraft; order: Order & { orderItems: OrderItem[] }; address: CheckoutAddress; created: boolean }> => {
+  const draft = await prisma.checkoutDraft.findUnique({
+    where: { id: draftId }
+  });
+
+  if (!draft) {
+    throw new CheckoutError('Checkout draft not found', 404);
+  }
+
+  const address = resolveDraftAddress(draft, session);
+
+  if (draft.status === 'CONVERTED' && draft.orderId) {
+    const order = await prisma.order.findUnique({
+      where: { id: draft.orderId },
+      include: { orderItems: true }
+    });
+
+    if (!order) {
+      throw new CheckoutError('Order for converted checkout draft not found', 404);
+    }
+
+    return { draft, order, address, created: false };
+  }
+
+  const paymentIntentId =
+    typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : (session.payment_intent as any)?.id || null;
+
+  const lines = draft.items as unknown as CheckoutLine[];
+  const nameParts = (address.name || '').split(' ');
+  const orderNumber = `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
+
+  const order = await prisma.$transaction(async (tx) => {
+    // Lock the draft so its status cannot change between this check and the claim below
+    const [current] = await tx.$queryRaw<Array<{ status: string; expiresAt: Date }>>`
+      SELECT status, "expiresAt" FROM checkout_drafts WHERE id = ${draft.id} FOR UPDATE
+    `;
+
+    if (!current || current.status === 'CONVERTED') {
+      throw new CheckoutError('Checkout draft was already converted', 409);
+    }
+
+    // A lapsed draft no longer holds its stock or discount use, so both have to be taken again
+    const problems: string[] = [];
+    let stockShort = false;
+    if (current.status !== 'PENDING' || current.expiresAt <= new Date()) {
+      try {
+        await assertStockAvailable(tx, lines, draft.id);
+      } catch (error) {
+        if (!(error instanceof InventoryError)) throw error;
+        stockShort = true;
+        problems.push(error.message);
+      }
+
+      try {
+        await reactivateDiscountRedemption({ checkoutDraftId: draft.id }, tx, { enforceUsageLimit: true });
+      } catch (error) {
+        if (!(error instanceof DiscountError)) throw error;
+        problems.push(`Discount ${draft.discountCode}: ${error.message}`);
+      }
+    }
+
+    const created = await tx.order.create({
+      data: {
+        orderNumber,
+        userId: draft.userId,
+        guestEmail: address.email || draft.guestEmail || null,
+        totalAmount: draft.totalAmount,
+        shippingAmount: draft.shippingAmount,
+        taxAmount: draft.taxAmount,
+        discountAmount: draft.discountAmount,
+        discountCode: draft.discountCode,
+        promotions: draft.promotions ?? undefined,
+        status: problems.length > 0 ? 'PENDING' : 'CONFIRMED',
+        paymentStatus: 'COMPLETED',
+        paymentMethod: 'stripe',
+        paymentId: paymentIntentId,
+        orderNotes: draft.notes || '',
+        notes: problems.length > 0
+          ? `Needs review: paid after the checkout hold lapsed. ${problems.join('. ')}`
+          : null,
+        shippingFirstName: nameParts[0] || null,
+        shippingLastName: nameParts.slice(1).join(' ') || null,
+        shippingAddress: address.street || null,
+        shippingStreet: address.street || null,
+        shippingCity: address.city || null,
+        shippingState: address.state || null,
+        shippingZip: address.zipCode || null,
+        shippingZipCode: address.zipCode || null,
+        shippingCountry: address.country || null,
+        shippingPhone: address.phone || null,
+        orderItems: {
+          create: lines.map(line => ({
+            productId: line.productId,
+            productName: line.name,
+            variantId: line.variantId || null,
+            variantName: line.variantName || null,
+            sku: line.sku || null,
+            quantity: line.quantity,
+            price: line.unitPrice,
+            total: line.lineTotal
+          }))
+        }
+      },
+      include: { orderItems: true }
+    });
+
+    // Stock that is no longer there is left for the admin to sort out rather than going negative
+    if (!stockShort) {
+      for (const line of lines) {
+        await tx.product.update({
+          where: { id: line.productId },
+          data: {
+            stock: { decrement: line.quantity },
+            sales: { increment: line.quantity }
+          }
+        });
+
+        if (line.variantId) {
+          await tx.productVariant.update({
+            where: { id: line.variantId },
+            data: { stock: { decrement: line.quantity } }
+          });
+        }
+      }
+
+      // Take the stock from the location the order will ship from, first-expiring lots first
+      const allocation = await allocateOrderStock(tx, created.id, created.orderItems);
+      await pickOrderLots(tx, allocation.picks);
+    }
+
+    // Only the first delivery of the event gets to claim the draft
+    const claimed = await tx.checkoutDraft.updateMany({
+      where: { id: draft.id, status: { not: 'CONVERTED' } },
+      data: { status: 'CONVERTED', orderId: created.id, stripeSessionId: session.id }
+    });
+
+    if (claimed.count === 0) {
+      throw new CheckoutError('Checkout draft was already converted', 409);
+    }
+
+    if (!stockShort) {
+      await convertReservations(tx, draft.id, created.id);
+    }
+
+    // The discount use held by the draft now belongs to the order
+    await tx.discountRedemption.updateMany({
+      where: { checkoutDraftId: draft.id },
+      data: { orderId: created.id }
+    });
+
+    return created;
+  });
+
+  return { draft, order, address, created: true };
+};
+
+/**
+ * Mark a draft as expired when its Stripe session lapses without payment,
+ * giving back the stock and discount use it was holding
+ */
+export const expireCheckoutDraft = async (draftId: string): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const expired = await tx.checkoutDraft.updateMany({
+      where: { id: draftId, status: 'PENDING' },
+      data: { status: 'EXPIRED' }
+    });
+
+    if (expired.count > 0) {
+      await releaseReservations(draftId, tx);
+      await releaseDiscountRedemption({ checkoutDraftId: draftId }, tx);
+    }
+  });
+};
@@ -0,0 +1,368 @@
+import { PrismaClient, Prisma, Discount, DiscountRedemption } from '@prisma/client';
+import { AppError } from '../types';
+
+const prisma = new PrismaClient();
+
+export class DiscountError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'DiscountError';
+    this.statusCode = statusCode;
+  }
+}
+
+export type DiscountFailureReason =
+  | 'NOT_FOUND'
+  | 'INACTIVE'
+  | 'EXPIRED'
+  | 'USAGE_LIMIT_REACHED'
+  | 'MINIMUM_NOT_MET'
+  | 'NO_ELIGIBLE_ITEMS'
+  | 'NOT_ASSIGNED'
+  | 'CUSTOMER_REQUIRED'
+  | 'ALREADY_USED'
+  | 'FIRST_ORDER_ONLY';
+
+export interface DiscountEvaluation {
+  valid: boolean;
+  statusCode: number;
+  reason?: DiscountFailureReason;
+  message?: string;
+  discount?: Discount;
+  eligibleAmount?: number;
+  discountAmount: number;
+}
+
+export interface DiscountLine {
+  productId: string;
+  category?: string | null;
+  onSale?: boolean;
+  lineTotal: number;
+}
+
+export interface DiscountCustomer {
+  userId?: string | null;
+  email?: string | null;
+}
+
+const reject = (reason: DiscountFailureReason, message: string, statusCode: number = 400): DiscountEvaluation => ({
+  valid: false,
+  statusCode,
+  reason,
+  message,
+  discountAmount: 0
+});
+
+/**
+ * Sum the cart lines a discount's category, product and sale-item rules allow it to apply to.
+ * Without line details the whole order amount counts.
+ */
+export const getEligibleAmount = (discount: Discount, orderAmount: number, lines?: DiscountLine[]): number => {
+  if (!lines) return orderAmount;
+
+  const categories = (discount.categories || []).map(category => category.toLowerCase());
+  const productIds = discount.productIds || [];
+
+  return lines
+    .filter(line => {
+      if (productIds.length > 0 && !productIds.includes(line.productId)) return false;
+      if (categories.length > 0 && !categories.includes((line.category || '').toLowerCase())) return false;
+      if (discount.excludeSaleItems && line.onSale) return false;
+      return true;
+    })
+    .reduce((sum, line) => sum + line.lineTotal, 0);
+};
+
+/**
+ * Check a discount against an order amount and work out how much it takes off
+ */
+export const evaluateDiscount = (discount: Discount, orderAmount: number, lines?: DiscountLine[]): DiscountEvaluation => {
+  if (!discount.isActive) {
+    return reject('INACTIVE', 'This discount code is no longer active');
+  }
+
+  const now = new Date();
+  if (now < discount.startDate || now > discount.endDate) {
+    return reject('EXPIRED', 'This discount code has expired');
+  }
+
+  if (discount.usageLimit && discount.usedCount >= discount.usageLimit) {
+    return reject('USAGE_LIMIT_REACHED', 'This discount code has reached its usage limit');
+  }
+
+  if (discount.minimumAmount && orderAmount < Number(discount.minimumAmount)) {
+    return reject('MINIMUM_NOT_MET', `Minimum order amount of $${discount.minimumAmount} required for this discount`);
+  }
+
+  const eligibleAmount = getEligibleAmount(discount, orderAmount, lines);
+  if (eligibleAmount <= 0 && discount.type !== 'FREE_SHIPPING') {
+    return reject(
+      'NO_ELIGIBLE_ITEMS',
+      discount.excludeSaleItems
+        ? 'This discount code does not apply to the items in your cart (sale items are excluded)'
+        : 'This discount code does not apply to the items in your cart'
+    );
+  }
+
+  let discountAmount = 0;
+  if (discount.type === 'PERCENTAGE') {
+    discountAmount = (eligibleAmount * Number(discount.value)) / 100;
+    if (discount.maximumDiscount && discountAmount > Number(discount.maximumDiscount)) {
+      discountAmount = Number(discount.maximumDiscount);
+    }
+  } else if (discount.type === 'FIXED_AMOUNT') {
+    discountAmount = Number(discount.value);
+  }
+  // FREE_SHIPPING takes nothing off the merchandise; the pricing service waives shipping instead
+
+  // A discount can never take more than the items it applies to
+  discountAmount = Math.min(discountAmount, eligibleAmount);
+
+  return {
+    valid: true,
+    statusCode: 200,
+    discount,
+    eligibleAmount: parseFloat(eligibleAmount.toFixed(2)),
+    discountAmount: parseFloat(discountAmount.toFixed(2))
+  };
+};
+
+/**
+ * Check the rules that depend on who is redeeming: assignment, one use per customer and first order only
+ */
+export const evaluateCustomerRules = async (
+  discount: Discount,
+  customer: DiscountCustomer = {},
+  client: Prisma.TransactionClient = prisma,
+  excludeOrderId?: string | null
+): Promise<DiscountEvaluation | null> => {
+  const userId = customer.userId || null;
+  const email = customer.email ? customer.email.toLowerCase() : null;
+
+  if (discount.assignedUserIds && discount.assignedUserIds.length > 0) {
+    if (!userId) {
+      return reject('CUSTOMER_REQUIRED', 'Please sign in to use this discount code', 401);
+    }
+    if (!discount.assignedUserIds.includes(userId)) {
+      return reject('NOT_ASSIGNED', 'This discount code is not available for your account', 403);
+    }
+  }
+
+  if (!discount.oncePerCustomer && !discount.firstOrderOnly) {
+    return null;
+  }
+
+  if (!userId && !email) {
+    return reject('CUSTOMER_REQUIRED', 'Please sign in or enter your email to use this discount code');
+  }
+
+  if (discount.oncePerCustomer) {
+    const previousUses = await client.discountRedemption.count({
+      where: {
+        discountId: discount.id,
+        status: 'ACTIVE',
+        OR: [
+          ...(userId ? [{ userId }] : []),
+          ...(email ? [{ email }] : [])
+        ]
+      }
+    });
+
+    if (previousUses > 0) {
+      return reject('ALREADY_USED', 'You have already used this discount code');
+    }
+  }
+
+  if (discount.firstOrderOnly) {
+    const previousOrders = await client.order.count({
+      where: {
+        status: { notIn: ['CANCELLED', 'REFUNDED'] },
+        ...(excludeOrderId ? { id: { not: excludeOrderId } } : {}),
+        OR: [
+          ...(userId ? [{ userId }] : []),
+          ...(email ? [{ guestEmail: { equals: email, mode: 'insensitive' as const } }] : []),
+          ...(email ? [{ user: { email: { equals: email, mode: 'insensitive' as const } } }] : [])
+        ]
+      }
+    });
+
+    if (previousOrders > 0) {
+      return reject('FIRST_ORDER_ONLY', 'This discount code is only valid on your first order');
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Look up a discount code and evaluate it against an order, its lines and the customer redeeming it
+ */
+export const evaluateDiscountCode = async (
+  code: string,
+  orderAmount: number,
+  options: { lines?: DiscountLine[]; customer?: DiscountCustomer } = {}
+): Promise<DiscountEvaluation> => {
+  const discount = await prisma.discount.findUnique({
+    where: { code: String(code).toUpperCase() }
+  });
+
+  if (!discount) {
+    return reject('NOT_FOUND', 'Invalid discount code', 404);
+  }
+
+  const evaluation = evaluateDiscount(discount, orderAmount, options.lines);
+  if (!evaluation.valid) {
+    return evaluation;
+  }
+
+  const customerFailure = await evaluateCustomerRules(discount, options.customer);
+  return customerFailure || evaluation;
+};
+
+/**
+ * Count one use of a discount and record who used it. Must run inside the order or checkout
+ * transaction so the usage limit check and the increment happen atomically.
+ */
+export const redeemDiscount = async (
+  tx: Prisma.TransactionClient,
+  redemption: {
+    discountId: string;
+    amount: number;
+    orderId?: string | null;
+    checkoutDraftId?: string | null;
+    userId?: string | null;
+    email?: string | null;
+  }
+): Promise<DiscountRedemption> => {
+  // The limit is compared against the row being updated, so concurrent orders cannot overshoot it
+  const claimed = await tx.discount.updateMany({
+    where: {
+      id: redemption.discountId,
+      isActive: true,
+      OR: [
+        { usageLimit: null },
+        { usedCount: { lt: prisma.discount.fields.usageLimit } }
+      ]
+    },
+    data: { usedCount: { increment: 1 } }
+  });
+
+  if (claimed.count === 0) {
+    throw new DiscountError('This discount code has reached its usage limit');
+  }
+
+  // The increment above holds the discount row lock, so this re-check cannot race another redemption
+  const discount = await tx.discount.findUnique({
+    where: { id: redemption.discountId }
+  });
+  const customerFailure = await evaluateCustomerRules(
+    discount,
+    { userId: redemption.userId, email: redemption.email },
+    tx,
+    redemption.orderId
+  );
+  if (customerFailure) {
+    throw new DiscountError(customerFailure.message, customerFailure.statusCode);
+  }
+
+  return tx.discountRedemption.create({
+    data: {
+      discountId: redemption.discountId,
+      amount: redemption.amount,
+      orderId: redemption.orderId || null,
+      checkoutDraftId: redemption.checkoutDraftId || null,
+      userId: redemption.userId || null,
+      email: redemption.email ? redemption.email.toLowerCase() : null
+    }
+  });
+};
+
+/**
+ * Give back the use counted for an order or checkout draft, e.g. when it is cancelled or its
+ * payment fails. Safe to call more than once; only an active redemption is released.
+ */
+export const releaseDiscountRedemption = async (
+  where: { orderId: string } | { checkoutDraftId: string },
+  tx?: Prisma.TransactionClient
+): Promise<boolean> => {
+  const release = async (client: Prisma.TransactionClient): Promise<boolean> => {
+    const redemption = await client.discountRedemption.findFirst({
+      where: { ...where, status: 'ACTIVE' }
+    });
+
+    if (!redemption) return false;
+
+    const released = await client.discountRedemption.updateMany({
+      where: { id: redemption.id, status: 'ACTIVE' },
+      data: { status: 'RELEASED', releasedAt: new Date() }
+    });
+
+    if (released.count === 0) return false;
+
+    await client.discount.updateMany({
+      where: { id: redemption.discountId, usedCount: { gt: 0 } },
+      data: { usedCount: { decrement: 1 } }
+    });
+
+    return true;
+  };
+
+  return tx ? release(tx) : prisma.$transaction(release);
+};
+
+/**
+ * Hold a released redemption again, e.g. when a failed order goes back to payment. The shopper
+ * already has the discounted price, so the usage limit is only re-checked when asked to.
+ */
+export const reactivateDiscountRedemption = async (
+  where: { orderId: string } | { checkoutDraftId: string },
+  tx?: Prisma.TransactionClient,
+  options: { enforceUsageLimit?: boolean } = {}
+): Promise<boolean> => {
+  const reactivate = async (client: Prisma.TransactionClient): Promise<boolean> => {
+    const redemption = await client.discountRedemption.findFirst({
+      where: { ...where, status: 'RELEASED' }
+    });
+
+    if (!redemption) return false;
+
+    // Same row-level limit check as redeemDiscount, taken before the redemption counts again
+    const claimed = await client.discount.updateMany({
+      where: options.enforceUsageLimit
+        ? {
+            id: redemption.discountId,
+            isActive: true,
+            OR: [
+              { usageLimit: null },
+              { usedCount: { lt: prisma.discount.fields.usageLimit } }
+            ]
+          }
+        : { id: redemption.discountId },
+      data: { usedCount: { increment: 1 } }
+    });
+
+    if (claimed.count === 0) {
+      throw new DiscountError('This discount code has reached its usage limit');
+    }
+
+    const reactivated = await client.discountRedemption.updateMany({
+      where: { id: redemption.id, status: 'RELEASED' },
+      data: { status: 'ACTIVE', releasedAt: null }
+    });
+
+    if (reactivated.count === 0) {
+      await client.discount.update({
+        where: { id: redemption.discountId },
+        data: { usedCount: { decrement: 1 } }
+      });
+      return false;
+    }
+
+    return true;
+  };
+
+  return tx ? reactivate(tx) : prisma.$transaction(reactivate);
+};
@@ -442,6 +442,72 @@ export const emailTemplates = {
     </html>
   `,
 
+  // Back-in-stock alert for a product the customer asked to hear about
+  backInStock: (productData: any) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #E85A2D; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; background: #f9f9f9; }
+        .product { background: white; padding: 20px; border-radius: 5px; margin: 20px 0; text-align: center; }
+        .button { background: #E85A2D; color: white !important; padding: 12px 30px; text-decoration: none; display: inline-block; border-radius: 5px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>🎉 It's Back in Stock!</h1>
+        </div>
+        <div class="content">
+          <p>Good news! A product you asked us to watch is available again:</p>
+          <div class="product">
+            ${productData.image ? `<img src="${productData.image}" alt="${productData.name}" style="max-width: 200px;" />` : ''}
+            <h2>${productData.name}</h2>
+            <p><strong>$${productData.price}</strong></p>
+          </div>
+          <p>Stock is limited, so grab it while you can.</p>
+          <p style="text-align: center; margin-top: 30px;">
+            <a href="${process.env.FRONTEND_URL}/product/${productData.id}" class="button">Shop Now</a>
+          </p>
+          <p style="font-size: 12px; color: #777;">This was a one-time alert, so you won't hear from us about this product again.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+
+  // Back-in-stock alert confirmation, with a link to cancel it
+  backInStockSubscribed: (productData: any, unsubscribeToken: string) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #E85A2D; color: white; padding: 30px; text-align: center; }
+        .content { padding: 30px; background: #f9f9f9; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>🔔 We'll Let You Know</h1>
+        </div>
+        <div class="content">
+          <p>You'll get one email as soon as <strong>${productData.name}</strong> is back in stock.</p>
+          <p style="font-size: 12px; color: #777;">
+            Changed your mind?
+            <a href="${process.env.FRONTEND_URL}/product/${productData.id}?unsubscribe=${unsubscribeToken}">Cancel this alert</a>.
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `,
+
   // Newsletter subscription confirmation (to customer)
   newsletterConfirmation: (email: string) => `
     <!DOCTYPE html>
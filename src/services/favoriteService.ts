@@ -0,0 +1,63 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface FavoritePriceInfo {
+  currentPrice: number;
+  priceWhenAdded: number | null;
+  priceDrop: number; // How much cheaper it is now than when saved, 0 if not cheaper
+  priceDropPercent: number;
+  inStock: boolean;
+  stock: number;
+}
+
+/**
+ * Compare a saved product's current price and stock with the price it had when it was saved
+ */
+export const getFavoritePriceInfo = (
+  product: { price: any; stock: number },
+  priceWhenAdded: any
+): FavoritePriceInfo => {
+  const currentPrice = Number(product.price);
+  const savedPrice = priceWhenAdded !== null && priceWhenAdded !== undefined ? Number(priceWhenAdded) : null;
+  const priceDrop = savedPrice !== null && savedPrice > currentPrice ? savedPrice - currentPrice : 0;
+
+  return {
+    currentPrice,
+    priceWhenAdded: savedPrice,
+    priceDrop: parseFloat(priceDrop.toFixed(2)),
+    priceDropPercent: savedPrice ? Math.round((priceDrop / savedPrice) * 100) : 0,
+    inStock: product.stock > 0,
+    stock: product.stock
+  };
+};
+
+/**
+ * Move a visitor's guest favorites onto a user. Products the user already saved are skipped,
+ * keeping the user's original saved price.
+ */
+export const mergeGuestFavorites = async (visitorToken: string, userId: string): Promise<number> => {
+  return prisma.$transaction(async (tx) => {
+    const guestFavorites = await tx.guestFavorite.findMany({
+      where: { visitorToken }
+    });
+
+    if (guestFavorites.length === 0) return 0;
+
+    const { count } = await tx.favorite.createMany({
+      data: guestFavorites.map(favorite => ({
+        userId,
+        productId: favorite.productId,
+        priceWhenAdded: favorite.priceWhenAdded,
+        createdAt: favorite.createdAt
+      })),
+      skipDuplicates: true
+    });
+
+    await tx.guestFavorite.deleteMany({
+      where: { visitorToken }
+    });
+
+    return count;
+  });
+};
@@ -0,0 +1,284 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { AppError } from '../types';
+
+const prisma = new PrismaClient();
+
+export class InventoryError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'InventoryError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface StockRequest {
+  productId: string;
+  variantId?: string | null; // Checked against the variant's own stock as well as the product total
+  quantity: number;
+}
+
+/**
+ * Units held by unexpired reservations, per product
+ */
+export const getReservedQuantities = async (
+  productIds: string[],
+  client: Prisma.TransactionClient = prisma,
+  excludeCheckoutDraftId?: string
+): Promise<Map<string, number>> => {
+  if (productIds.length === 0) return new Map();
+
+  const groups = await client.stockReservation.groupBy({
+    by: ['productId'],
+    where: {
+      productId: { in: productIds },
+      status: 'ACTIVE',
+      expiresAt: { gt: new Date() },
+      ...(excludeCheckoutDraftId ? { NOT: { checkoutDraftId: excludeCheckoutDraftId } } : {})
+    },
+    _sum: { quantity: true }
+  });
+
+  return new Map(groups.map(group => [group.productId, group._sum.quantity || 0]));
+};
+
+/**
+ * Units held by unexpired reservations, per variant
+ */
+export const getReservedVariantQuantities = async (
+  variantIds: string[],
+  client: Prisma.TransactionClient = prisma,
+  excludeCheckoutDraftId?: string
+): Promise<Map<string, number>> => {
+  if (variantIds.length === 0) return new Map();
+
+  const groups = await client.stockReservation.groupBy({
+    by: ['variantId'],
+    where: {
+      variantId: { in: variantIds },
+      status: 'ACTIVE',
+      expiresAt: { gt: new Date() },
+      ...(excludeCheckoutDraftId ? { NOT: { checkoutDraftId: excludeCheckoutDraftId } } : {})
+    },
+    _sum: { quantity: true }
+  });
+
+  return new Map(groups.map(group => [group.variantId as string, group._sum.quantity || 0]));
+};
+
+/**
+ * Add reserved and available (on-hand minus reserved) counts to a list of products
+ */
+export const withAvailableStock = async <T extends { id: string; stock: number }>(
+  products: T[]
+): Promise<Array<T & { reservedStock: number; availableStock: number }>> => {
+  const reserved = await getReservedQuantities(products.map(product => product.id));
+
+  return products.map(product => {
+    const reservedStock = reserved.get(product.id) || 0;
+    return {
+      ...product,
+      reservedStock,
+      availableStock: Math.max(0, product.stock - reservedStock)
+    };
+  });
+};
+
+/**
+ * Add reserved and available counts to a list of variants
+ */
+export const withAvailableVariantStock = async <T extends { id: string; stock: number }>(
+  variants: T[]
+): Promise<Array<T & { reservedStock: number; availableStock: number }>> => {
+  const reserved = await getReservedVariantQuantities(variants.map(variant => variant.id));
+
+  return variants.map(variant => {
+    const reservedStock = reserved.get(variant.id) || 0;
+    return {
+      ...variant,
+      reservedStock,
+      availableStock: Math.max(0, variant.stock - reservedStock)
+    };
+  });
+};
+
+/**
+ * Available units of a single product, or of one of its variants when variantId is given
+ * (stock is then the variant's stock)
+ */
+export const getAvailableQuantity = async (
+  productId: string,
+  stock: number,
+  variantId?: string | null
+): Promise<number> => {
+  const reserved = variantId
+    ? (await getReservedVariantQuantities([variantId])).get(variantId)
+    : (await getReservedQuantities([productId])).get(productId);
+  return Math.max(0, stock - (reserved || 0));
+};
+
+// Lock the product rows for the rest of the transaction so concurrent checkouts queue up
+// instead of both seeing the same stock. Sorted to keep lock order consistent.
+export const lockProducts = async (
+  tx: Prisma.TransactionClient,
+  productIds: string[]
+): Promise<Map<string, { id: string; name: string; stock: number; isActive: boolean }>> => {
+  const ids = Array.from(new Set(productIds)).sort();
+  if (ids.length === 0) return new Map();
+
+  const rows = await tx.$queryRaw<Array<{ id: string; name: string; stock: number; isActive: boolean }>>`
+    SELECT id, name, stock, "isActive" FROM products
+    WHERE id IN (${Prisma.join(ids)})
+    ORDER BY id
+    FOR UPDATE
+  `;
+
+  return new Map(rows.map(row => [row.id, row]));
+};
+
+// Same as lockProducts for variant rows. Always taken after the product locks.
+const lockVariants = async (
+  tx: Prisma.TransactionClient,
+  variantIds: string[]
+): Promise<Map<string, { id: string; productId: string; sku: string; stock: number; isActive: boolean }>> => {
+  const ids = Array.from(new Set(variantIds)).sort();
+  if (ids.length === 0) return new Map();
+
+  const rows = await tx.$queryRaw<Array<{ id: string; productId: string; sku: string; stock: number; isActive: boolean }>>`
+    SELECT id, "productId", sku, stock, "isActive" FROM product_variants
+    WHERE id IN (${Prisma.join(ids)})
+    ORDER BY id
+    FOR UPDATE
+  `;
+
+  return new Map(rows.map(row => [row.id, row]));
+};
+
+/**
+ * Check under row locks that each requested quantity is available, throwing InventoryError if not.
+ * A checkout's own reservations can be ignored so converting it does not count its stock twice.
+ */
+export const assertStockAvailable = async (
+  tx: Prisma.TransactionClient,
+  requests: StockRequest[],
+  excludeCheckoutDraftId?: string
+): Promise<void> => {
+  const productIds = requests.map(request => request.productId);
+  const variantIds = requests.filter(request => request.variantId).map(request => request.variantId as string);
+  const products = await lockProducts(tx, productIds);
+  const variants = await lockVariants(tx, variantIds);
+  const reserved = await getReservedQuantities(productIds, tx, excludeCheckoutDraftId);
+  const reservedVariants = await getReservedVariantQuantities(variantIds, tx, excludeCheckoutDraftId);
+
+  // Products sold in variants cannot be bought without picking one
+  const variantProducts = new Set(
+    (await tx.productVariant.findMany({
+      where: { productId: { in: productIds }, isActive: true },
+      select: { productId: true },
+      distinct: ['productId']
+    })).map(variant => variant.productId)
+  );
+
+  const requestedPerProduct = new Map<string, number>();
+  const requestedPerVariant = new Map<string, number>();
+  for (const request of requests) {
+    requestedPerProduct.set(request.productId, (requestedPerProduct.get(request.productId) || 0) + request.quantity);
+    if (request.variantId) {
+      requestedPerVariant.set(request.variantId, (requestedPerVariant.get(request.variantId) || 0) + request.quantity);
+    }
+  }
+
+  for (const request of requests) {
+    const product = products.get(request.productId);
+
+    if (!product || !product.isActive) {
+      throw new InventoryError(`Product ${product ? `"${product.name}" ` : ''}is no longer available`);
+    }
+
+    if (request.variantId) {
+      const variant = variants.get(request.variantId);
+      if (!variant || variant.productId !== product.id || !variant.isActive) {
+        throw new InventoryError(`The selected option of "${product.name}" is no longer available`);
+      }
+
+      const variantAvailable = variant.stock - (reservedVariants.get(variant.id) || 0);
+      if (requestedPerVariant.get(variant.id)! > variantAvailable) {
+        throw new InventoryError(
+          `Insufficient stock for "${product.name}" (${variant.sku}). Available: ${Math.max(0, variantAvailable)}`
+        );
+      }
+    } else if (variantProducts.has(product.id)) {
+      throw new InventoryError(`Please choose an option for "${product.name}"`);
+    }
+
+    const available = product.stock - (reserved.get(product.id) || 0);
+    if (requestedPerProduct.get(product.id)! > available) {
+      throw new InventoryError(`Insufficient stock for "${product.name}". Available: ${Math.max(0, available)}`);
+    }
+  }
+};
+
+/**
+ * Hold stock for a checkout until it is paid or its session expires
+ */
+export const reserveStock = async (
+  tx: Prisma.TransactionClient,
+  requests: StockRequest[],
+  hold: { checkoutDraftId: string; expiresAt: Date }
+): Promise<void> => {
+  await assertStockAvailable(tx, requests);
+
+  await tx.stockReservation.createMany({
+    data: requests.map(request => ({
+      productId: request.productId,
+      variantId: request.variantId || null,
+      quantity: request.quantity,
+      checkoutDraftId: hold.checkoutDraftId,
+      expiresAt: hold.expiresAt
+    }))
+  });
+};
+
+/**
+ * Mark a checkout's reservations as sold. The caller decrements stock in the same transaction.
+ */
+export const convertReservations = async (
+  tx: Prisma.TransactionClient,
+  checkoutDraftId: string,
+  orderId: string
+): Promise<void> => {
+  await tx.stockReservation.updateMany({
+    where: { checkoutDraftId, status: { in: ['ACTIVE', 'EXPIRED'] } },
+    data: { status: 'CONVERTED', orderId }
+  });
+};
+
+/**
+ * Give back the stock a checkout was holding
+ */
+export const releaseReservations = async (
+  checkoutDraftId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const { count } = await client.stockReservation.updateMany({
+    where: { checkoutDraftId, status: 'ACTIVE' },
+    data: { status: 'RELEASED' }
+  });
+
+  return count;
+};
+
+/**
+ * Flag reservations whose hold time has passed. They already stopped counting against
+ * availability at expiresAt; this keeps the table's status honest.
+ */
+export const expireStaleReservations = async (): Promise<number> => {
+  const { count } = await prisma.stockReservation.updateMany({
+    where: { status: 'ACTIVE', expiresAt: { lte: new Date() } },
+    data: { status: 'EXPIRED' }
+  });
+
+  return count;
+};
@@ -0,0 +1,431 @@
+import { PrismaClient, Prisma, InventoryLot } from '@prisma/client';
+import { AppError } from '../types';
+import { StockPick, applyLocationStockChange, getDefaultLocation, getHeldStock } from './stockLocationService';
+import { handleRestock } from './backInStockService';
+
+const prisma = new PrismaClient();
+
+// Lots this close to their best-by date are flagged so they can be sold or moved first
+export const LOT_EXPIRY_WARNING_DAYS = parseInt(process.env.LOT_EXPIRY_WARNING_DAYS || '') || 14;
+
+export class LotError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'LotError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface StockReceipt {
+  productId: string;
+  variantId?: string | null;
+  locationId?: string | null;
+  quantity: number;
+  lotNumber?: string | null; // Received into a new lot when set
+  bestBy?: Date | null;
+  receivedAt?: Date;
+  reason: string;
+  referenceId?: string | null;
+  notes?: string | null;
+}
+
+const lockProduct = (tx: Prisma.TransactionClient, productId: string) =>
+  tx.$queryRaw`SELECT id FROM products WHERE id = ${productId} FOR UPDATE`;
+
+/**
+ * Check that a product (and variant, required when the product has them) can take stock
+ */
+export const assertStockTarget = async (
+  productId: string,
+  variantId?: string | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  const product = await client.product.findUnique({
+    where: { id: productId },
+    select: { id: true, _count: { select: { variants: true } } }
+  });
+
+  if (!product) {
+    throw new LotError('Product not found', 404);
+  }
+
+  // Products with variants keep their stock per variant
+  if (product._count.variants > 0 && !variantId) {
+    throw new LotError('Choose which variant the stock is for');
+  }
+
+  if (variantId) {
+    const variant = await client.productVariant.findUnique({ where: { id: variantId }, select: { productId: true } });
+    if (!variant || variant.productId !== productId) {
+      throw new LotError('Product variant not found', 404);
+    }
+  }
+};
+
+/**
+ * Add received units to product, variant and location stock with a STOCK_IN log, optionally
+ * as a new lot. Returns the stock before the receipt so callers can send restock alerts.
+ */
+export const receiveStock = async (
+  tx: Prisma.TransactionClient,
+  receipt: StockReceipt
+): Promise<{ lot: InventoryLot | null; previousStock: number; newStock: number }> => {
+  await lockProduct(tx, receipt.productId);
+
+  const previous = await tx.product.findUnique({ where: { id: receipt.productId }, select: { stock: true } });
+  const product = await tx.product.update({
+    where: { id: receipt.productId },
+    data: { stock: { increment: receipt.quantity } }
+  });
+
+  if (receipt.variantId) {
+    await tx.productVariant.update({
+      where: { id: receipt.variantId },
+      data: { stock: { increment: receipt.quantity } }
+    });
+  }
+
+  const [locationChange] = await applyLocationStockChange(tx, {
+    productId: receipt.productId,
+    variantId: receipt.variantId,
+    quantity: receipt.quantity,
+    locationId: receipt.locationId
+  });
+  const locationId = locationChange ? locationChange.locationId : null;
+
+  const lot = receipt.lotNumber
+    ? await tx.inventoryLot.create({
+        data: {
+          productId: receipt.productId,
+          variantId: receipt.variantId || null,
+          locationId,
+          lotNumber: receipt.lotNumber,
+          receivedAt: receipt.receivedAt || new Date(),
+          bestBy: receipt.bestBy || null,
+          initialQuantity: receipt.quantity,
+          quantity: receipt.quantity
+        }
+      })
+    : null;
+
+  await tx.inventoryLog.create({
+    data: {
+      productId: receipt.productId,
+      variantId: receipt.variantId || null,
+      locationId,
+      lotId: lot ? lot.id : null,
+      type: 'STOCK_IN',
+      quantity: receipt.quantity,
+      reason: receipt.reason,
+      referenceId: receipt.referenceId || null,
+      notes: receipt.notes || null
+    }
+  });
+
+  return { lot, previousStock: previous?.stock ?? 0, newStock: product.stock };
+};
+
+/**
+ * Start tracking units that are already counted in stock as a lot, e.g. when lots are first
+ * introduced. The lot can't hold more than the stock not yet in other lots at its location.
+ */
+export const trackExistingStock = async (
+  tx: Prisma.TransactionClient,
+  lot: { productId: string; variantId?: string | null; locationId?: string | null; lotNumber: string; bestBy?: Date | null; receivedAt?: Date; quantity: number }
+): Promise<InventoryLot> => {
+  await lockProduct(tx, lot.productId);
+
+  const variantId = lot.variantId || null;
+  const locationId = lot.locationId || (await getDefaultLocation(tx))?.id || null;
+
+  // Units held where the lot will be: at its location, or in total without locations
+  const held = await getHeldStock(tx, lot.productId, variantId, locationId);
+
+  const tracked = await tx.inventoryLot.aggregate({
+    where: { productId: lot.productId, variantId, locationId, status: 'ACTIVE' },
+    _sum: { quantity: true }
+  });
+
+  const untracked = held - (tracked._sum.quantity || 0);
+  if (lot.quantity > untracked) {
+    throw new LotError(`Only ${Math.max(untracked, 0)} units are not already in a lot`);
+  }
+
+  return tx.inventoryLot.create({
+    data: {
+      productId: lot.productId,
+      variantId,
+      locationId,
+      lotNumber: lot.lotNumber,
+      receivedAt: lot.receivedAt || new Date(),
+      bestBy: lot.bestBy || null,
+      initialQuantity: lot.quantity,
+      quantity: lot.quantity
+    }
+  });
+};
+
+/**
+ * Add a lot, either received as new stock or covering units already in stock
+ */
+export const createLot = async (input: {
+  productId: string;
+  variantId?: string | null;
+  locationId?: string | null;
+  lotNumber: string;
+  bestBy?: Date | null;
+  receivedAt?: Date;
+  quantity: number;
+  existingStock?: boolean;
+  notes?: string | null;
+}): Promise<InventoryLot> => {
+  await assertStockTarget(input.productId, input.variantId);
+
+  if (input.existingStock) {
+    return prisma.$transaction(tx => trackExistingStock(tx, input));
+  }
+
+  const { lot, previousStock, newStock } = await prisma.$transaction(tx =>
+    receiveStock(tx, { ...input, reason: `Lot ${input.lotNumber} received` })
+  );
+
+  await handleRestock(input.productId, previousStock, newStock);
+  return lot as InventoryLot;
+};
+
+/**
+ * Take units out of (or put units back into) one lot during a stock adjustment
+ */
+export const adjustLotQuantity = async (
+  tx: Prisma.TransactionClient,
+  lotId: string,
+  change: { productId: string; variantId?: string | null; quantity: number }
+): Promise<InventoryLot> => {
+  const lot = await tx.inventoryLot.findUnique({ where: { id: lotId } });
+
+  if (!lot || lot.productId !== change.productId || (lot.variantId || null) !== (change.variantId || null)) {
+    throw new LotError('Lot not found', 404);
+  }
+
+  if (lot.status !== 'ACTIVE') {
+    throw new LotError(`Lot ${lot.lotNumber} is ${lot.status.toLowerCase()}`);
+  }
+
+  const remaining = lot.quantity + change.quantity;
+  if (remaining < 0) {
+    throw new LotError(`Lot ${lot.lotNumber} only has ${lot.quantity} left`);
+  }
+
+  return tx.inventoryLot.update({
+    where: { id: lot.id },
+    data: { quantity: remaining, ...(remaining === 0 ? { status: 'DEPLETED' as const } : {}) }
+  });
+};
+
+/**
+ * Take each order item's units from its lots, first expiring first out, at the location the
+ * units were allocated from. Lots past their best-by date are never picked. Units not covered
+ * by any lot came from untracked stock. Records the lots on the order items for recalls.
+ */
+export const pickOrderLots = async (tx: Prisma.TransactionClient, picks: StockPick[]): Promise<void> => {
+  const now = new Date();
+  const lotNumbers = new Map<string, Set<string>>();
+
+  for (const pick of picks) {
+    const lots = await tx.inventoryLot.findMany({
+      where: {
+        productId: pick.line.productId,
+        variantId: pick.line.variantId || null,
+        locationId: pick.locationId,
+        status: 'ACTIVE',
+        quantity: { gt: 0 },
+        OR: [{ bestBy: null }, { bestBy: { gt: now } }]
+      },
+      orderBy: [{ bestBy: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }, { id: 'asc' }]
+    });
+
+    let remaining = pick.quantity;
+    for (const lot of lots) {
+      if (remaining === 0) break;
+      const taken = Math.min(remaining, lot.quantity);
+
+      await tx.inventoryLot.update({
+        where: { id: lot.id },
+        data: {
+          quantity: { decrement: taken },
+          ...(taken === lot.quantity ? { status: 'DEPLETED' as const } : {})
+        }
+      });
+
+      await tx.orderItemLot.upsert({
+        where: { orderItemId_lotId: { orderItemId: pick.line.id, lotId: lot.id } },
+        update: { quantity: { increment: taken } },
+        create: { orderItemId: pick.line.id, lotId: lot.id, quantity: taken }
+      });
+
+      const numbers = lotNumbers.get(pick.line.id) || new Set<string>();
+      numbers.add(lot.lotNumber);
+      lotNumbers.set(pick.line.id, numbers);
+      remaining -= taken;
+    }
+  }
+
+  for (const [orderItemId, numbers] of lotNumbers) {
+    await tx.orderItem.update({ where: { id: orderItemId }, data: { lotNumbers: Array.from(numbers) } });
+  }
+};
+
+/**
+ * Flag lots reaching their best-by date within the warning window and tell the admins once per lot
+ */
+export const flagLotsNearExpiry = async (): Promise<number> => {
+  const now = new Date();
+  const warnBefore = new Date(now.getTime() + LOT_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+
+  const lots = await prisma.inventoryLot.findMany({
+    where: { status: 'ACTIVE', quantity: { gt: 0 }, nearExpiryAt: null, bestBy: { gt: now, lte: warnBefore } },
+    include: { product: { select: { name: true } } },
+    orderBy: { bestBy: 'asc' }
+  });
+
+  if (lots.length === 0) return 0;
+
+  await prisma.inventoryLot.updateMany({
+    where: { id: { in: lots.map(lot => lot.id) } },
+    data: { nearExpiryAt: now }
+  });
+
+  const admins = await prisma.user.findMany({ where: { role: 'ADMIN' }, select: { id: true } });
+  const names = lots.slice(0, 5).map(lot => `${lot.product.name} (lot ${lot.lotNumber})`).join(', ');
+
+  if (admins.length > 0) {
+    await prisma.notification.createMany({
+      data: admins.map(admin => ({
+        userId: admin.id,
+        title: 'Lots expiring soon',
+        message: `${lots.length} lot${lots.length === 1 ? '' : 's'} reach their best-by date within ${LOT_EXPIRY_WARNING_DAYS} days: ${names}${lots.length > 5 ? ', ...' : ''}`,
+        type: 'SYSTEM' as const,
+        data: { lotIds: lots.map(lot => lot.id), reason: 'lots_near_expiry' }
+      }))
+    });
+  }
+
+  return lots.length;
+};
+
+// Write off what is left of one lot past its best-by date
+const expireLot = async (lotId: string): Promise<boolean> =>
+  prisma.$transaction(async (tx) => {
+    const candidate = await tx.inventoryLot.findUnique({ where: { id: lotId }, select: { productId: true } });
+    if (!candidate) return false;
+
+    // Lock the product before re-reading the lot so an order can't pick from it meanwhile
+    await lockProduct(tx, candidate.productId);
+
+    const lot = await tx.inventoryLot.findUnique({ where: { id: lotId } });
+    if (!lot || lot.status !== 'ACTIVE') return false;
+
+    await tx.inventoryLot.update({
+      where: { id: lot.id },
+      data: { status: 'EXPIRED', expiredAt: new Date(), quantity: 0 }
+    });
+
+    const [product, variant] = await Promise.all([
+      tx.product.findUnique({ where: { id: lot.productId }, select: { stock: true } }),
+      lot.variantId ? tx.productVariant.findUnique({ where: { id: lot.variantId }, select: { stock: true } }) : null
+    ]);
+
+    // Never write off more than the stock that is still counted
+    const writeOff = Math.min(lot.quantity, variant ? variant.stock : product?.stock ?? 0);
+    if (writeOff <= 0) return true;
+
+    await tx.product.update({ where: { id: lot.productId }, data: { stock: { decrement: writeOff } } });
+    if (lot.variantId) {
+      await tx.productVariant.update({ where: { id: lot.variantId }, data: { stock: { decrement: writeOff } } });
+    }
+
+    const changes = await applyLocationStockChange(tx, {
+      productId: lot.productId,
+      variantId: lot.variantId,
+      quantity: -writeOff,
+      locationId: lot.locationId
+    });
+    const entries = changes.length > 0 ? changes : [{ locationId: null, quantity: -writeOff }];
+
+    for (const entry of entries) {
+      await tx.inventoryLog.create({
+        data: {
+          productId: lot.productId,
+          variantId: lot.variantId,
+          locationId: entry.locationId,
+          lotId: lot.id,
+          type: 'EXPIRED',
+          quantity: entry.quantity,
+          reason: `Lot ${lot.lotNumber} passed its best-by date`,
+          referenceId: lot.id
+        }
+      });
+    }
+
+    return true;
+  });
+
+/**
+ * Mark lots past their best-by date as expired and write their remaining units off with
+ * EXPIRED adjustments
+ */
+export const expireLots = async (): Promise<number> => {
+  const due = await prisma.inventoryLot.findMany({
+    where: { status: 'ACTIVE', bestBy: { lte: new Date() } },
+    select: { id: true },
+    orderBy: { bestBy: 'asc' }
+  });
+
+  let expired = 0;
+  for (const lot of due) {
+    try {
+      if (await expireLot(lot.id)) expired++;
+    } catch (error) {
+      console.error(`Failed to expire lot ${lot.id}:`, error);
+    }
+  }
+
+  return expired;
+};
+
+/**
+ * Orders that received units from lots with this number, for a recall
+ */
+export const getLotRecall = (lotNumber: string, productId?: string) =>
+  prisma.orderItemLot.findMany({
+    where: { lot: { lotNumber, ...(productId ? { productId } : {}) } },
+    include: {
+      lot: { select: { id: true, lotNumber: true, productId: true, variantId: true, locationId: true, bestBy: true } },
+      orderItem: {
+        select: {
+          id: true,
+          productName: true,
+          variantName: true,
+          sku: true,
+          quantity: true,
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+              status: true,
+              createdAt: true,
+              guestEmail: true,
+              shippingFirstName: true,
+              shippingLastName: true,
+              shippingPhone: true,
+              user: { select: { id: true, email: true, firstName: true, lastName: true } }
+            }
+          }
+        }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
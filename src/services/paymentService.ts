@@ -1,6 +1,7 @@
 import Stripe from 'stripe';
 import { PrismaClient } from '@prisma/client';
 import { PaymentIntentRequest, PaymentIntentResponse, PaymentConfirmationRequest } from '../types';
+import { releaseDiscountRedemption } from './discountService';
 
 const prisma = new PrismaClient();
 
@@ -223,6 +224,8 @@ export class PaymentService {
       }
     });
 
+    await releaseDiscountRedemption({ orderId });
+
     // Create notification
     const order = await prisma.order.findUnique({
       where: { id: orderId },
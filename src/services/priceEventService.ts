@@ -0,0 +1,405 @@
+import { PrismaClient, Prisma, PriceEvent, PriceEventType } from '@prisma/client';
+import { AppError } from '../types';
+import { getCategoryTreeIds } from './categoryService';
+import { recordPriceChange } from './priceHistoryService';
+
+const prisma = new PrismaClient();
+
+export class PriceEventError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'PriceEventError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface PriceEventInput {
+  name?: string;
+  productId?: string | null;
+  categoryId?: string | null;
+  type?: PriceEventType;
+  value?: number;
+  startsAt?: Date;
+  endsAt?: Date | null;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Price a product sells at while the event runs
+ */
+export const calculateEventPrice = (regularPrice: number, type: PriceEventType, value: number): number => {
+  switch (type) {
+    case 'PERCENT_OFF':
+      return roundMoney(regularPrice * (1 - value / 100));
+    case 'AMOUNT_OFF':
+      return roundMoney(Math.max(0, regularPrice - value));
+    case 'FIXED_PRICE':
+      return roundMoney(value);
+  }
+};
+
+// Products an event covers: its product, or every product in its category and subcategories
+const getEventProductIds = async (event: PriceEvent, client: Prisma.TransactionClient): Promise<string[]> => {
+  if (event.productId) return [event.productId];
+  if (!event.categoryId) return [];
+
+  const categoryIds = await getCategoryTreeIds(event.categoryId);
+  const products = await client.product.findMany({
+    where: { categoryId: { in: categoryIds } },
+    select: { id: true }
+  });
+  return products.map(product => product.id);
+};
+
+const validateEvent = async (input: Required<PriceEventInput>, excludeId?: string): Promise<void> => {
+  if (!!input.productId === !!input.categoryId) {
+    throw new PriceEventError('A price event applies to either a productId or a categoryId');
+  }
+  if (input.endsAt && input.endsAt <= input.startsAt) {
+    throw new PriceEventError('endsAt must be after startsAt');
+  }
+  if (input.type === 'PERCENT_OFF' && (input.value <= 0 || input.value >= 100)) {
+    throw new PriceEventError('Percent off must be between 0 and 100');
+  }
+  if (input.value < 0) {
+    throw new PriceEventError('Value cannot be negative');
+  }
+
+  if (input.productId && !(await prisma.product.findUnique({ where: { id: input.productId }, select: { id: true } }))) {
+    throw new PriceEventError('Product not found', 404);
+  }
+  if (input.categoryId && !(await prisma.category.findUnique({ where: { id: input.categoryId }, select: { id: true } }))) {
+    throw new PriceEventError('Category not found', 404);
+  }
+
+  // Two events on the same product or category may not run at the same time
+  const overlapping = await prisma.priceEvent.findFirst({
+    where: {
+      ...(excludeId ? { NOT: { id: excludeId } } : {}),
+      ...(input.productId ? { productId: input.productId } : { categoryId: input.categoryId }),
+      status: { in: ['SCHEDULED', 'ACTIVE'] },
+      OR: [{ endsAt: null }, { endsAt: { gt: input.startsAt } }],
+      ...(input.endsAt ? { startsAt: { lt: input.endsAt } } : {})
+    },
+    select: { id: true, name: true }
+  });
+
+  if (overlapping) {
+    throw new PriceEventError(`Overlaps with price event "${overlapping.name}"`, 409);
+  }
+};
+
+/**
+ * Schedule a price event. It is applied by the price event job once startsAt passes.
+ */
+export const createPriceEvent = async (input: PriceEventInput, userId?: string | null): Promise<PriceEvent> => {
+  const data = {
+    name: input.name || '',
+    productId: input.productId || null,
+    categoryId: input.categoryId || null,
+    type: input.type as PriceEventType,
+    value: Number(input.value),
+    startsAt: input.startsAt as Date,
+    endsAt: input.endsAt || null
+  };
+
+  await validateEvent(data);
+
+  const event = await prisma.priceEvent.create({
+    data: { ...data, createdById: userId || null }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: userId || null,
+      action: 'CREATE',
+      entity: 'PriceEvent',
+      entityId: event.id,
+      newValues: data as any
+    }
+  });
+
+  return event;
+};
+
+/**
+ * Change a scheduled event. Once an event is running only its end time can change.
+ */
+export const updatePriceEvent = async (
+  id: string,
+  input: PriceEventInput,
+  userId?: string | null
+): Promise<PriceEvent> => {
+  const event = await prisma.priceEvent.findUnique({ where: { id } });
+  if (!event) {
+    throw new PriceEventError('Price event not found', 404);
+  }
+
+  if (event.status === 'ENDED' || event.status === 'CANCELLED') {
+    throw new PriceEventError('Price events that have ended cannot be changed');
+  }
+
+  if (event.status === 'ACTIVE') {
+    const changesOtherFields = (['name', 'productId', 'categoryId', 'type', 'value', 'startsAt'] as const)
+      .some(field => input[field] !== undefined);
+    if (changesOtherFields || input.endsAt === undefined) {
+      throw new PriceEventError('Only endsAt can be changed while a price event is running');
+    }
+  }
+
+  const data = {
+    name: input.name ?? event.name,
+    productId: input.productId !== undefined ? input.productId || null : event.productId,
+    categoryId: input.categoryId !== undefined ? input.categoryId || null : event.categoryId,
+    type: input.type ?? event.type,
+    value: input.value !== undefined ? Number(input.value) : Number(event.value),
+    startsAt: input.startsAt ?? event.startsAt,
+    endsAt: input.endsAt !== undefined ? input.endsAt : event.endsAt
+  };
+
+  await validateEvent(data, id);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const saved = await tx.priceEvent.update({ where: { id }, data });
+
+    // Keep the sale end shown in listings in step with the event
+    if (event.status === 'ACTIVE') {
+      await tx.product.updateMany({
+        where: { priceEventId: id },
+        data: { saleEndsAt: data.endsAt }
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'UPDATE',
+        entity: 'PriceEvent',
+        entityId: id,
+        oldValues: event as any,
+        newValues: data as any
+      }
+    });
+
+    return saved;
+  });
+
+  return updated;
+};
+
+/**
+ * Apply a due event: set each covered product's price and derive originalPrice and discount from it.
+ * Products already in another running event keep that event. Events without an end are permanent
+ * price changes: the new price becomes the regular price and the event finishes straight away.
+ */
+export const applyPriceEvent = async (id: string): Promise<number> => {
+  return prisma.$transaction(async (tx) => {
+    // Claim the event so concurrent runs can't apply it twice
+    const claimed = await tx.priceEvent.updateMany({
+      where: { id, status: 'SCHEDULED' },
+      data: { status: 'ACTIVE', appliedAt: new Date() }
+    });
+    if (claimed.count === 0) return 0;
+
+    const event = await tx.priceEvent.findUniqueOrThrow({ where: { id } });
+    const productIds = await getEventProductIds(event, tx);
+    const products = await tx.product.findMany({
+      where: { id: { in: productIds }, priceEventId: null }
+    });
+
+    const changes = [];
+    for (const product of products) {
+      const regularPrice = Number(product.price);
+      const salePrice = calculateEventPrice(regularPrice, event.type, Number(event.value));
+      // Only a sale that ends shows the regular price it comes back to
+      const isSale = !!event.endsAt && salePrice < regularPrice;
+
+      await tx.priceEventItem.create({
+        data: {
+          priceEventId: id,
+          productId: product.id,
+          previousPrice: product.price,
+          previousOriginalPrice: product.originalPrice,
+          previousDiscount: product.discount,
+          salePrice
+        }
+      });
+
+      await tx.product.update({
+        where: { id: product.id },
+        data: {
+          price: salePrice,
+          originalPrice: isSale ? regularPrice : null,
+          discount: isSale ? Math.round((1 - salePrice / regularPrice) * 100) : null,
+          priceEventId: event.endsAt ? id : null,
+          saleEndsAt: isSale ? event.endsAt : null
+        }
+      });
+
+      await recordPriceChange({
+        productId: product.id,
+        previousPrice: product.price,
+        price: salePrice,
+        source: 'PRICE_EVENT',
+        priceEventId: id
+      }, tx);
+
+      changes.push({ productId: product.id, previousPrice: regularPrice, price: salePrice });
+    }
+
+    if (!event.endsAt) {
+      await tx.priceEvent.update({ where: { id }, data: { status: 'ENDED', endedAt: new Date() } });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: null,
+        action: 'PRICE_EVENT_APPLY',
+        entity: 'PriceEvent',
+        entityId: id,
+        newValues: {
+          products: changes,
+          skippedProductIds: productIds.filter(productId => !products.some(product => product.id === productId))
+        }
+      }
+    });
+
+    return changes.length;
+  });
+};
+
+/**
+ * Finish a running event and restore the prices it replaced. A product whose price was
+ * edited by hand during the event keeps the new price; only its sale fields are reset.
+ */
+export const endPriceEvent = async (
+  id: string,
+  status: 'ENDED' | 'CANCELLED' = 'ENDED',
+  userId?: string | null
+): Promise<number> => {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.priceEvent.updateMany({
+      where: { id, status: 'ACTIVE' },
+      data: { status, endedAt: new Date() }
+    });
+    if (claimed.count === 0) return 0;
+
+    const items = await tx.priceEventItem.findMany({
+      where: { priceEventId: id, restoredAt: null },
+      include: { product: { select: { price: true, priceEventId: true } } }
+    });
+
+    const restored = [];
+    for (const item of items) {
+      if (item.product.priceEventId !== id) continue;
+
+      const untouched = Number(item.product.price) === Number(item.salePrice);
+      await tx.product.update({
+        where: { id: item.productId },
+        data: {
+          ...(untouched ? { price: item.previousPrice } : {}),
+          originalPrice: item.previousOriginalPrice,
+          discount: item.previousDiscount,
+          priceEventId: null,
+          saleEndsAt: null
+        }
+      });
+      await tx.priceEventItem.update({ where: { id: item.id }, data: { restoredAt: new Date() } });
+
+      if (untouched) {
+        await recordPriceChange({
+          productId: item.productId,
+          previousPrice: item.product.price,
+          price: item.previousPrice,
+          source: 'PRICE_EVENT',
+          changedById: userId,
+          priceEventId: id
+        }, tx);
+      }
+
+      restored.push({
+        productId: item.productId,
+        previousPrice: Number(item.product.price),
+        price: untouched ? Number(item.previousPrice) : Number(item.product.price)
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: status === 'CANCELLED' ? 'PRICE_EVENT_CANCEL' : 'PRICE_EVENT_END',
+        entity: 'PriceEvent',
+        entityId: id,
+        newValues: { products: restored }
+      }
+    });
+
+    return restored.length;
+  });
+};
+
+/**
+ * Cancel an event. A running event is ended early and its prices restored.
+ */
+export const cancelPriceEvent = async (id: string, userId?: string | null): Promise<void> => {
+  const event = await prisma.priceEvent.findUnique({ where: { id } });
+  if (!event) {
+    throw new PriceEventError('Price event not found', 404);
+  }
+
+  if (event.status === 'ACTIVE') {
+    await endPriceEvent(id, 'CANCELLED', userId);
+    return;
+  }
+
+  if (event.status !== 'SCHEDULED') {
+    throw new PriceEventError('This price event has already ended');
+  }
+
+  await prisma.priceEvent.update({ where: { id }, data: { status: 'CANCELLED', endedAt: new Date() } });
+  await prisma.auditLog.create({
+    data: {
+      userId: userId || null,
+      action: 'PRICE_EVENT_CANCEL',
+      entity: 'PriceEvent',
+      entityId: id
+    }
+  });
+};
+
+/**
+ * End events that are over, then apply events that are due. Scheduled events whose whole
+ * window has already passed are closed without being applied.
+ */
+export const runDuePriceEvents = async (now: Date = new Date()): Promise<{ applied: number; ended: number }> => {
+  const dueToEnd = await prisma.priceEvent.findMany({
+    where: { status: 'ACTIVE', endsAt: { lte: now } },
+    select: { id: true },
+    orderBy: { endsAt: 'asc' }
+  });
+
+  for (const event of dueToEnd) {
+    await endPriceEvent(event.id);
+  }
+
+  await prisma.priceEvent.updateMany({
+    where: { status: 'SCHEDULED', endsAt: { lte: now } },
+    data: { status: 'ENDED', endedAt: now }
+  });
+
+  const dueToStart = await prisma.priceEvent.findMany({
+    where: { status: 'SCHEDULED', startsAt: { lte: now } },
+    select: { id: true },
+    orderBy: { startsAt: 'asc' }
+  });
+
+  for (const event of dueToStart) {
+    await applyPriceEvent(event.id);
+  }
+
+  return { applied: dueToStart.length, ended: dueToEnd.length };
+};
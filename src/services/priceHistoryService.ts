@@ -0,0 +1,121 @@
+import { PrismaClient, Prisma, PriceChangeSource } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PriceChange {
+  productId: string;
+  previousPrice: Prisma.Decimal | number | null; // null when the product is new
+  price: Prisma.Decimal | number;
+  source: PriceChangeSource;
+  changedById?: string | null;
+  priceEventId?: string | null;
+}
+
+export interface PriceHistoryPoint {
+  date: Date;
+  price: number;
+  source: PriceChangeSource | null; // null for the price already in effect when the range starts
+  changedBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+/**
+ * Record a change to Product.price. Call it in the same transaction as the update;
+ * it does nothing when the price didn't actually change.
+ */
+export const recordPriceChange = async (
+  change: PriceChange,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  if (change.previousPrice !== null && Number(change.previousPrice) === Number(change.price)) return;
+
+  await client.priceHistory.create({
+    data: {
+      productId: change.productId,
+      price: change.price,
+      previousPrice: change.previousPrice,
+      source: change.source,
+      changedById: change.changedById || null,
+      priceEventId: change.priceEventId || null
+    }
+  });
+};
+
+// Price in effect at a moment: the latest change before it, or else the price the first later change replaced
+const getPriceAt = async (productId: string, at: Date, currentPrice: number): Promise<number> => {
+  const before = await prisma.priceHistory.findFirst({
+    where: { productId, createdAt: { lte: at } },
+    orderBy: { createdAt: 'desc' },
+    select: { price: true }
+  });
+  if (before) return Number(before.price);
+
+  const after = await prisma.priceHistory.findFirst({
+    where: { productId, createdAt: { gt: at } },
+    orderBy: { createdAt: 'asc' },
+    select: { previousPrice: true }
+  });
+  return after?.previousPrice !== null && after?.previousPrice !== undefined ? Number(after.previousPrice) : currentPrice;
+};
+
+/**
+ * Lowest price the product had in the `days` days before its current price took effect, not
+ * counting the current price. A price that hasn't changed since the product was added is its own
+ * reference, as there is nothing earlier to compare with.
+ */
+export const getLowestPrice = async (
+  productId: string,
+  currentPrice: Prisma.Decimal | number,
+  days: number = 30
+): Promise<number> => {
+  const latest = await prisma.priceHistory.findFirst({
+    where: { productId },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+  });
+
+  if (!latest || latest.previousPrice === null) return Number(currentPrice);
+
+  // Every price in effect at some point in the window: the one the current price replaced and
+  // each earlier change inside the window, with the price it replaced
+  const since = new Date(latest.createdAt.getTime() - days * DAY_MS);
+  const changes = await prisma.priceHistory.findMany({
+    where: { productId, id: { not: latest.id }, createdAt: { gt: since, lte: latest.createdAt } },
+    select: { price: true, previousPrice: true }
+  });
+
+  const prices = changes.flatMap(change =>
+    change.previousPrice !== null ? [Number(change.price), Number(change.previousPrice)] : [Number(change.price)]
+  );
+
+  return Math.min(Number(latest.previousPrice), ...prices);
+};
+
+/**
+ * Price changes between two dates as chart points, starting with the price in effect at `from`
+ */
+export const getPriceHistory = async (
+  productId: string,
+  currentPrice: Prisma.Decimal | number,
+  from: Date,
+  to: Date = new Date()
+): Promise<PriceHistoryPoint[]> => {
+  const [startPrice, changes] = await Promise.all([
+    getPriceAt(productId, from, Number(currentPrice)),
+    prisma.priceHistory.findMany({
+      where: { productId, createdAt: { gt: from, lte: to } },
+      include: { changedBy: { select: { id: true, firstName: true, lastName: true } } },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  return [
+    { date: from, price: startPrice, source: null, changedBy: null },
+    ...changes.map(change => ({
+      date: change.createdAt,
+      price: Number(change.price),
+      source: change.source,
+      changedBy: change.changedBy
+    }))
+  ];
+};
@@ -0,0 +1,194 @@
+import { AppError } from '../types';
+import { Promotion } from '@prisma/client';
+import { DiscountCustomer, evaluateDiscountCode } from './discountService';
+import { applyPromotions, getActivePromotions } from './promotionService';
+import { getPricingSettings, PricingSettings } from './settingsService';
+
+export class PricingError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+  reason?: string;
+
+  constructor(message: string, statusCode: number = 400, reason?: string) {
+    super(message);
+    this.name = 'PricingError';
+    this.statusCode = statusCode;
+    this.reason = reason;
+  }
+}
+
+export interface PricingItemInput {
+  productId: string;
+  variantId?: string | null;
+  variantName?: string | null; // e.g. "Cherry / 12 pack"
+  sku?: string | null;
+  name: string;
+  unitPrice: number;
+  quantity: number;
+  category?: string | null; // Used by category-restricted discounts and promotions
+  flavors?: string[]; // Used by flavor-restricted promotions
+  onSale?: boolean; // Used by discounts that exclude marked-down products
+}
+
+export interface PricingLine extends PricingItemInput {
+  lineTotal: number;
+}
+
+export interface PricingAdjustment {
+  type: 'DISCOUNT_CODE' | 'PROMOTION';
+  appliesTo: 'ORDER' | 'SHIPPING';
+  code: string | null;
+  promotionId?: string;
+  label: string;
+  amount: number;
+}
+
+export interface PricingBreakdown {
+  lines: PricingLine[];
+  totalItems: number;
+  subtotal: number;
+  discounts: PricingAdjustment[];
+  promotions: PricingAdjustment[];
+  promotionAmount: number;
+  discountId: string | null;
+  discountCode: string | null;
+  codeDiscountAmount: number; // The discount code's share of discountAmount
+  discountAmount: number; // Promotions plus code, taken off the merchandise; waived shipping is not included
+  shipping: number;
+  tax: number;
+  taxRate: number;
+  total: number;
+}
+
+export interface PricingOptions {
+  discountCode?: string | null;
+  customer?: DiscountCustomer; // Who is redeeming, for per-customer discount rules
+  shippingAmount?: number | null; // A carrier rate the shopper picked, replaces the flat rate
+  settings?: PricingSettings;
+  promotions?: Promotion[]; // Defaults to the currently active promotions
+}
+
+const round = (value: number): number => parseFloat(value.toFixed(2));
+
+/**
+ * Whether a product is already marked down from its original price
+ */
+export const isOnSale = (product: { price: any; originalPrice?: any; discount?: number | null }): boolean =>
+  (!!product.originalPrice && Number(product.originalPrice) > Number(product.price)) ||
+  (product.discount || 0) > 0;
+
+/**
+ * Price a cart: subtotal, discounts, shipping, tax and total with a line-by-line breakdown.
+ * Cart, order creation and Stripe checkout all go through this so the numbers always agree.
+ */
+export const priceCart = async (
+  items: PricingItemInput[],
+  options: PricingOptions = {}
+): Promise<PricingBreakdown> => {
+  const settings = options.settings || (await getPricingSettings());
+
+  const lines: PricingLine[] = items.map(item => ({
+    productId: item.productId,
+    ...(item.variantId ? { variantId: item.variantId, variantName: item.variantName || null, sku: item.sku || null } : {}),
+    name: item.name,
+    unitPrice: round(Number(item.unitPrice)),
+    quantity: item.quantity,
+    lineTotal: round(Number(item.unitPrice) * item.quantity),
+    ...(item.category !== undefined ? { category: item.category } : {}),
+    ...(item.flavors !== undefined ? { flavors: item.flavors } : {}),
+    ...(item.onSale !== undefined ? { onSale: item.onSale } : {})
+  }));
+
+  const subtotal = round(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  const totalItems = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  let shipping = subtotal > settings.freeShippingThreshold ? 0 : settings.flatShippingRate;
+  if (options.shippingAmount !== undefined && options.shippingAmount !== null) {
+    shipping = Number(options.shippingAmount);
+  }
+  if (lines.length === 0) {
+    shipping = 0;
+  }
+
+  // Automatic promotions apply first; a code's minimum is then checked against what is left
+  const promotions: PricingAdjustment[] = applyPromotions(
+    options.promotions || (await getActivePromotions()),
+    lines
+  ).map(promotion => ({
+    type: 'PROMOTION',
+    appliesTo: 'ORDER',
+    code: null,
+    promotionId: promotion.promotionId,
+    label: promotion.name,
+    amount: promotion.amount
+  }));
+  const promotionAmount = round(Math.min(
+    subtotal,
+    promotions.reduce((sum, promotion) => sum + promotion.amount, 0)
+  ));
+
+  const discounts: PricingAdjustment[] = [...promotions];
+  let discountId: string | null = null;
+  let discountCode: string | null = null;
+
+  if (options.discountCode) {
+    const evaluation = await evaluateDiscountCode(options.discountCode, round(subtotal - promotionAmount), {
+      lines,
+      customer: options.customer
+    });
+    if (!evaluation.valid) {
+      throw new PricingError(evaluation.message || 'Invalid discount code', evaluation.statusCode, evaluation.reason);
+    }
+
+    const discount = evaluation.discount!;
+    discountId = discount.id;
+    discountCode = discount.code;
+
+    if (discount.type === 'FREE_SHIPPING') {
+      discounts.push({
+        type: 'DISCOUNT_CODE',
+        appliesTo: 'SHIPPING',
+        code: discountCode,
+        label: discount.name,
+        amount: round(shipping)
+      });
+      shipping = 0;
+    } else {
+      discounts.push({
+        type: 'DISCOUNT_CODE',
+        appliesTo: 'ORDER',
+        code: discountCode,
+        label: discount.name,
+        amount: evaluation.discountAmount
+      });
+    }
+  }
+
+  const discountAmount = round(Math.min(
+    subtotal,
+    discounts
+      .filter(discount => discount.appliesTo === 'ORDER')
+      .reduce((sum, discount) => sum + discount.amount, 0)
+  ));
+  const codeDiscountAmount = round(discountAmount - promotionAmount);
+
+  const tax = round((subtotal - discountAmount) * settings.taxRate);
+  const total = round(subtotal - discountAmount + shipping + tax);
+
+  return {
+    lines,
+    totalItems,
+    subtotal,
+    discounts,
+    promotions,
+    promotionAmount,
+    discountId,
+    discountCode,
+    codeDiscountAmount,
+    discountAmount,
+    shipping: round(shipping),
+    tax,
+    taxRate: settings.taxRate,
+    total
+  };
+};
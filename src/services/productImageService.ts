@@ -0,0 +1,232 @@
+import { PrismaClient, Prisma, ProductImage } from '@prisma/client';
+import { AppError } from '../types';
+import { getImageStorage, getStorageByName } from '../utils/imageStorage';
+
+const prisma = new PrismaClient();
+
+export class ProductImageError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'ProductImageError';
+    this.statusCode = statusCode;
+  }
+}
+
+const imageOrder: Prisma.ProductImageOrderByWithRelationInput[] = [{ sortOrder: 'asc' }, { createdAt: 'asc' }];
+
+/**
+ * Product images in display order
+ */
+export const getProductImages = (productId: string, client: Prisma.TransactionClient = prisma): Promise<ProductImage[]> =>
+  client.productImage.findMany({ where: { productId }, orderBy: imageOrder });
+
+/**
+ * Copy the primary image and the display order onto Product.image and Product.images,
+ * which listings, carts and emails read
+ */
+export const syncProductImageFields = async (
+  productId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  const images = await getProductImages(productId, client);
+  const primary = images.find(image => image.isPrimary) || images[0];
+
+  await client.product.update({
+    where: { id: productId },
+    data: {
+      image: primary?.url || '',
+      images: images.map(image => image.url)
+    }
+  });
+};
+
+/**
+ * Delete image files from their storage. Failures are logged rather than thrown,
+ * since the database rows are already gone by the time this runs.
+ */
+export const deleteImageAssets = async (images: Array<Pick<ProductImage, 'storage' | 'publicId'>>): Promise<void> => {
+  await Promise.all(images.map(async (image) => {
+    const storage = image.publicId ? getStorageByName(image.storage) : null;
+    if (!storage || !image.publicId) return;
+
+    try {
+      await storage.remove(image.publicId);
+    } catch (error) {
+      console.error(`Delete image asset ${image.storage}:${image.publicId} error:`, error);
+    }
+  }));
+};
+
+// Products created before images were tracked only have URL fields; give them rows
+// so new uploads are added to the existing gallery instead of replacing it
+const adoptLegacyImages = async (
+  product: { id: string; image: string; images: string[] },
+  client: Prisma.TransactionClient
+): Promise<number> => {
+  const urls = Array.from(new Set([product.image, ...(product.images || [])].filter(Boolean)));
+
+  await client.productImage.createMany({
+    data: urls.map((url, index) => ({
+      productId: product.id,
+      url,
+      storage: 'external',
+      sortOrder: index,
+      isPrimary: index === 0
+    }))
+  });
+
+  return urls.length;
+};
+
+/**
+ * Upload files and append them to the product's gallery. The first image a product gets becomes primary.
+ * Uploaded files are removed again if saving them fails.
+ */
+export const addProductImages = async (
+  productId: string,
+  files: Express.Multer.File[],
+  altTexts: Array<string | null | undefined> = []
+): Promise<ProductImage[]> => {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    select: { id: true, image: true, images: true }
+  });
+
+  if (!product) {
+    throw new ProductImageError('Product not found', 404);
+  }
+  if (files.length === 0) {
+    throw new ProductImageError('No image files provided');
+  }
+
+  const storage = getImageStorage();
+  const uploaded = await Promise.allSettled(files.map(file => storage.upload(file)));
+  const stored = uploaded.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+
+  if (stored.length < files.length) {
+    await deleteImageAssets(stored.map(image => ({ storage: storage.name, publicId: image.publicId })));
+    throw new ProductImageError('Failed to upload images', 502);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      let count = await tx.productImage.count({ where: { productId } });
+      if (count === 0) {
+        count = await adoptLegacyImages(product, tx);
+      }
+
+      const last = await tx.productImage.aggregate({ where: { productId }, _max: { sortOrder: true } });
+      const startOrder = (last._max.sortOrder ?? -1) + 1;
+
+      const created = [];
+      for (const [index, image] of stored.entries()) {
+        created.push(await tx.productImage.create({
+          data: {
+            productId,
+            url: image.url,
+            storage: storage.name,
+            publicId: image.publicId,
+            altText: altTexts[index]?.trim() || null,
+            sortOrder: startOrder + index,
+            isPrimary: count === 0 && index === 0
+          }
+        }));
+      }
+
+      await syncProductImageFields(productId, tx);
+      return created;
+    });
+  } catch (error) {
+    await deleteImageAssets(stored.map(image => ({ storage: storage.name, publicId: image.publicId })));
+    throw error;
+  }
+};
+
+/**
+ * Put a product's images in the given order. Every image of the product must be listed exactly once.
+ */
+export const reorderProductImages = async (productId: string, imageIds: string[]): Promise<ProductImage[]> => {
+  return prisma.$transaction(async (tx) => {
+    const images = await getProductImages(productId, tx);
+    const known = new Set(images.map(image => image.id));
+
+    if (
+      imageIds.length !== images.length ||
+      new Set(imageIds).size !== imageIds.length ||
+      imageIds.some(id => !known.has(id))
+    ) {
+      throw new ProductImageError('imageIds must list every image of this product exactly once');
+    }
+
+    for (const [index, id] of imageIds.entries()) {
+      await tx.productImage.update({ where: { id }, data: { sortOrder: index } });
+    }
+
+    await syncProductImageFields(productId, tx);
+    return getProductImages(productId, tx);
+  });
+};
+
+/**
+ * Change an image's alt text or make it the primary image
+ */
+export const updateProductImage = async (
+  productId: string,
+  imageId: string,
+  data: { altText?: string | null; isPrimary?: boolean }
+): Promise<ProductImage> => {
+  return prisma.$transaction(async (tx) => {
+    const image = await tx.productImage.findFirst({ where: { id: imageId, productId } });
+    if (!image) {
+      throw new ProductImageError('Image not found', 404);
+    }
+
+    if (data.isPrimary) {
+      await tx.productImage.updateMany({
+        where: { productId, isPrimary: true, NOT: { id: imageId } },
+        data: { isPrimary: false }
+      });
+    }
+
+    const updated = await tx.productImage.update({
+      where: { id: imageId },
+      data: {
+        ...(data.altText !== undefined ? { altText: data.altText?.trim() || null } : {}),
+        // Clearing the flag is ignored: a product always shows one primary image
+        ...(data.isPrimary ? { isPrimary: true } : {})
+      }
+    });
+
+    await syncProductImageFields(productId, tx);
+    return updated;
+  });
+};
+
+/**
+ * Remove an image from a product and delete its file. If it was primary, the next image takes over.
+ */
+export const removeProductImage = async (productId: string, imageId: string): Promise<void> => {
+  const image = await prisma.$transaction(async (tx) => {
+    const existing = await tx.productImage.findFirst({ where: { id: imageId, productId } });
+    if (!existing) {
+      throw new ProductImageError('Image not found', 404);
+    }
+
+    await tx.productImage.delete({ where: { id: imageId } });
+
+    if (existing.isPrimary) {
+      const next = await tx.productImage.findFirst({ where: { productId }, orderBy: imageOrder });
+      if (next) {
+        await tx.productImage.update({ where: { id: next.id }, data: { isPrimary: true } });
+      }
+    }
+
+    await syncProductImageFields(productId, tx);
+    return existing;
+  });
+
+  await deleteImageAssets([image]);
+};
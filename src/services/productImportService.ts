@@ -0,0 +1,379 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { parseCsv, readCsvCell, toCsv } from '../utils/csv';
+import { getProductCategoryData } from './categoryService';
+import { recordPriceChange } from './priceHistoryService';
+import { handleRestock } from './backInStockService';
+import { applyLocationStockChange, trimLotsToStock } from './stockLocationService';
+import { AppError } from '../types';
+
+const prisma = new PrismaClient();
+
+export class ProductImportError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'ProductImportError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Column order of the export; the import accepts any subset in any order as long as sku is present
+export const PRODUCT_CSV_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'shortDescription',
+  'price',
+  'originalPrice',
+  'discount',
+  'category',
+  'brand',
+  'flavors',
+  'weight',
+  'ingredients',
+  'allergens',
+  'nutritionFacts',
+  'stock',
+  'isActive',
+  'image',
+  'images'
+] as const;
+
+type ProductCsvColumn = typeof PRODUCT_CSV_COLUMNS[number];
+
+// Lists such as flavors and images share one cell, separated by this character
+const LIST_SEPARATOR = '|';
+
+// Columns a new product cannot be created without
+const REQUIRED_FOR_CREATE: ProductCsvColumn[] = ['name', 'description', 'price', 'category'];
+
+export interface ProductImportRowResult {
+  row: number; // Spreadsheet row number, the header being row 1
+  sku: string | null;
+  action: 'create' | 'update' | 'skip';
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  rows: ProductImportRowResult[];
+}
+
+const blankToNull = (value: unknown) => (typeof value === 'string' && value.trim() === '' ? null : value);
+
+const nullableNumber = (schema: z.ZodNumber) => z.preprocess(blankToNull, z.coerce.number().pipe(schema).nullable());
+
+const list = z.string().transform(value =>
+  value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)
+);
+
+const imageUrl = z.url({ protocol: /^https?$/, message: 'must be an http(s) URL' });
+
+const rowSchema = z.object({
+  sku: z.string().trim().min(1, 'sku is required'),
+  name: z.string().trim().min(1, 'name cannot be empty'),
+  description: z.string().trim().min(1, 'description cannot be empty'),
+  shortDescription: z.preprocess(blankToNull, z.string().trim().nullable()),
+  price: z.string().trim().min(1, 'price cannot be empty')
+    .pipe(z.coerce.number<string>({ message: 'price must be a number' }).min(0, 'price cannot be negative')),
+  originalPrice: nullableNumber(z.number().min(0, 'originalPrice cannot be negative')),
+  discount: nullableNumber(z.number().int('discount must be a whole number').min(0).max(100, 'discount must be between 0 and 100')),
+  category: z.string().trim().min(1, 'category cannot be empty'),
+  brand: z.preprocess(blankToNull, z.string().trim().nullable()),
+  flavors: list,
+  weight: z.preprocess(blankToNull, z.string().trim().nullable()),
+  ingredients: z.preprocess(blankToNull, z.string().trim().nullable()),
+  allergens: z.preprocess(blankToNull, z.string().trim().nullable()),
+  nutritionFacts: z.preprocess(blankToNull, z.string().nullable()).transform((value, ctx) => {
+    if (value === null) return null;
+    try {
+      const parsed = JSON.parse(value);
+      if (typeof parsed !== 'object' || Array.isArray(parsed) || parsed === null) throw new Error();
+      return parsed;
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: 'nutritionFacts must be a JSON object' });
+      return z.NEVER;
+    }
+  }),
+  stock: z.preprocess(blankToNull, z.coerce.number().int('stock must be a whole number').min(0, 'stock cannot be negative').nullable()),
+  isActive: z.preprocess(
+    value => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(['', 'true', 'false', '1', '0', 'yes', 'no'], { message: 'isActive must be true or false' })
+  ).transform(value => (value === '' ? null : ['true', '1', 'yes'].includes(value))),
+  image: z.preprocess(blankToNull, imageUrl.nullable()),
+  images: list.pipe(z.array(imageUrl))
+}).partial().required({ sku: true });
+
+type ProductRow = z.infer<typeof rowSchema>;
+
+// Map the header cells onto known columns, case-insensitively
+const readHeader = (header: string[]): { columns: Array<ProductCsvColumn | null>; unknown: string[] } => {
+  const known = new Map(PRODUCT_CSV_COLUMNS.map(column => [column.toLowerCase(), column]));
+  const unknown: string[] = [];
+
+  const columns = header.map(cell => {
+    const column = known.get(cell.trim().toLowerCase()) || null;
+    if (!column && cell.trim()) unknown.push(cell.trim());
+    return column;
+  });
+
+  return { columns, unknown };
+};
+
+/**
+ * Import products from CSV, creating or updating them by SKU. Only the columns present in the
+ * file are written, so a partial sheet (e.g. sku,price,stock) updates just those fields.
+ * Rows with errors are skipped and reported; with dryRun nothing is written.
+ */
+export const importProductsCsv = async (
+  text: string,
+  options: { dryRun?: boolean; userId?: string | null } = {}
+): Promise<ProductImportResult> => {
+  const dryRun = !!options.dryRun;
+  const [header = [], ...dataRows] = parseCsv(text);
+  const { columns, unknown } = readHeader(header);
+
+  if (!columns.includes('sku')) {
+    throw new ProductImportError('The CSV header must include a sku column');
+  }
+
+  const result: ProductImportResult = { dryRun, totalRows: 0, created: 0, updated: 0, skipped: 0, rows: [] };
+  const seenSkus = new Set<string>();
+
+  for (let index = 0; index < dataRows.length; index++) {
+    const cells = dataRows[index];
+    if (cells.every(cell => cell.trim() === '')) continue;
+
+    result.totalRows++;
+    const rowResult: ProductImportRowResult = {
+      row: index + 2,
+      sku: null,
+      action: 'skip',
+      errors: [],
+      warnings: index === 0 && unknown.length > 0 ? [`Ignored unknown columns: ${unknown.join(', ')}`] : []
+    };
+    result.rows.push(rowResult);
+
+    const raw: Record<string, string> = {};
+    columns.forEach((column, position) => {
+      if (column) raw[column] = readCsvCell(cells[position] ?? '');
+    });
+    rowResult.sku = raw.sku?.trim() || null;
+
+    const parsed = rowSchema.safeParse(raw);
+    if (!parsed.success) {
+      rowResult.errors = parsed.error.issues.map(issue => {
+        const field = String(issue.path[0] ?? '');
+        return field && !issue.message.startsWith(field) ? `${field}: ${issue.message}` : issue.message;
+      });
+      result.skipped++;
+      continue;
+    }
+
+    const row = parsed.data;
+
+    if (seenSkus.has(row.sku)) {
+      rowResult.errors.push(`sku ${row.sku} appears more than once in this file`);
+      result.skipped++;
+      continue;
+    }
+    seenSkus.add(row.sku);
+
+    try {
+      rowResult.action = await importRow(row, rowResult, dryRun, options.userId);
+      if (rowResult.action === 'create') result.created++;
+      if (rowResult.action === 'update') result.updated++;
+      if (rowResult.action === 'skip') result.skipped++;
+    } catch (error: any) {
+      console.error(`Product import row ${rowResult.row} error:`, error);
+      rowResult.action = 'skip';
+      rowResult.errors.push(error.code === 'P2002' ? 'Another product already uses this SKU or name' : 'Could not save this row');
+      result.skipped++;
+    }
+  }
+
+  if (!dryRun && (result.created > 0 || result.updated > 0)) {
+    await prisma.auditLog.create({
+      data: {
+        userId: options.userId || null,
+        action: 'IMPORT',
+        entity: 'Product',
+        entityId: 'csv',
+        newValues: {
+          totalRows: result.totalRows,
+          created: result.created,
+          updated: result.updated,
+          skipped: result.skipped
+        }
+      }
+    });
+  }
+
+  return result;
+};
+
+// Validate one parsed row against the database and write it unless this is a dry run
+const importRow = async (
+  row: ProductRow,
+  rowResult: ProductImportRowResult,
+  dryRun: boolean,
+  userId?: string | null
+): Promise<ProductImportRowResult['action']> => {
+  const existing = await prisma.product.findUnique({
+    where: { sku: row.sku },
+    include: { _count: { select: { variants: true, productImages: true } } }
+  });
+
+  if (!existing) {
+    const missing = REQUIRED_FOR_CREATE.filter(column => row[column] === undefined);
+    if (missing.length > 0) {
+      rowResult.errors.push(`New products need: ${missing.join(', ')}`);
+      return 'skip';
+    }
+  }
+
+  const data: Prisma.ProductUncheckedUpdateInput = {};
+
+  if (row.category !== undefined) {
+    const categoryData = await getProductCategoryData(row.category);
+    if (!categoryData) {
+      rowResult.errors.push(`category: "${row.category}" does not exist`);
+      return 'skip';
+    }
+    Object.assign(data, categoryData);
+  }
+
+  for (const column of ['name', 'description', 'shortDescription', 'price', 'originalPrice', 'discount', 'brand',
+    'flavors', 'weight', 'ingredients', 'allergens'] as const) {
+    if (row[column] !== undefined) (data as any)[column] = row[column];
+  }
+  if (row.nutritionFacts !== undefined) data.nutritionFacts = row.nutritionFacts ?? Prisma.DbNull;
+  if (row.isActive !== undefined && row.isActive !== null) data.isActive = row.isActive;
+
+  // Once a product has managed images, image and images follow them; those are changed through the image endpoints
+  const hasManagedImages = !!existing && existing._count.productImages > 0;
+  if (hasManagedImages && (row.image !== undefined || row.images !== undefined)) {
+    rowResult.warnings.push('images are managed on the product page for this product and were not changed');
+  } else if (row.image !== undefined || row.images !== undefined) {
+    if (row.images !== undefined) data.images = row.images;
+
+    // The main image falls back to the first gallery image
+    const image = row.image ?? row.images?.[0];
+    if (image) data.image = image;
+  }
+
+  // The stock column is a count on hand; the change it makes is worked out under the product lock
+  const importStock = row.stock !== undefined && row.stock !== null ? row.stock : null;
+  if (importStock !== null && existing && existing._count.variants > 0) {
+    rowResult.warnings.push('stock is managed per variant for this product and was not changed');
+  }
+
+  if (dryRun) {
+    return existing ? 'update' : 'create';
+  }
+
+  const { product, previousStock } = await prisma.$transaction(async (tx) => {
+    let stockChange = 0;
+    let previousStock = 0;
+
+    if (existing) {
+      await tx.$queryRaw`SELECT id FROM products WHERE id = ${existing.id} FOR UPDATE`;
+      const current = await tx.product.findUnique({
+        where: { id: existing.id },
+        select: { stock: true, _count: { select: { variants: true } } }
+      });
+      previousStock = current?.stock ?? existing.stock;
+
+      if (importStock !== null && current && current._count.variants === 0) {
+        stockChange = importStock - current.stock;
+        data.stock = { increment: stockChange };
+      }
+    } else if (importStock !== null) {
+      stockChange = importStock;
+      data.stock = importStock;
+    }
+
+    const saved = existing
+      ? await tx.product.update({ where: { id: existing.id }, data })
+      : await tx.product.create({
+          data: {
+            ...(data as Prisma.ProductUncheckedCreateInput),
+            sku: row.sku,
+            image: (data.image as string) || ''
+          }
+        });
+
+    if (data.price !== undefined) {
+      await recordPriceChange({
+        productId: saved.id,
+        previousPrice: existing ? existing.price : null,
+        price: saved.price,
+        source: 'IMPORT',
+        changedById: userId
+      }, tx);
+    }
+
+    if (stockChange !== 0) {
+      const locationChanges = await applyLocationStockChange(tx, { productId: saved.id, quantity: stockChange });
+      const entries = locationChanges.length > 0 ? locationChanges : [{ locationId: null, quantity: stockChange }];
+
+      for (const entry of entries) {
+        await tx.inventoryLog.create({
+          data: {
+            productId: saved.id,
+            locationId: entry.locationId,
+            type: existing ? 'ADJUSTMENT' : 'STOCK_IN',
+            quantity: entry.quantity,
+            reason: 'CSV import'
+          }
+        });
+      }
+
+      if (stockChange < 0) {
+        await trimLotsToStock(tx, { productId: saved.id }, locationChanges);
+      }
+    }
+
+    return { product: saved, previousStock };
+  });
+
+  if (existing) {
+    await handleRestock(product.id, previousStock, product.stock);
+  }
+
+  return existing ? 'update' : 'create';
+};
+
+/**
+ * Export the whole catalog, including inactive products, in the import format
+ */
+export const exportProductsCsv = async (): Promise<string> => {
+  const products = await prisma.product.findMany({
+    orderBy: [{ name: 'asc' }, { id: 'asc' }]
+  });
+
+  const rows = products.map(product => PRODUCT_CSV_COLUMNS.map(column => {
+    switch (column) {
+      case 'flavors':
+      case 'images':
+        return (product[column] || []).join(LIST_SEPARATOR);
+      case 'nutritionFacts':
+        return product.nutritionFacts ? JSON.stringify(product.nutritionFacts) : '';
+      case 'price':
+      case 'originalPrice':
+        return product[column] !== null ? Number(product[column]).toFixed(2) : '';
+      default:
+        return product[column];
+    }
+  }));
+
+  return toCsv([[...PRODUCT_CSV_COLUMNS], ...rows]);
+};
@@ -0,0 +1,204 @@
+import { PrismaClient, Promotion } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface PromotionLine {
+  productId: string;
+  unitPrice: number;
+  quantity: number;
+  category?: string | null;
+  flavors?: string[];
+}
+
+export interface PromotionTier {
+  minimumAmount: number;
+  percentOff: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  type: Promotion['type'];
+  amount: number;
+}
+
+// One physical item in the cart, so item-level promotions never discount the same unit twice
+interface PromotionUnit {
+  line: PromotionLine;
+  price: number;
+  savings: number;
+  claimed: boolean;
+}
+
+const round = (value: number): number => parseFloat(value.toFixed(2));
+
+/**
+ * Promotions that are switched on and inside their date window, highest priority first
+ */
+export const getActivePromotions = async (): Promise<Promotion[]> => {
+  const now = new Date();
+
+  return prisma.promotion.findMany({
+    where: {
+      isActive: true,
+      AND: [
+        { OR: [{ startDate: null }, { startDate: { lte: now } }] },
+        { OR: [{ endDate: null }, { endDate: { gte: now } }] }
+      ]
+    },
+    orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+  });
+};
+
+const isEligibleLine = (promotion: Promotion, line: PromotionLine): boolean => {
+  if (promotion.productIds.length > 0 && !promotion.productIds.includes(line.productId)) {
+    return false;
+  }
+
+  const categories = promotion.categories.map(category => category.toLowerCase());
+  if (categories.length > 0 && !categories.includes((line.category || '').toLowerCase())) {
+    return false;
+  }
+
+  const flavors = promotion.flavors.map(flavor => flavor.toLowerCase());
+  if (flavors.length > 0 && !(line.flavors || []).some(flavor => flavors.includes(flavor.toLowerCase()))) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Parse the stored tier list, ignoring malformed entries
+ */
+export const parsePromotionTiers = (tiers: unknown): PromotionTier[] => {
+  if (!Array.isArray(tiers)) return [];
+
+  return tiers
+    .map((tier: any) => ({
+      minimumAmount: Number(tier?.minimumAmount),
+      percentOff: Number(tier?.percentOff)
+    }))
+    .filter(tier => Number.isFinite(tier.minimumAmount) && Number.isFinite(tier.percentOff) && tier.percentOff > 0)
+    .sort((a, b) => b.minimumAmount - a.minimumAmount);
+};
+
+const applyPromotion = (promotion: Promotion, units: PromotionUnit[]): number => {
+  const eligible = units.filter(unit => isEligibleLine(promotion, unit.line));
+
+  switch (promotion.type) {
+    case 'BUY_X_GET_Y': {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      const percentOff = Math.min(100, promotion.getPercentOff ?? 100);
+      if (buy <= 0 || get <= 0) return 0;
+
+      // Most expensive first, so in each group the cheapest items are the free ones
+      const available = eligible.filter(unit => !unit.claimed).sort((a, b) => b.price - a.price);
+      const groupSize = buy + get;
+      let savings = 0;
+
+      for (let start = 0; start + groupSize <= available.length; start += groupSize) {
+        const group = available.slice(start, start + groupSize);
+        group.forEach(unit => { unit.claimed = true; });
+
+        for (const unit of group.slice(buy)) {
+          const unitSavings = (unit.price * percentOff) / 100;
+          unit.savings += unitSavings;
+          savings += unitSavings;
+        }
+      }
+
+      return savings;
+    }
+
+    case 'BUNDLE_PRICE': {
+      const size = promotion.bundleQuantity || 0;
+      const bundlePrice = Number(promotion.bundlePrice);
+      if (size <= 0 || !Number.isFinite(bundlePrice)) return 0;
+
+      const available = eligible.filter(unit => !unit.claimed).sort((a, b) => b.price - a.price);
+      let savings = 0;
+
+      for (let start = 0; start + size <= available.length; start += size) {
+        const bundle = available.slice(start, start + size);
+        const regular = bundle.reduce((sum, unit) => sum + unit.price, 0);
+        if (regular <= bundlePrice) continue;
+
+        // Spread the bundle saving over its items in proportion to their price
+        const bundleSavings = regular - bundlePrice;
+        bundle.forEach(unit => {
+          unit.claimed = true;
+          unit.savings += (bundleSavings * unit.price) / regular;
+        });
+        savings += bundleSavings;
+      }
+
+      return savings;
+    }
+
+    case 'SPEND_THRESHOLD': {
+      const eligibleAmount = eligible.reduce((sum, unit) => sum + unit.price - unit.savings, 0);
+      const tier = parsePromotionTiers(promotion.tiers).find(t => eligibleAmount >= t.minimumAmount);
+      if (!tier) return 0;
+
+      const percentOff = Math.min(100, tier.percentOff);
+      eligible.forEach(unit => {
+        unit.savings += ((unit.price - unit.savings) * percentOff) / 100;
+      });
+
+      return (eligibleAmount * percentOff) / 100;
+    }
+
+    default:
+      return 0;
+  }
+};
+
+const runPromotions = (promotions: Promotion[], lines: PromotionLine[]): AppliedPromotion[] => {
+  const units: PromotionUnit[] = lines.flatMap(line =>
+    Array.from({ length: line.quantity }, () => ({
+      line,
+      price: Number(line.unitPrice),
+      savings: 0,
+      claimed: false
+    }))
+  );
+
+  const applied: AppliedPromotion[] = [];
+  for (const promotion of promotions) {
+    const amount = round(applyPromotion(promotion, units));
+    if (amount > 0) {
+      applied.push({
+        promotionId: promotion.id,
+        name: promotion.name,
+        type: promotion.type,
+        amount
+      });
+    }
+  }
+
+  return applied;
+};
+
+const totalSavings = (applied: AppliedPromotion[]): number =>
+  applied.reduce((sum, promotion) => sum + promotion.amount, 0);
+
+/**
+ * Work out which promotions a cart qualifies for and what each one saves.
+ * Exclusive promotions never combine; the shopper gets whichever outcome saves the most.
+ */
+export const applyPromotions = (promotions: Promotion[], lines: PromotionLine[]): AppliedPromotion[] => {
+  if (promotions.length === 0 || lines.length === 0) return [];
+
+  let best = runPromotions(promotions.filter(promotion => !promotion.isExclusive), lines);
+
+  for (const promotion of promotions.filter(p => p.isExclusive)) {
+    const alone = runPromotions([promotion], lines);
+    if (totalSavings(alone) > totalSavings(best)) {
+      best = alone;
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,427 @@
+import { PrismaClient, Prisma, PurchaseOrder } from '@prisma/client';
+import { AppError } from '../types';
+import { assertStockTarget, receiveStock } from './lotService';
+import { handleRestock } from './backInStockService';
+
+const prisma = new PrismaClient();
+
+// Purchase orders whose outstanding units still count as incoming stock
+export const OPEN_PURCHASE_ORDER_STATUSES = ['ORDERED', 'PARTIALLY_RECEIVED'] as const;
+
+export class PurchaseOrderError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface PurchaseOrderItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  unitCost?: number | null;
+  expectedAt?: Date | null;
+}
+
+export interface PurchaseOrderInput {
+  supplierId?: string;
+  locationId?: string | null;
+  expectedAt?: Date | null;
+  notes?: string | null;
+  items?: PurchaseOrderItemInput[];
+}
+
+export interface ReceiptLine {
+  itemId: string;
+  quantity: number;
+  lotNumber?: string | null;
+  bestBy?: Date | null;
+}
+
+export const purchaseOrderInclude = Prisma.validator<Prisma.PurchaseOrderInclude>()({
+  supplier: { select: { id: true, name: true, email: true } },
+  location: { select: { id: true, name: true, code: true } },
+  items: {
+    include: {
+      product: { select: { id: true, name: true, sku: true, image: true } },
+      variant: { select: { id: true, name: true, sku: true } }
+    },
+    orderBy: { createdAt: 'asc' }
+  }
+});
+
+const lockPurchaseOrder = (tx: Prisma.TransactionClient, id: string) =>
+  tx.$queryRaw`SELECT id FROM purchase_orders WHERE id = ${id} FOR UPDATE`;
+
+// Check the supplier, delivery location and lines of a new or edited purchase order
+const validatePurchaseOrder = async (input: PurchaseOrderInput): Promise<void> => {
+  if (input.supplierId) {
+    const supplier = await prisma.supplier.findUnique({ where: { id: input.supplierId } });
+    if (!supplier || !supplier.isActive) {
+      throw new PurchaseOrderError('Supplier not found', 404);
+    }
+  }
+
+  if (input.locationId) {
+    const location = await prisma.stockLocation.findUnique({ where: { id: input.locationId } });
+    if (!location || !location.isActive) {
+      throw new PurchaseOrderError('Stock location not found', 404);
+    }
+  }
+
+  if (input.items) {
+    if (input.items.length === 0) {
+      throw new PurchaseOrderError('A purchase order needs at least one item');
+    }
+
+    for (const item of input.items) {
+      if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+        throw new PurchaseOrderError('Item quantities must be positive whole numbers');
+      }
+      try {
+        await assertStockTarget(item.productId, item.variantId);
+      } catch (error: any) {
+        throw new PurchaseOrderError(error.message, error.statusCode);
+      }
+    }
+  }
+};
+
+const toItemData = (items: PurchaseOrderItemInput[]) =>
+  items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId || null,
+    quantityOrdered: item.quantity,
+    unitCost: item.unitCost ?? null,
+    expectedAt: item.expectedAt || null
+  }));
+
+/**
+ * Start a purchase order as a draft. Without an expected date, the supplier's lead time sets one.
+ */
+export const createPurchaseOrder = async (input: PurchaseOrderInput, userId?: string): Promise<PurchaseOrder> => {
+  if (!input.supplierId) {
+    throw new PurchaseOrderError('Supplier is required');
+  }
+  if (!input.items) {
+    throw new PurchaseOrderError('A purchase order needs at least one item');
+  }
+
+  await validatePurchaseOrder(input);
+
+  const supplier = await prisma.supplier.findUnique({ where: { id: input.supplierId }, select: { leadTimeDays: true } });
+  const expectedAt = input.expectedAt !== undefined
+    ? input.expectedAt
+    : supplier?.leadTimeDays ? new Date(Date.now() + supplier.leadTimeDays * 24 * 60 * 60 * 1000) : null;
+
+  const poNumber = `PO-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+
+  return prisma.$transaction(async (tx) => {
+    const purchaseOrder = await tx.purchaseOrder.create({
+      data: {
+        poNumber,
+        supplierId: input.supplierId as string,
+        locationId: input.locationId || null,
+        expectedAt,
+        notes: input.notes || null,
+        createdById: userId || null,
+        items: { create: toItemData(input.items as PurchaseOrderItemInput[]) }
+      },
+      include: purchaseOrderInclude
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'CREATE',
+        entity: 'PurchaseOrder',
+        entityId: purchaseOrder.id,
+        newValues: input as any
+      }
+    });
+
+    return purchaseOrder;
+  });
+};
+
+/**
+ * Edit a purchase order. Drafts can change everything; once ordered only the expected date,
+ * delivery location and notes can change, and nothing can change after it is closed.
+ */
+export const updatePurchaseOrder = async (id: string, input: PurchaseOrderInput, userId?: string): Promise<PurchaseOrder> => {
+  const purchaseOrder = await prisma.purchaseOrder.findUnique({ where: { id } });
+  if (!purchaseOrder) {
+    throw new PurchaseOrderError('Purchase order not found', 404);
+  }
+
+  if (purchaseOrder.status === 'RECEIVED' || purchaseOrder.status === 'CANCELLED') {
+    throw new PurchaseOrderError(`This purchase order is ${purchaseOrder.status.toLowerCase()} and can no longer change`);
+  }
+
+  if (purchaseOrder.status !== 'DRAFT' && (input.supplierId !== undefined || input.items !== undefined)) {
+    throw new PurchaseOrderError('Only the expected date, location and notes can change once a purchase order is placed');
+  }
+
+  await validatePurchaseOrder(input);
+
+  return prisma.$transaction(async (tx) => {
+    await lockPurchaseOrder(tx, id);
+
+    // Placed, received or cancelled while this edit was being checked
+    const current = await tx.purchaseOrder.findUnique({ where: { id }, select: { status: true } });
+    if (current?.status !== purchaseOrder.status) {
+      throw new PurchaseOrderError('This purchase order changed while you were editing it', 409);
+    }
+
+    if (input.items) {
+      await tx.purchaseOrderItem.deleteMany({ where: { purchaseOrderId: id } });
+    }
+
+    const saved = await tx.purchaseOrder.update({
+      where: { id },
+      data: {
+        ...(input.supplierId !== undefined ? { supplierId: input.supplierId } : {}),
+        ...(input.locationId !== undefined ? { locationId: input.locationId || null } : {}),
+        ...(input.expectedAt !== undefined ? { expectedAt: input.expectedAt } : {}),
+        ...(input.notes !== undefined ? { notes: input.notes } : {}),
+        ...(input.items ? { items: { create: toItemData(input.items) } } : {})
+      },
+      include: purchaseOrderInclude
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'UPDATE',
+        entity: 'PurchaseOrder',
+        entityId: id,
+        oldValues: purchaseOrder as any,
+        newValues: input as any
+      }
+    });
+
+    return saved;
+  });
+};
+
+/**
+ * Mark a draft as sent to the supplier, after which its units count as incoming
+ */
+export const placePurchaseOrder = async (id: string, userId?: string): Promise<PurchaseOrder> => {
+  const claimed = await prisma.purchaseOrder.updateMany({
+    where: { id, status: 'DRAFT' },
+    data: { status: 'ORDERED', orderedAt: new Date() }
+  });
+
+  if (claimed.count === 0) {
+    const exists = await prisma.purchaseOrder.findUnique({ where: { id }, select: { id: true } });
+    throw exists
+      ? new PurchaseOrderError('Only draft purchase orders can be placed')
+      : new PurchaseOrderError('Purchase order not found', 404);
+  }
+
+  await prisma.auditLog.create({
+    data: { userId: userId || null, action: 'PURCHASE_ORDER_PLACE', entity: 'PurchaseOrder', entityId: id }
+  });
+
+  return prisma.purchaseOrder.findUniqueOrThrow({ where: { id }, include: purchaseOrderInclude });
+};
+
+/**
+ * Cancel a purchase order. Units already received stay in stock; the rest stop counting as incoming.
+ */
+export const cancelPurchaseOrder = async (id: string, userId?: string): Promise<PurchaseOrder> => {
+  const claimed = await prisma.purchaseOrder.updateMany({
+    where: { id, status: { in: ['DRAFT', ...OPEN_PURCHASE_ORDER_STATUSES] } },
+    data: { status: 'CANCELLED' }
+  });
+
+  if (claimed.count === 0) {
+    const exists = await prisma.purchaseOrder.findUnique({ where: { id }, select: { id: true } });
+    throw exists
+      ? new PurchaseOrderError('This purchase order is already closed')
+      : new PurchaseOrderError('Purchase order not found', 404);
+  }
+
+  await prisma.auditLog.create({
+    data: { userId: userId || null, action: 'PURCHASE_ORDER_CANCEL', entity: 'PurchaseOrder', entityId: id }
+  });
+
+  return prisma.purchaseOrder.findUniqueOrThrow({ where: { id }, include: purchaseOrderInclude });
+};
+
+/**
+ * Receive some or all outstanding units of a placed purchase order. Each line goes into stock at
+ * the order's delivery location (or the given one) with a STOCK_IN log whose referenceId is the
+ * purchase order, and into a new lot when a lot number is given. The order becomes
+ * PARTIALLY_RECEIVED or, once nothing is outstanding, RECEIVED.
+ */
+export const receivePurchaseOrder = async (
+  id: string,
+  receipt: { lines: ReceiptLine[]; locationId?: string | null; notes?: string | null },
+  userId?: string
+): Promise<PurchaseOrder> => {
+  if (receipt.lines.length === 0) {
+    throw new PurchaseOrderError('Nothing to receive');
+  }
+
+  for (const line of receipt.lines) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new PurchaseOrderError('Received quantities must be positive whole numbers');
+    }
+  }
+
+  // Stock received somewhere else than planned has to land there, not at the default location
+  if (receipt.locationId) {
+    const location = await prisma.stockLocation.findUnique({ where: { id: receipt.locationId } });
+    if (!location || !location.isActive) {
+      throw new PurchaseOrderError('Stock location not found', 404);
+    }
+  }
+
+  const restocks = new Map<string, { previousStock: number; newStock: number }>();
+
+  const purchaseOrder = await prisma.$transaction(async (tx) => {
+    await lockPurchaseOrder(tx, id);
+
+    const purchaseOrder = await tx.purchaseOrder.findUnique({ where: { id }, include: { items: true } });
+    if (!purchaseOrder) {
+      throw new PurchaseOrderError('Purchase order not found', 404);
+    }
+
+    if (!(OPEN_PURCHASE_ORDER_STATUSES as readonly string[]).includes(purchaseOrder.status)) {
+      throw new PurchaseOrderError(purchaseOrder.status === 'DRAFT'
+        ? 'Place the purchase order before receiving it'
+        : `This purchase order is ${purchaseOrder.status.toLowerCase()}`);
+    }
+
+    const items = new Map(purchaseOrder.items.map(item => [item.id, item]));
+    const received = new Map<string, number>();
+
+    for (const line of receipt.lines) {
+      const item = items.get(line.itemId);
+      if (!item) {
+        throw new PurchaseOrderError('Purchase order item not found', 404);
+      }
+
+      const outstanding = item.quantityOrdered - item.quantityReceived - (received.get(item.id) || 0);
+      if (line.quantity > outstanding) {
+        throw new PurchaseOrderError(`Only ${outstanding} units of this item are still outstanding`);
+      }
+
+      const { previousStock, newStock } = await receiveStock(tx, {
+        productId: item.productId,
+        variantId: item.variantId,
+        locationId: receipt.locationId || purchaseOrder.locationId,
+        quantity: line.quantity,
+        lotNumber: line.lotNumber,
+        bestBy: line.bestBy,
+        reason: `Received on ${purchaseOrder.poNumber}`,
+        referenceId: purchaseOrder.id,
+        notes: receipt.notes
+      });
+
+      const restock = restocks.get(item.productId);
+      restocks.set(item.productId, { previousStock: restock ? restock.previousStock : previousStock, newStock });
+
+      await tx.purchaseOrderItem.update({
+        where: { id: item.id },
+        data: { quantityReceived: { increment: line.quantity } }
+      });
+      received.set(item.id, (received.get(item.id) || 0) + line.quantity);
+    }
+
+    const complete = purchaseOrder.items.every(
+      item => item.quantityReceived + (received.get(item.id) || 0) >= item.quantityOrdered
+    );
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'PURCHASE_ORDER_RECEIVE',
+        entity: 'PurchaseOrder',
+        entityId: id,
+        newValues: { lines: receipt.lines, locationId: receipt.locationId || null } as any
+      }
+    });
+
+    return tx.purchaseOrder.update({
+      where: { id },
+      data: complete
+        ? { status: 'RECEIVED', receivedAt: new Date() }
+        : { status: 'PARTIALLY_RECEIVED' },
+      include: purchaseOrderInclude
+    });
+  });
+
+  for (const [productId, { previousStock, newStock }] of restocks) {
+    await handleRestock(productId, previousStock, newStock);
+  }
+
+  return purchaseOrder;
+};
+
+export interface IncomingStock {
+  quantity: number;
+  nextExpectedAt: Date | null;
+  purchaseOrders: Array<{
+    id: string;
+    poNumber: string;
+    supplier: string;
+    variantId: string | null;
+    outstanding: number;
+    expectedAt: Date | null;
+  }>;
+}
+
+/**
+ * Units still due on placed purchase orders, per product, with the orders they are due on
+ */
+export const getIncomingStock = async (productIds?: string[]): Promise<Map<string, IncomingStock>> => {
+  const items = await prisma.purchaseOrderItem.findMany({
+    where: {
+      purchaseOrder: { status: { in: [...OPEN_PURCHASE_ORDER_STATUSES] } },
+      ...(productIds ? { productId: { in: productIds } } : {})
+    },
+    include: {
+      purchaseOrder: {
+        select: { id: true, poNumber: true, expectedAt: true, supplier: { select: { name: true } } }
+      }
+    }
+  });
+
+  const incoming = new Map<string, IncomingStock>();
+
+  for (const item of items) {
+    const outstanding = item.quantityOrdered - item.quantityReceived;
+    if (outstanding <= 0) continue;
+
+    const expectedAt = item.expectedAt || item.purchaseOrder.expectedAt;
+    const entry = incoming.get(item.productId) || { quantity: 0, nextExpectedAt: null, purchaseOrders: [] };
+
+    entry.quantity += outstanding;
+    if (expectedAt && (!entry.nextExpectedAt || expectedAt < entry.nextExpectedAt)) {
+      entry.nextExpectedAt = expectedAt;
+    }
+    entry.purchaseOrders.push({
+      id: item.purchaseOrder.id,
+      poNumber: item.purchaseOrder.poNumber,
+      supplier: item.purchaseOrder.supplier.name,
+      variantId: item.variantId,
+      outstanding,
+      expectedAt
+    });
+
+    incoming.set(item.productId, entry);
+  }
+
+  for (const entry of incoming.values()) {
+    entry.purchaseOrders.sort((a, b) => (a.expectedAt?.getTime() ?? Infinity) - (b.expectedAt?.getTime() ?? Infinity));
+  }
+
+  return incoming;
+};
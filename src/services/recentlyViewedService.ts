@@ -0,0 +1,145 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Most products returned by the recently viewed list
+export const RECENTLY_VIEWED_LIMIT = 20;
+
+// Views kept per shopper; older ones are pruned as new ones arrive
+const MAX_STORED_VIEWS = 50;
+
+// A user, or an anonymous visitor identified by the visitorToken cookie
+export type Viewer = { userId: string; visitorToken?: null } | { userId?: null; visitorToken: string };
+
+const viewerWhere = (viewer: Viewer): Prisma.ProductViewWhereInput =>
+  viewer.userId ? { userId: viewer.userId } : { visitorToken: viewer.visitorToken };
+
+const viewedProductSelect = Prisma.validator<Prisma.ProductSelect>()({
+  id: true,
+  name: true,
+  shortDescription: true,
+  price: true,
+  originalPrice: true,
+  discount: true,
+  saleEndsAt: true,
+  image: true,
+  category: true,
+  brand: true,
+  rating: true,
+  reviewCount: true,
+  stock: true
+});
+
+// Drop the viewer's oldest views beyond the stored limit
+const pruneViews = async (viewer: Viewer, client: Prisma.TransactionClient = prisma): Promise<void> => {
+  const stale = await client.productView.findMany({
+    where: viewerWhere(viewer),
+    orderBy: [{ viewedAt: 'desc' }, { id: 'desc' }],
+    skip: MAX_STORED_VIEWS,
+    select: { id: true }
+  });
+
+  if (stale.length > 0) {
+    await client.productView.deleteMany({ where: { id: { in: stale.map(view => view.id) } } });
+  }
+};
+
+/**
+ * Record that a product was viewed, moving it to the front of the viewer's list
+ */
+export const recordProductView = async (productId: string, viewer: Viewer, viewedAt: Date = new Date()): Promise<void> => {
+  const where: Prisma.ProductViewWhereUniqueInput = viewer.userId
+    ? { userId_productId: { userId: viewer.userId, productId } }
+    : { visitorToken_productId: { visitorToken: viewer.visitorToken as string, productId } };
+
+  try {
+    await prisma.productView.upsert({
+      where,
+      update: { viewedAt, viewCount: { increment: 1 } },
+      create: {
+        productId,
+        userId: viewer.userId || null,
+        visitorToken: viewer.userId ? null : viewer.visitorToken,
+        viewedAt
+      }
+    });
+  } catch (error: any) {
+    // Two simultaneous first views both tried to create the row; one of them is enough
+    if (error.code !== 'P2002') throw error;
+  }
+
+  await pruneViews(viewer);
+};
+
+/**
+ * Products the viewer looked at most recently, newest first, leaving out inactive products
+ */
+export const getRecentlyViewed = async (
+  viewer: Viewer,
+  options: { limit?: number; excludeProductId?: string } = {}
+) => {
+  const limit = Math.min(options.limit || RECENTLY_VIEWED_LIMIT, RECENTLY_VIEWED_LIMIT);
+
+  const views = await prisma.productView.findMany({
+    where: {
+      ...viewerWhere(viewer),
+      product: { isActive: true },
+      ...(options.excludeProductId ? { NOT: { productId: options.excludeProductId } } : {})
+    },
+    include: { product: { select: viewedProductSelect } },
+    orderBy: [{ viewedAt: 'desc' }, { id: 'desc' }],
+    take: limit
+  });
+
+  return views.map(view => ({
+    ...view.product,
+    viewedAt: view.viewedAt,
+    viewCount: view.viewCount
+  }));
+};
+
+/**
+ * Forget everything the viewer has looked at
+ */
+export const clearRecentlyViewed = async (viewer: Viewer): Promise<number> => {
+  const { count } = await prisma.productView.deleteMany({ where: viewerWhere(viewer) });
+  return count;
+};
+
+/**
+ * Move a visitor's views onto a user at sign-in, keeping the later view time for products both saw
+ */
+export const mergeGuestViews = async (visitorToken: string, userId: string): Promise<number> => {
+  return prisma.$transaction(async (tx) => {
+    const guestViews = await tx.productView.findMany({ where: { visitorToken } });
+    if (guestViews.length === 0) return 0;
+
+    const userViews = await tx.productView.findMany({
+      where: { userId, productId: { in: guestViews.map(view => view.productId) } }
+    });
+    const userViewByProduct = new Map(userViews.map(view => [view.productId, view]));
+
+    for (const guestView of guestViews) {
+      const userView = userViewByProduct.get(guestView.productId);
+
+      if (userView) {
+        await tx.productView.update({
+          where: { id: userView.id },
+          data: {
+            viewCount: userView.viewCount + guestView.viewCount,
+            viewedAt: guestView.viewedAt > userView.viewedAt ? guestView.viewedAt : userView.viewedAt
+          }
+        });
+        await tx.productView.delete({ where: { id: guestView.id } });
+      } else {
+        await tx.productView.update({
+          where: { id: guestView.id },
+          data: { userId, visitorToken: null }
+        });
+      }
+    }
+
+    await pruneViews({ userId }, tx);
+    return guestViews.length;
+  });
+};
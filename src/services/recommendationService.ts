@@ -0,0 +1,144 @@
+import { PrismaClient, Prisma, RecommendationType } from '@prisma/client';
+import { withAvailableStock } from './inventoryService';
+
+const prisma = new PrismaClient();
+
+// How many related products are cached per product and type
+const MAX_RECOMMENDATIONS = 20;
+
+// Orders older than this no longer say much about what sells together
+const CO_PURCHASE_LOOKBACK_DAYS = 365;
+
+interface RecommendationRow {
+  productId: string;
+  relatedProductId: string;
+  score: number;
+}
+
+// Fields shown for each recommended product
+const relatedProductSelect = Prisma.validator<Prisma.ProductSelect>()({
+  id: true,
+  name: true,
+  shortDescription: true,
+  price: true,
+  originalPrice: true,
+  discount: true,
+  saleEndsAt: true,
+  image: true,
+  category: true,
+  brand: true,
+  flavors: true,
+  rating: true,
+  reviewCount: true,
+  stock: true
+});
+
+// Pairs of products that appear in the same orders, ranked by how many orders they share
+const findBoughtTogether = (since: Date): Promise<RecommendationRow[]> =>
+  prisma.$queryRaw<RecommendationRow[]>`
+    SELECT "productId", "relatedProductId", score
+    FROM (
+      SELECT
+        a."productId" AS "productId",
+        b."productId" AS "relatedProductId",
+        COUNT(DISTINCT a."orderId")::float AS score,
+        ROW_NUMBER() OVER (
+          PARTITION BY a."productId"
+          ORDER BY COUNT(DISTINCT a."orderId") DESC, b."productId"
+        ) AS rank
+      FROM order_items a
+      JOIN order_items b ON b."orderId" = a."orderId" AND b."productId" <> a."productId"
+      JOIN orders o ON o.id = a."orderId"
+      JOIN products r ON r.id = b."productId"
+      WHERE o.status NOT IN ('CANCELLED', 'REFUNDED')
+        AND o."createdAt" >= ${since}
+        AND r."isActive" = true AND r.stock > 0
+      GROUP BY a."productId", b."productId"
+    ) ranked
+    WHERE rank <= ${MAX_RECOMMENDATIONS}
+  `;
+
+// Products in the same category or sharing flavors, with a small boost for the same brand
+const findSimilar = (): Promise<RecommendationRow[]> =>
+  prisma.$queryRaw<RecommendationRow[]>`
+    SELECT "productId", "relatedProductId", score
+    FROM (
+      SELECT
+        "productId",
+        "relatedProductId",
+        score,
+        ROW_NUMBER() OVER (PARTITION BY "productId" ORDER BY score DESC, "relatedProductId") AS rank
+      FROM (
+        SELECT
+          p.id AS "productId",
+          q.id AS "relatedProductId",
+          (
+            CASE WHEN p."categoryId" = q."categoryId" OR lower(p.category) = lower(q.category) THEN 2 ELSE 0 END
+            + cardinality(ARRAY(SELECT lower(unnest(p.flavors)) INTERSECT SELECT lower(unnest(q.flavors))))
+            + CASE WHEN lower(p.brand) = lower(q.brand) THEN 0.5 ELSE 0 END
+          )::float AS score
+        FROM products p
+        JOIN products q ON q.id <> p.id AND q."isActive" = true AND q.stock > 0
+        WHERE p."isActive" = true
+          AND (
+            p."categoryId" = q."categoryId"
+            OR lower(p.category) = lower(q.category)
+            OR EXISTS (SELECT 1 FROM unnest(p.flavors) pf JOIN unnest(q.flavors) qf ON lower(pf) = lower(qf))
+          )
+      ) scored
+    ) ranked
+    WHERE rank <= ${MAX_RECOMMENDATIONS}
+  `;
+
+/**
+ * Rebuild the recommendation cache from order history and product attributes
+ */
+export const rebuildRecommendations = async (): Promise<{ boughtTogether: number; similar: number }> => {
+  const since = new Date(Date.now() - CO_PURCHASE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const [boughtTogether, similar] = await Promise.all([findBoughtTogether(since), findSimilar()]);
+
+  const computedAt = new Date();
+  const toData = (rows: RecommendationRow[], type: RecommendationType) =>
+    rows.map(row => ({ ...row, score: Number(row.score), type, computedAt }));
+
+  await prisma.$transaction([
+    prisma.productRecommendation.deleteMany({}),
+    prisma.productRecommendation.createMany({
+      data: [...toData(boughtTogether, 'BOUGHT_TOGETHER'), ...toData(similar, 'SIMILAR')]
+    })
+  ]);
+
+  return { boughtTogether: boughtTogether.length, similar: similar.length };
+};
+
+const getRecommendedProducts = async (productId: string, type: RecommendationType, limit: number) => {
+  // Stock can run out between rebuilds, so filter again and fetch a few spare
+  const recommendations = await prisma.productRecommendation.findMany({
+    where: {
+      productId,
+      type,
+      relatedProduct: { isActive: true, stock: { gt: 0 } }
+    },
+    include: { relatedProduct: { select: relatedProductSelect } },
+    orderBy: [{ score: 'desc' }, { relatedProductId: 'asc' }],
+    take: limit * 2
+  });
+
+  const products = await withAvailableStock(recommendations.map(recommendation => recommendation.relatedProduct));
+  return products.filter(product => product.availableStock > 0).slice(0, limit);
+};
+
+/**
+ * Cached related products for a product page. Products bought together are left out of the
+ * similar list so the two don't repeat each other.
+ */
+export const getProductRecommendations = async (productId: string, limit: number = 8) => {
+  const boughtTogether = await getRecommendedProducts(productId, 'BOUGHT_TOGETHER', limit);
+  const shown = new Set(boughtTogether.map(product => product.id));
+
+  const similar = (await getRecommendedProducts(productId, 'SIMILAR', limit + shown.size))
+    .filter(product => !shown.has(product.id))
+    .slice(0, limit);
+
+  return { boughtTogether, similar };
+};
@@ -0,0 +1,238 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getCategoryTreeIds, resolveCategory } from './categoryService';
+
+const prisma = new PrismaClient();
+
+// Weighted search document: name first, then brand and flavors, then the descriptions
+const SEARCH_DOCUMENT = Prisma.sql`(
+  setweight(to_tsvector('english', coalesce(p.name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(p.brand, '') || ' ' || array_to_string(p.flavors, ' ')), 'B') ||
+  setweight(to_tsvector('english', coalesce(p."shortDescription", '') || ' ' || coalesce(p.description, '')), 'C')
+)`;
+
+// How close a misspelt word has to be to a word in the product name to still match
+const TYPO_SIMILARITY = 0.3;
+
+export const PRICE_BANDS = [
+  { value: 'under-5', label: 'Under $5', min: null, max: 5 },
+  { value: '5-10', label: '$5 to $10', min: 5, max: 10 },
+  { value: '10-20', label: '$10 to $20', min: 10, max: 20 },
+  { value: '20-50', label: '$20 to $50', min: 20, max: 50 },
+  { value: '50-plus', label: '$50 and up', min: 50, max: null }
+];
+
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+export const SEARCH_SORT_FIELDS = ['relevance', 'price', 'rating', 'createdAt', 'sales', 'name'] as const;
+export type SearchSortField = typeof SEARCH_SORT_FIELDS[number];
+
+const SORT_COLUMNS: Record<Exclude<SearchSortField, 'relevance'>, Prisma.Sql> = {
+  price: Prisma.sql`p.price`,
+  rating: Prisma.sql`p.rating`,
+  createdAt: Prisma.sql`p."createdAt"`,
+  sales: Prisma.sql`p.sales`,
+  name: Prisma.sql`p.name`
+};
+
+export interface ProductSearchParams {
+  q?: string;
+  category?: string;
+  flavors?: string[];
+  brands?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  sortBy?: SearchSortField;
+  sortOrder?: 'asc' | 'desc';
+  page: number;
+  limit: number;
+}
+
+export interface FacetCount {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export interface ProductSearchFacets {
+  categories: FacetCount[];
+  flavors: FacetCount[];
+  brands: FacetCount[];
+  priceBands: Array<FacetCount & { min: number | null; max: number | null }>;
+  ratings: Array<FacetCount & { min: number }>;
+}
+
+export interface ProductSearchResult {
+  ids: string[];
+  total: number;
+  facets: ProductSearchFacets;
+}
+
+type FacetName = 'category' | 'flavor' | 'brand' | 'price' | 'rating';
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+// Category filter in SQL: the category and its subcategories, or a plain name match for unknown values
+const buildCategoryCondition = async (value: string): Promise<Prisma.Sql> => {
+  const category = await resolveCategory(value);
+  if (!category) {
+    return Prisma.sql`p.category = ${value}`;
+  }
+
+  const categoryIds = await getCategoryTreeIds(category.id, { activeOnly: true });
+  return Prisma.sql`(p."categoryId" IN (${Prisma.join(categoryIds)})
+    OR (p."categoryId" IS NULL AND lower(p.category) = lower(${category.name})))`;
+};
+
+// WHERE clause for the search. Facet counts leave out their own filter so a shopper
+// can see how many results each alternative value would give.
+const buildWhere = (params: ProductSearchParams, categoryCondition: Prisma.Sql | null, exclude?: FacetName): Prisma.Sql => {
+  const conditions: Prisma.Sql[] = [Prisma.sql`p."isActive" = true`];
+  const q = params.q?.trim();
+
+  if (q) {
+    const pattern = `%${escapeLike(q)}%`;
+    conditions.push(Prisma.sql`(
+      ${SEARCH_DOCUMENT} @@ websearch_to_tsquery('english', ${q})
+      OR word_similarity(${q}, p.name) >= ${TYPO_SIMILARITY}
+      OR p.name ILIKE ${pattern}
+      OR p.brand ILIKE ${pattern}
+    )`);
+  }
+
+  if (categoryCondition && exclude !== 'category') {
+    conditions.push(categoryCondition);
+  }
+
+  if (params.flavors && params.flavors.length > 0 && exclude !== 'flavor') {
+    const flavors = params.flavors.map(flavor => flavor.toLowerCase());
+    conditions.push(Prisma.sql`(
+      EXISTS (SELECT 1 FROM unnest(p.flavors) pf WHERE lower(pf) = ANY(${flavors}))
+      OR EXISTS (
+        SELECT 1 FROM product_variants v JOIN flavors f ON f.id = v."flavorId"
+        WHERE v."productId" = p.id AND v."isActive" = true AND lower(f.name) = ANY(${flavors})
+      )
+    )`);
+  }
+
+  if (params.brands && params.brands.length > 0 && exclude !== 'brand') {
+    conditions.push(Prisma.sql`lower(p.brand) = ANY(${params.brands.map(brand => brand.toLowerCase())})`);
+  }
+
+  if (exclude !== 'price') {
+    if (params.minPrice !== undefined) conditions.push(Prisma.sql`p.price >= ${params.minPrice}`);
+    if (params.maxPrice !== undefined) conditions.push(Prisma.sql`p.price <= ${params.maxPrice}`);
+  }
+
+  if (params.minRating !== undefined && exclude !== 'rating') {
+    conditions.push(Prisma.sql`p.rating >= ${params.minRating}`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+};
+
+const getFacets = async (params: ProductSearchParams, categoryCondition: Prisma.Sql | null): Promise<ProductSearchFacets> => {
+  const [categories, flavors, brands, priceRows, ratingRows] = await Promise.all([
+    prisma.$queryRaw<FacetCount[]>`
+      SELECT COALESCE(c.slug, p.category) AS value, COALESCE(c.name, p.category) AS label, COUNT(*)::int AS count
+      FROM products p
+      LEFT JOIN categories c ON c.id = p."categoryId"
+      WHERE ${buildWhere(params, categoryCondition, 'category')}
+      GROUP BY 1, 2
+      ORDER BY count DESC, label ASC
+    `,
+    prisma.$queryRaw<FacetCount[]>`
+      SELECT flavor AS value, flavor AS label, COUNT(DISTINCT id)::int AS count
+      FROM (
+        SELECT p.id, unnest(p.flavors) AS flavor
+        FROM products p
+        WHERE ${buildWhere(params, categoryCondition, 'flavor')}
+        UNION
+        SELECT p.id, f.name AS flavor
+        FROM products p
+        JOIN product_variants v ON v."productId" = p.id AND v."isActive" = true
+        JOIN flavors f ON f.id = v."flavorId"
+        WHERE ${buildWhere(params, categoryCondition, 'flavor')}
+      ) product_flavors
+      GROUP BY flavor
+      ORDER BY count DESC, label ASC
+    `,
+    prisma.$queryRaw<FacetCount[]>`
+      SELECT p.brand AS value, p.brand AS label, COUNT(*)::int AS count
+      FROM products p
+      WHERE ${buildWhere(params, categoryCondition, 'brand')} AND p.brand IS NOT NULL AND p.brand <> ''
+      GROUP BY p.brand
+      ORDER BY count DESC, label ASC
+    `,
+    prisma.$queryRaw<Array<Record<string, number>>>`
+      SELECT ${Prisma.join(PRICE_BANDS.map(band => {
+        const bounds: Prisma.Sql[] = [];
+        if (band.min !== null) bounds.push(Prisma.sql`p.price >= ${band.min}`);
+        if (band.max !== null) bounds.push(Prisma.sql`p.price < ${band.max}`);
+        return Prisma.sql`COUNT(*) FILTER (WHERE ${Prisma.join(bounds, ' AND ')})::int AS ${Prisma.raw(`"${band.value}"`)}`;
+      }))}
+      FROM products p
+      WHERE ${buildWhere(params, categoryCondition, 'price')}
+    `,
+    prisma.$queryRaw<Array<Record<string, number>>>`
+      SELECT ${Prisma.join(RATING_THRESHOLDS.map(min =>
+        Prisma.sql`COUNT(*) FILTER (WHERE p.rating >= ${min})::int AS ${Prisma.raw(`"${min}"`)}`
+      ))}
+      FROM products p
+      WHERE ${buildWhere(params, categoryCondition, 'rating')}
+    `
+  ]);
+
+  return {
+    categories,
+    flavors,
+    brands,
+    priceBands: PRICE_BANDS.map(band => ({ ...band, count: priceRows[0]?.[band.value] || 0 })),
+    ratings: RATING_THRESHOLDS.map(min => ({
+      value: String(min),
+      label: `${min} stars & up`,
+      min,
+      count: ratingRows[0]?.[String(min)] || 0
+    }))
+  };
+};
+
+/**
+ * Full-text product search ranked by relevance, with typo tolerance and facet counts.
+ * Returns the matching product IDs for the requested page in ranked order.
+ */
+export const searchProductIds = async (params: ProductSearchParams): Promise<ProductSearchResult> => {
+  const q = params.q?.trim();
+  const categoryCondition = params.category ? await buildCategoryCondition(params.category) : null;
+  const where = buildWhere(params, categoryCondition);
+
+  const score = q
+    ? Prisma.sql`(ts_rank_cd(${SEARCH_DOCUMENT}, websearch_to_tsquery('english', ${q}), 32) + word_similarity(${q}, p.name) * 0.5)`
+    : Prisma.sql`0`;
+
+  const sortBy = params.sortBy || (q ? 'relevance' : 'createdAt');
+  const direction = Prisma.raw(params.sortOrder === 'asc' ? 'ASC' : 'DESC');
+  const orderBy = sortBy === 'relevance'
+    ? Prisma.sql`score DESC, p.sales DESC, p.id ASC`
+    : Prisma.sql`${SORT_COLUMNS[sortBy]} ${direction}, p.id ASC`;
+
+  const [rows, countRows, facets] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: string; score: number }>>`
+      SELECT p.id, ${score} AS score
+      FROM products p
+      WHERE ${where}
+      ORDER BY ${orderBy}
+      LIMIT ${params.limit} OFFSET ${(params.page - 1) * params.limit}
+    `,
+    prisma.$queryRaw<Array<{ count: number }>>`
+      SELECT COUNT(*)::int AS count FROM products p WHERE ${where}
+    `,
+    getFacets(params, categoryCondition)
+  ]);
+
+  return {
+    ids: rows.map(row => row.id),
+    total: countRows[0]?.count || 0,
+    facets
+  };
+};
@@ -0,0 +1,87 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface PricingSettings {
+  taxRate: number; // Fraction of the discounted subtotal, e.g. 0.08
+  freeShippingThreshold: number; // Orders above this subtotal ship free
+  flatShippingRate: number; // Charged when the threshold is not met and no carrier rate was picked
+}
+
+export const PRICING_SETTINGS_KEY = 'pricing';
+
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  taxRate: 0.08,
+  freeShippingThreshold: 50,
+  flatShippingRate: 5.99
+};
+
+/**
+ * Read a stored setting, falling back to the given default when it has never been saved
+ */
+export const getSetting = async <T>(key: string, fallback: T): Promise<T> => {
+  const setting = await prisma.storeSetting.findUnique({
+    where: { key }
+  });
+
+  if (!setting) return fallback;
+
+  return setting.value as unknown as T;
+};
+
+/**
+ * Create or replace a stored setting
+ */
+export const saveSetting = async <T>(key: string, value: T, updatedBy?: string | null): Promise<T> => {
+  const setting = await prisma.storeSetting.upsert({
+    where: { key },
+    update: { value: value as any, updatedBy: updatedBy || null },
+    create: { key, value: value as any, updatedBy: updatedBy || null }
+  });
+
+  return setting.value as unknown as T;
+};
+
+/**
+ * Current pricing settings, with defaults filled in for any missing field
+ */
+export const getPricingSettings = async (): Promise<PricingSettings> => {
+  const stored = await getSetting<Partial<PricingSettings>>(PRICING_SETTINGS_KEY, {});
+
+  return {
+    ...DEFAULT_PRICING_SETTINGS,
+    ...stored
+  };
+};
+
+/**
+ * Merge a partial update into the pricing settings
+ */
+export const updatePricingSettings = async (
+  changes: Partial<PricingSettings>,
+  updatedBy?: string | null
+): Promise<PricingSettings> => {
+  const current = await getPricingSettings();
+  const next: PricingSettings = { ...current };
+
+  for (const key of Object.keys(DEFAULT_PRICING_SETTINGS) as Array<keyof PricingSettings>) {
+    if (changes[key] !== undefined && changes[key] !== null) {
+      next[key] = Number(changes[key]);
+    }
+  }
+
+  const saved = await saveSetting(PRICING_SETTINGS_KEY, next, updatedBy);
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updatedBy || null,
+      action: 'UPDATE',
+      entity: 'StoreSetting',
+      entityId: PRICING_SETTINGS_KEY,
+      oldValues: current as any,
+      newValues: saved as any
+    }
+  });
+
+  return saved;
+};
@@ -1,5 +1,6 @@
 import { Shippo } from 'shippo';
 import { PrismaClient } from '@prisma/client';
+import { getDefaultLocation } from './stockLocationService';
 
 const prisma = new PrismaClient();
 
@@ -24,7 +25,7 @@ function getShippoClient(): Shippo {
   });
 }
 
-// Default sender address (Update with your business address)
+// Sender address used when no stock location with an address is set up
 const DEFAULT_SENDER_ADDRESS = {
   name: 'Southern Sweet and Sour',
   company: 'Southern Sweet and Sour LLC',
@@ -51,6 +52,33 @@ export interface ShippingAddress {
   country: string;
 }
 
+/**
+ * Ship-from address of a stock location, or of the default location when none is given.
+ * Falls back to the business address when the location has no street address.
+ */
+export const getSenderAddress = async (locationId?: string | null): Promise<typeof DEFAULT_SENDER_ADDRESS> => {
+  const location = locationId
+    ? await prisma.stockLocation.findUnique({ where: { id: locationId } })
+    : await getDefaultLocation();
+
+  if (!location || !location.street1 || !location.city || !location.state || !location.zip) {
+    return DEFAULT_SENDER_ADDRESS;
+  }
+
+  return {
+    name: location.contactName || location.name,
+    company: location.company || DEFAULT_SENDER_ADDRESS.company,
+    email: location.email || DEFAULT_SENDER_ADDRESS.email,
+    phone: location.phone || DEFAULT_SENDER_ADDRESS.phone,
+    street1: location.street1,
+    street2: location.street2 || '',
+    city: location.city,
+    state: location.state,
+    zip: location.zip,
+    country: location.country,
+  };
+};
+
 export interface ShipmentData {
   orderId: string;
   toAddress: ShippingAddress;
@@ -118,8 +146,12 @@ export const validateAddress = async (address: ShippingAddress) => {
   }
 };
 
-// Get shipping rates
-export const getShippingRates = async (toAddress: ShippingAddress, parcels: ShipmentData['parcels']) => {
+// Get shipping rates, quoted from the given stock location or the default one
+export const getShippingRates = async (
+  toAddress: ShippingAddress,
+  parcels: ShipmentData['parcels'],
+  fromLocationId?: string | null
+) => {
   try {
     const shippo = getShippoClient();
     
@@ -127,7 +159,7 @@ export const getShippingRates = async (toAddress: ShippingAddress, parcels: Ship
     
     // Create shipment for rate calculation
     const shipment = await shippo.shipments.create({
-      addressFrom: DEFAULT_SENDER_ADDRESS,
+      addressFrom: await getSenderAddress(fromLocationId),
       addressTo: {
         name: toAddress.name,
         company: toAddress.company || '',
@@ -168,6 +200,28 @@ export const getShippingRates = async (toAddress: ShippingAddress, parcels: Ship
   }
 };
 
+// Get a single rate by ID so checkout can confirm the amount the client picked
+export const getShippingRate = async (rateId: string) => {
+  try {
+    const shippo = getShippoClient();
+    const rate: any = await shippo.rates.get(rateId);
+
+    return {
+      objectId: rate.objectId,
+      serviceName: rate.servicelevel?.name || 'Standard Shipping',
+      carrier: rate.provider || 'USPS',
+      amount: parseFloat(rate.amount || '0'),
+      currency: rate.currency || 'USD',
+    };
+  } catch (error: any) {
+    console.error('❌ Shipping rate lookup error:', {
+      rateId,
+      message: error.message,
+    });
+    throw new Error('Failed to get shipping rate');
+  }
+};
+
 // Create shipment and purchase label
 export const createShipment = async (
   shipmentData: ShipmentData, 
@@ -184,10 +238,16 @@ export const createShipment = async (
     }
     
     console.log('📦 Creating shipment for order:', shipmentData.orderId);
+
+    // Ship from the location the order's stock was allocated to
+    const order = await prisma.order.findUnique({
+      where: { id: shipmentData.orderId },
+      select: { fulfillmentLocationId: true }
+    });
     
     // Create shipment with proper configuration
     const shipment = await shippo.shipments.create({
-      addressFrom: DEFAULT_SENDER_ADDRESS,
+      addressFrom: await getSenderAddress(order?.fulfillmentLocationId),
       addressTo: {
         name: shipmentData.toAddress.name,
         company: shipmentData.toAddress.company || '',
@@ -0,0 +1,644 @@
+import { PrismaClient, Prisma, StockLocation } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { AppError } from '../types';
+
+const prisma = new PrismaClient();
+
+export class StockLocationError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'StockLocationError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface StockLocationInput {
+  name?: string;
+  code?: string;
+  type?: string;
+  isActive?: boolean;
+  isDefault?: boolean;
+  priority?: number;
+  contactName?: string | null;
+  company?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  street1?: string | null;
+  street2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  country?: string;
+}
+
+export interface LocationStockChange {
+  locationId: string;
+  quantity: number; // Signed: negative when stock left the location
+}
+
+export interface AllocationLine {
+  id: string; // Order item ID
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+// Units of an order item taken from one location (null when no locations are set up)
+export interface StockPick {
+  line: AllocationLine;
+  locationId: string | null;
+  quantity: number;
+}
+
+// Order in which locations are tried when filling orders and taking stock out
+const locationOrder: Prisma.StockLocationOrderByWithRelationInput[] = [
+  { priority: 'asc' },
+  { isDefault: 'desc' },
+  { createdAt: 'asc' }
+];
+
+const stockKey = (productId: string, variantId?: string | null) => `${productId}:${variantId || ''}`;
+
+/**
+ * Active stock locations, in allocation order
+ */
+export const getActiveLocations = (client: Prisma.TransactionClient = prisma): Promise<StockLocation[]> =>
+  client.stockLocation.findMany({ where: { isActive: true }, orderBy: locationOrder });
+
+/**
+ * The location that receives stock when none is given, or null when no locations are set up
+ */
+export const getDefaultLocation = async (client: Prisma.TransactionClient = prisma): Promise<StockLocation | null> => {
+  const location = await client.stockLocation.findFirst({ where: { isActive: true, isDefault: true } });
+  return location || client.stockLocation.findFirst({ where: { isActive: true }, orderBy: locationOrder });
+};
+
+// Add to (or take from) one location's row, creating it on first use
+const bumpLocationStock = async (
+  tx: Prisma.TransactionClient,
+  locationId: string,
+  productId: string,
+  variantId: string | null | undefined,
+  quantity: number
+): Promise<void> => {
+  const variantKey = variantId || '';
+  await tx.locationStock.upsert({
+    where: { locationId_productId_variantKey: { locationId, productId, variantKey } },
+    update: { quantity: { increment: quantity } },
+    create: { locationId, productId, variantId: variantId || null, variantKey, quantity }
+  });
+};
+
+const lockProduct = (tx: Prisma.TransactionClient, productId: string) =>
+  tx.$queryRaw`SELECT id FROM products WHERE id = ${productId} FOR UPDATE`;
+
+/**
+ * Spread a change to a product's (or variant's) total stock over its locations. Stock added goes
+ * to the given location or the default one. Stock removed comes from the given location first and
+ * then the others in allocation order, unless strict, where the given location must hold all of it.
+ * A given location that is no longer active falls back to the default unless strict.
+ * Does nothing when no locations are set up.
+ */
+export const applyLocationStockChange = async (
+  tx: Prisma.TransactionClient,
+  change: { productId: string; variantId?: string | null; quantity: number; locationId?: string | null; strict?: boolean }
+): Promise<LocationStockChange[]> => {
+  if (change.quantity === 0) return [];
+
+  const locations = await getActiveLocations(tx);
+  if (locations.length === 0) return [];
+
+  const given = change.locationId ? locations.find(location => location.id === change.locationId) : undefined;
+  if (change.locationId && !given && change.strict) {
+    throw new StockLocationError('Stock location not found', 404);
+  }
+
+  const preferred = given || await getDefaultLocation(tx);
+  if (!preferred) {
+    throw new StockLocationError('Stock location not found', 404);
+  }
+
+  await lockProduct(tx, change.productId);
+
+  if (change.quantity > 0) {
+    await bumpLocationStock(tx, preferred.id, change.productId, change.variantId, change.quantity);
+    return [{ locationId: preferred.id, quantity: change.quantity }];
+  }
+
+  const rows = await tx.locationStock.findMany({
+    where: { productId: change.productId, variantId: change.variantId || null },
+    select: { locationId: true, quantity: true }
+  });
+  const held = new Map(rows.map(row => [row.locationId, row.quantity]));
+
+  let remaining = -change.quantity;
+  if (change.strict && (held.get(preferred.id) || 0) < remaining) {
+    throw new StockLocationError(`Insufficient stock at ${preferred.name}`);
+  }
+
+  const changes: LocationStockChange[] = [];
+  const sources = [preferred, ...locations.filter(location => location.id !== preferred.id)];
+
+  for (const location of sources) {
+    const taken = Math.min(remaining, Math.max(held.get(location.id) || 0, 0));
+    if (taken <= 0) continue;
+    changes.push({ locationId: location.id, quantity: -taken });
+    remaining -= taken;
+    if (remaining === 0) break;
+  }
+
+  // Locations hold less than the total said was there; book the rest against the preferred
+  // location so the totals still add up and the shortfall shows as negative stock to fix
+  if (remaining > 0) {
+    console.warn(`Location stock short by ${remaining} for product ${change.productId}${change.variantId ? ` variant ${change.variantId}` : ''}`);
+    const existing = changes.find(entry => entry.locationId === preferred.id);
+    if (existing) existing.quantity -= remaining;
+    else changes.push({ locationId: preferred.id, quantity: -remaining });
+  }
+
+  for (const entry of changes) {
+    await bumpLocationStock(tx, entry.locationId, change.productId, change.variantId, entry.quantity);
+  }
+
+  return changes;
+};
+
+/**
+ * Units on hand for a product (or variant) at a location, or in total when locationId is null
+ */
+export const getHeldStock = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variantId: string | null | undefined,
+  locationId: string | null
+): Promise<number> => {
+  if (locationId) {
+    const row = await tx.locationStock.findUnique({
+      where: { locationId_productId_variantKey: { locationId, productId, variantKey: variantId || '' } },
+      select: { quantity: true }
+    });
+    return row?.quantity || 0;
+  }
+
+  if (variantId) {
+    const variant = await tx.productVariant.findUnique({ where: { id: variantId }, select: { stock: true } });
+    return variant?.stock || 0;
+  }
+
+  const product = await tx.product.findUnique({ where: { id: productId }, select: { stock: true } });
+  return product?.stock || 0;
+};
+
+/**
+ * Draw down lots, first expiring first, wherever stock was taken out without naming a lot, until
+ * they hold no more than is left there. Takes the changes applyLocationStockChange returned; with
+ * no locations set up the lots are checked against the product (or variant) total. Call it once
+ * the stock itself has been updated.
+ */
+export const trimLotsToStock = async (
+  tx: Prisma.TransactionClient,
+  target: { productId: string; variantId?: string | null },
+  changes: LocationStockChange[]
+): Promise<void> => {
+  const locationIds = changes.length > 0
+    ? changes.filter(change => change.quantity < 0).map(change => change.locationId)
+    : [null];
+
+  for (const locationId of locationIds) {
+    const held = await getHeldStock(tx, target.productId, target.variantId, locationId);
+    const lots = await tx.inventoryLot.findMany({
+      where: {
+        productId: target.productId,
+        variantId: target.variantId || null,
+        locationId,
+        status: 'ACTIVE',
+        quantity: { gt: 0 }
+      },
+      orderBy: [{ bestBy: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }, { id: 'asc' }]
+    });
+
+    let excess = lots.reduce((sum, lot) => sum + lot.quantity, 0) - Math.max(held, 0);
+    for (const lot of lots) {
+      if (excess <= 0) break;
+      const taken = Math.min(excess, lot.quantity);
+      await tx.inventoryLot.update({
+        where: { id: lot.id },
+        data: {
+          quantity: { decrement: taken },
+          ...(taken === lot.quantity ? { status: 'DEPLETED' as const } : {})
+        }
+      });
+      excess -= taken;
+    }
+  }
+};
+
+/**
+ * Pick the location an order ships from and take its stock there. The first location in
+ * allocation order that can fill every line wins; otherwise the one holding the most of the
+ * order ships it and the shortfall is taken from the others. Writes a STOCK_OUT log per
+ * location and line and stores the location on the order. Returns the chosen location (null
+ * without locations) and where each line's units came from, for picking lots.
+ */
+export const allocateOrderStock = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  lines: AllocationLine[]
+): Promise<{ location: StockLocation | null; picks: StockPick[] }> => {
+  const locations = await getActiveLocations(tx);
+  if (locations.length === 0 || lines.length === 0) {
+    return { location: null, picks: lines.map(line => ({ line, locationId: null, quantity: line.quantity })) };
+  }
+
+  const needed = new Map<string, number>();
+  for (const line of lines) {
+    const key = stockKey(line.productId, line.variantId);
+    needed.set(key, (needed.get(key) || 0) + line.quantity);
+  }
+
+  const rows = await tx.locationStock.findMany({
+    where: {
+      locationId: { in: locations.map(location => location.id) },
+      OR: lines.map(line => ({ productId: line.productId, variantId: line.variantId || null }))
+    },
+    select: { locationId: true, productId: true, variantId: true, quantity: true }
+  });
+
+  const held = new Map(rows.map(row => [`${row.locationId}:${stockKey(row.productId, row.variantId)}`, row.quantity]));
+  const coverage = (location: StockLocation) =>
+    Array.from(needed.entries()).reduce(
+      (sum, [key, quantity]) => sum + Math.min(quantity, Math.max(held.get(`${location.id}:${key}`) || 0, 0)),
+      0
+    );
+
+  const totalNeeded = Array.from(needed.values()).reduce((sum, quantity) => sum + quantity, 0);
+  const location = locations.find(candidate => coverage(candidate) === totalNeeded)
+    || locations.reduce((best, candidate) => (coverage(candidate) > coverage(best) ? candidate : best));
+
+  const picks: StockPick[] = [];
+  for (const line of lines) {
+    const changes = await applyLocationStockChange(tx, {
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: -line.quantity,
+      locationId: location.id
+    });
+
+    for (const entry of changes) {
+      await tx.inventoryLog.create({
+        data: {
+          productId: line.productId,
+          variantId: line.variantId || null,
+          locationId: entry.locationId,
+          type: 'STOCK_OUT',
+          quantity: entry.quantity,
+          reason: 'Order allocation',
+          referenceId: orderId
+        }
+      });
+      picks.push({ line, locationId: entry.locationId, quantity: -entry.quantity });
+    }
+  }
+
+  await tx.order.update({ where: { id: orderId }, data: { fulfillmentLocationId: location.id } });
+  return { location, picks };
+};
+
+/**
+ * Set up a stock location. The first one becomes the default and takes over all existing stock,
+ * so per-location stock adds up to the product totals from the start.
+ */
+export const createStockLocation = async (input: StockLocationInput, userId?: string): Promise<StockLocation> => {
+  const existing = await prisma.stockLocation.findUnique({ where: { code: input.code } });
+  if (existing) {
+    throw new StockLocationError('A stock location with this code already exists');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const isFirst = (await tx.stockLocation.count()) === 0;
+    const isDefault = isFirst || !!input.isDefault;
+
+    if (isDefault) {
+      await tx.stockLocation.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    }
+
+    const location = await tx.stockLocation.create({
+      data: {
+        ...input,
+        name: input.name as string,
+        code: input.code as string,
+        isActive: true,
+        isDefault
+      }
+    });
+
+    if (isFirst) {
+      const products = await tx.product.findMany({
+        select: { id: true, stock: true, variants: { select: { id: true, stock: true } } }
+      });
+
+      const data = products.flatMap(product =>
+        product.variants.length > 0
+          ? product.variants.map(variant => ({
+              locationId: location.id,
+              productId: product.id,
+              variantId: variant.id,
+              variantKey: variant.id,
+              quantity: variant.stock
+            }))
+          : [{ locationId: location.id, productId: product.id, variantId: null, variantKey: '', quantity: product.stock }]
+      );
+
+      if (data.length > 0) {
+        await tx.locationStock.createMany({ data });
+      }
+
+      await tx.inventoryLot.updateMany({ where: { locationId: null }, data: { locationId: location.id } });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'CREATE',
+        entity: 'StockLocation',
+        entityId: location.id,
+        newValues: location as any
+      }
+    });
+
+    return location;
+  });
+};
+
+/**
+ * Update a stock location. The default location can't be switched off or deactivated directly,
+ * and a location still holding stock can't be deactivated.
+ */
+export const updateStockLocation = async (id: string, input: StockLocationInput, userId?: string): Promise<StockLocation> => {
+  const location = await prisma.stockLocation.findUnique({ where: { id } });
+  if (!location) {
+    throw new StockLocationError('Stock location not found', 404);
+  }
+
+  if (input.code && input.code !== location.code) {
+    const taken = await prisma.stockLocation.findUnique({ where: { code: input.code } });
+    if (taken) {
+      throw new StockLocationError('A stock location with this code already exists');
+    }
+  }
+
+  if (location.isDefault && (input.isDefault === false || input.isActive === false)) {
+    throw new StockLocationError('Make another location the default first');
+  }
+
+  if (input.isActive === false && location.isActive) {
+    const held = await prisma.locationStock.aggregate({
+      where: { locationId: id, quantity: { not: 0 } },
+      _count: { _all: true }
+    });
+    if (held._count._all > 0) {
+      throw new StockLocationError('Transfer this location\'s stock elsewhere before deactivating it');
+    }
+  }
+
+  if (input.isDefault && input.isActive === false) {
+    throw new StockLocationError('The default location must be active');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    if (input.isDefault && !location.isDefault) {
+      await tx.stockLocation.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    }
+
+    const saved = await tx.stockLocation.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(input.isDefault && !location.isActive ? { isActive: true } : {})
+      }
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'UPDATE',
+        entity: 'StockLocation',
+        entityId: id,
+        oldValues: location as any,
+        newValues: input as any
+      }
+    });
+
+    return saved;
+  });
+};
+
+// Move units of a lot to another location, where they join the same lot number or start a new
+// lot row with the original received and best-by dates. Returns the source and destination lot IDs.
+const moveLot = async (
+  tx: Prisma.TransactionClient,
+  lotId: string,
+  move: { productId: string; variantId: string | null; fromLocationId: string; toLocationId: string; quantity: number }
+): Promise<{ fromLotId: string; toLotId: string }> => {
+  const lot = await tx.inventoryLot.findUnique({ where: { id: lotId } });
+
+  if (
+    !lot || lot.status !== 'ACTIVE' || lot.productId !== move.productId ||
+    (lot.variantId || null) !== move.variantId || lot.locationId !== move.fromLocationId
+  ) {
+    throw new StockLocationError('Lot not found at this location', 404);
+  }
+
+  if (lot.quantity < move.quantity) {
+    throw new StockLocationError(`Lot ${lot.lotNumber} only has ${lot.quantity} left`);
+  }
+
+  const target = await tx.inventoryLot.findFirst({
+    where: {
+      productId: lot.productId,
+      variantId: lot.variantId,
+      locationId: move.toLocationId,
+      lotNumber: lot.lotNumber,
+      status: 'ACTIVE'
+    }
+  });
+
+  // The whole lot moving somewhere it isn't yet just changes location
+  if (!target && lot.quantity === move.quantity) {
+    await tx.inventoryLot.update({ where: { id: lot.id }, data: { locationId: move.toLocationId } });
+    return { fromLotId: lot.id, toLotId: lot.id };
+  }
+
+  await tx.inventoryLot.update({
+    where: { id: lot.id },
+    data: {
+      quantity: { decrement: move.quantity },
+      ...(lot.quantity === move.quantity ? { status: 'DEPLETED' as const } : {})
+    }
+  });
+
+  const moved = target
+    ? await tx.inventoryLot.update({ where: { id: target.id }, data: { quantity: { increment: move.quantity } } })
+    : await tx.inventoryLot.create({
+        data: {
+          productId: lot.productId,
+          variantId: lot.variantId,
+          locationId: move.toLocationId,
+          lotNumber: lot.lotNumber,
+          receivedAt: lot.receivedAt,
+          bestBy: lot.bestBy,
+          nearExpiryAt: lot.nearExpiryAt,
+          initialQuantity: move.quantity,
+          quantity: move.quantity
+        }
+      });
+
+  return { fromLotId: lot.id, toLotId: moved.id };
+};
+
+/**
+ * Move stock between two locations. The product totals don't change; the move is recorded as a
+ * TRANSFER log out of one location and one into the other, sharing a reference ID. When a lot
+ * is given its units move with the stock.
+ */
+export const transferStock = async (
+  input: {
+    productId: string;
+    variantId?: string | null;
+    lotId?: string | null;
+    fromLocationId: string;
+    toLocationId: string;
+    quantity: number;
+    notes?: string;
+  },
+  userId?: string
+) => {
+  if (input.fromLocationId === input.toLocationId) {
+    throw new StockLocationError('Choose two different locations');
+  }
+
+  if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+    throw new StockLocationError('Quantity must be a positive whole number');
+  }
+
+  const [product, from, to] = await Promise.all([
+    prisma.product.findUnique({
+      where: { id: input.productId },
+      select: { id: true, name: true, _count: { select: { variants: true } } }
+    }),
+    prisma.stockLocation.findUnique({ where: { id: input.fromLocationId } }),
+    prisma.stockLocation.findUnique({ where: { id: input.toLocationId } })
+  ]);
+
+  if (!product) {
+    throw new StockLocationError('Product not found', 404);
+  }
+
+  if (!from || !to) {
+    throw new StockLocationError('Stock location not found', 404);
+  }
+
+  if (!to.isActive) {
+    throw new StockLocationError(`${to.name} is not active`);
+  }
+
+  // Products with variants keep their stock per variant
+  if (product._count.variants > 0 && !input.variantId) {
+    throw new StockLocationError('Choose which variant to transfer');
+  }
+
+  if (input.variantId) {
+    const variant = await prisma.productVariant.findUnique({ where: { id: input.variantId }, select: { productId: true } });
+    if (!variant || variant.productId !== product.id) {
+      throw new StockLocationError('Product variant not found', 404);
+    }
+  }
+
+  const referenceId = `transfer_${randomUUID()}`;
+  const variantId = input.variantId || null;
+
+  return prisma.$transaction(async (tx) => {
+    await lockProduct(tx, product.id);
+
+    const source = await tx.locationStock.findUnique({
+      where: { locationId_productId_variantKey: { locationId: from.id, productId: product.id, variantKey: variantId || '' } },
+      select: { quantity: true }
+    });
+
+    if (!source || source.quantity < input.quantity) {
+      throw new StockLocationError(`Insufficient stock at ${from.name}`);
+    }
+
+    await bumpLocationStock(tx, from.id, product.id, variantId, -input.quantity);
+    await bumpLocationStock(tx, to.id, product.id, variantId, input.quantity);
+
+    const lots = input.lotId
+      ? await moveLot(tx, input.lotId, {
+          productId: product.id,
+          variantId,
+          fromLocationId: from.id,
+          toLocationId: to.id,
+          quantity: input.quantity
+        })
+      : null;
+
+    if (!lots) {
+      await trimLotsToStock(tx, { productId: product.id, variantId }, [{ locationId: from.id, quantity: -input.quantity }]);
+    }
+
+    const logFields = { productId: product.id, variantId, type: 'TRANSFER' as const, referenceId, notes: input.notes };
+    const outLog = await tx.inventoryLog.create({
+      data: {
+        ...logFields,
+        locationId: from.id,
+        lotId: lots?.fromLotId,
+        quantity: -input.quantity,
+        reason: `Transfer to ${to.name}`
+      }
+    });
+    const inLog = await tx.inventoryLog.create({
+      data: {
+        ...logFields,
+        locationId: to.id,
+        lotId: lots?.toLotId,
+        quantity: input.quantity,
+        reason: `Transfer from ${from.name}`
+      }
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: userId || null,
+        action: 'STOCK_TRANSFER',
+        entity: 'Product',
+        entityId: product.id,
+        newValues: {
+          referenceId,
+          variantId,
+          lotId: input.lotId || null,
+          fromLocationId: from.id,
+          toLocationId: to.id,
+          quantity: input.quantity
+        }
+      }
+    });
+
+    return { referenceId, logs: [outLog, inLog] };
+  });
+};
+
+/**
+ * Stock per location for a product, with variant rows when it has variants
+ */
+export const getProductLocationStock = (productId: string) =>
+  prisma.locationStock.findMany({
+    where: { productId },
+    include: {
+      location: { select: { id: true, name: true, code: true, isActive: true, isDefault: true } },
+      variant: { select: { id: true, sku: true, name: true } }
+    },
+    orderBy: [{ location: { priority: 'asc' } }, { variantId: 'asc' }]
+  });
@@ -0,0 +1,604 @@
+import Stripe from "stripe";
+import { PrismaClient, StripeWebhookEvent } from "@prisma/client";
+import {
+  convertCheckoutDraft,
+  expireCheckoutDraft,
+} from "./checkoutService";
+import { releaseDiscountRedemption } from "./discountService";
+
+const prisma = new PrismaClient();
+
+// An event stuck in PROCESSING for this long is assumed to have crashed mid-way
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export interface StripeEventResult {
+  status: "PROCESSED" | "FAILED" | "DUPLICATE" | "IN_PROGRESS";
+  outcome?: string | null;
+  error?: string | null;
+}
+
+/**
+ * Apply a verified Stripe event to orders and checkout drafts.
+ * Returns a short description of what the event changed.
+ */
+export const processStripeEvent = async (
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<string> => {
+  console.log(`🎯 Processing webhook event: ${event.type}`);
+  let outcome = "ignored";
+
+  if (event.type === "checkout.session.completed") {
+    const session = event.data.object as Stripe.Checkout.Session;
+
+    // Retrieve the full session to get shipping details
+    const fullSession = await stripe.checkout.sessions.retrieve(session.id, {
+      expand: ["line_items", "payment_intent"],
+    });
+
+    const orderId = fullSession.metadata?.orderId;
+    const isRetry = fullSession.metadata?.isRetry === "true";
+
+    console.log("💳 Processing checkout.session.completed:", {
+      sessionId: fullSession.id,
+      orderId,
+      isRetry,
+      paymentStatus: fullSession.payment_status,
+    });
+
+    if (orderId) {
+      // Update existing order (retry payment scenario)
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: {
+          orderItems: true,
+        },
+      });
+
+      if (!existingOrder) {
+        throw new Error(`Order not found for webhook: ${orderId}`);
+      }
+
+      const shippingDetails: any =
+        (fullSession as any).shipping_details || null;
+      const customerDetails: any =
+        (fullSession as any).customer_details || null;
+
+      // Extract payment intent ID
+      const paymentIntentId =
+        typeof fullSession.payment_intent === "string"
+          ? fullSession.payment_intent
+          : (fullSession.payment_intent as any)?.id || null;
+
+      const updateData: any = {
+        paymentStatus: "COMPLETED",
+        status: "CONFIRMED",
+        paymentId: paymentIntentId,
+        updatedAt: new Date(),
+      };
+
+      // Update shipping address if Stripe collected it
+      if (shippingDetails || customerDetails) {
+        const addressData =
+          shippingDetails?.address || customerDetails?.address;
+        if (addressData) {
+          updateData.shippingStreet = addressData.line1 || "";
+          updateData.shippingCity = addressData.city || "";
+          updateData.shippingState = addressData.state || "";
+          updateData.shippingZip = addressData.postal_code || "";
+          updateData.shippingZipCode = addressData.postal_code || "";
+          updateData.shippingCountry = addressData.country || "";
+
+          if (customerDetails?.name) {
+            const nameParts = customerDetails.name.split(" ");
+            updateData.shippingFirstName = nameParts[0] || null;
+            updateData.shippingLastName =
+              nameParts.slice(1).join(" ") || null;
+          }
+
+          if (customerDetails?.email) {
+            updateData.guestEmail = customerDetails.email;
+          }
+
+          if (customerDetails?.phone || shippingDetails?.phone) {
+            updateData.shippingPhone =
+              customerDetails?.phone || shippingDetails?.phone || null;
+          }
+        }
+      }
+
+      await prisma.order.update({
+        where: { id: orderId },
+        data: updateData,
+      });
+
+      console.log("✅ Order updated successfully:", orderId);
+      outcome = "order_updated";
+
+      // Create Shippo shipment if shipping rate is in metadata
+      const shippingRateId = fullSession.metadata?.shippingRateId;
+      if (shippingRateId && existingOrder.shippingStreet) {
+        try {
+          const { createShipment } = await import(
+            "./shipmentService"
+          );
+
+          const shippingAddress = {
+            name:
+              existingOrder.shippingFirstName &&
+              existingOrder.shippingLastName
+                ? `${existingOrder.shippingFirstName} ${existingOrder.shippingLastName}`
+                : existingOrder.shippingFirstName || "Customer",
+            street: existingOrder.shippingStreet || "",
+            city: existingOrder.shippingCity || "",
+            state: existingOrder.shippingState || "",
+            zip:
+              existingOrder.shippingZip ||
+              existingOrder.shippingZipCode ||
+              "",
+            country: existingOrder.shippingCountry || "US",
+            email: existingOrder.guestEmail || "",
+            phone: existingOrder.shippingPhone || "",
+          };
+
+          const shippingRateInfo = {
+            objectId: shippingRateId,
+            carrier: fullSession.metadata?.shippingCarrier || "",
+            amount: fullSession.metadata?.shippingAmount
+              ? parseFloat(fullSession.metadata.shippingAmount)
+              : 0,
+            serviceName: fullSession.metadata?.shippingService || "",
+          };
+
+          await createShipment(
+            {
+              orderId: existingOrder.id,
+              toAddress: {
+                name: shippingAddress.name,
+                street1: shippingAddress.street,
+                city: shippingAddress.city,
+                state: shippingAddress.state,
+                zip: shippingAddress.zip,
+                country: shippingAddress.country,
+                email: shippingAddress.email,
+                phone: shippingAddress.phone,
+              },
+              parcels: [
+                {
+                  length: "6",
+                  width: "4",
+                  height: "2",
+                  weight: "0.5",
+                  massUnit: "lb" as const,
+                  distanceUnit: "in" as const,
+                },
+              ],
+            },
+            shippingRateId,
+            shippingRateInfo
+          );
+
+          console.log("📦 Shippo shipment created for order");
+        } catch (shipmentError) {
+          console.error(
+            "⚠️ Failed to create Shippo shipment:",
+            shipmentError
+          );
+        }
+      }
+
+      // Send confirmation email
+      try {
+        const { sendEmail, emailTemplates } = await import(
+          "./emailService"
+        );
+
+        const customerEmail =
+          existingOrder.guestEmail ||
+          (existingOrder.userId
+            ? (
+                await prisma.user.findUnique({
+                  where: { id: existingOrder.userId },
+                  select: { email: true },
+                })
+              )?.email
+            : null);
+
+        if (customerEmail) {
+          // Fetch updated order with shipment details
+          const orderWithShipping = await prisma.order.findUnique({
+            where: { id: existingOrder.id },
+            select: {
+              trackingNumber: true,
+              trackingUrl: true,
+              shippingCarrier: true,
+              shippingService: true,
+              shippingCost: true,
+            },
+          });
+
+          const customerName =
+            existingOrder.shippingFirstName && existingOrder.shippingLastName
+              ? `${existingOrder.shippingFirstName} ${existingOrder.shippingLastName}`
+              : existingOrder.shippingFirstName || "Customer";
+
+          const emailData = {
+            customerName,
+            orderNumber: existingOrder.orderNumber || existingOrder.id,
+            orderId: existingOrder.id,
+            orderDate: new Date(existingOrder.createdAt).toLocaleDateString(),
+            status: "CONFIRMED",
+            items: existingOrder.orderItems.map((item: any) => ({
+              name: item.variantName
+                ? `${item.productName || "Product"} - ${item.variantName}`
+                : item.productName || "Product",
+              quantity: item.quantity,
+              price: item.price,
+            })),
+            total: existingOrder.totalAmount,
+            shippingAddress: {
+              firstName: existingOrder.shippingFirstName || "",
+              lastName: existingOrder.shippingLastName || "",
+              address: existingOrder.shippingStreet || "",
+              city: existingOrder.shippingCity || "",
+              state: existingOrder.shippingState || "",
+              zipCode:
+                existingOrder.shippingZip ||
+                existingOrder.shippingZipCode ||
+                "",
+            },
+            shippingDetails: orderWithShipping
+              ? {
+                  trackingNumber: orderWithShipping.trackingNumber,
+                  trackingUrl: orderWithShipping.trackingUrl,
+                  carrier: orderWithShipping.shippingCarrier,
+                  service: orderWithShipping.shippingService,
+                  shippingCost: orderWithShipping.shippingCost
+                    ? Number(orderWithShipping.shippingCost)
+                    : null,
+                }
+              : undefined,
+          };
+
+          await sendEmail({
+            to: customerEmail,
+            subject: "Order Confirmation - Licorice Ropes",
+            html: emailTemplates.orderConfirmation(emailData),
+          });
+          console.log("✅ Order confirmation email sent to:", customerEmail);
+        }
+      } catch (emailError) {
+        console.warn("❌ Email service not available:", emailError);
+      }
+    } else if (fullSession.metadata?.draftId) {
+      // Create NEW order from the checkout draft (NO pending order was created)
+      console.log("📝 Creating new order from checkout draft");
+
+      const {
+        draft,
+        order: newOrder,
+        address: shippingAddress,
+        created,
+      } = await convertCheckoutDraft(fullSession.metadata.draftId, fullSession);
+
+      if (!created) {
+        console.log("ℹ️ Checkout draft already converted:", draft.id);
+        return "draft_already_converted";
+      }
+
+      console.log("✅ New order created successfully:", newOrder.id);
+      outcome = "order_created";
+
+      // Orders held for review are not shipped until an admin has looked at them
+      const heldForReview = newOrder.status === "PENDING";
+      if (heldForReview) {
+        console.warn("⚠️ Order held for review:", newOrder.id, newOrder.notes);
+      }
+
+      // Get shipping rate info from the draft
+      const shippingRateInfo = draft.shippingRate as any;
+
+      // Create Shippo shipment if shipping rate is provided
+      if (!heldForReview && shippingRateInfo?.objectId && shippingAddress.street) {
+        try {
+          const { createShipment } = await import(
+            "./shipmentService"
+          );
+
+          await createShipment(
+            {
+              orderId: newOrder.id,
+              toAddress: {
+                name: shippingAddress.name || "Customer",
+                street1: shippingAddress.street,
+                city: shippingAddress.city || "",
+                state: shippingAddress.state || "",
+                zip: shippingAddress.zipCode || "",
+                country: shippingAddress.country || "US",
+                email: shippingAddress.email || "",
+                phone: shippingAddress.phone || "",
+              },
+              parcels: [
+                {
+                  length: "6",
+                  width: "4",
+                  height: "2",
+                  weight: "0.5",
+                  massUnit: "lb" as const,
+                  distanceUnit: "in" as const,
+                },
+              ],
+            },
+            shippingRateInfo.objectId,
+            {
+              carrier: shippingRateInfo.carrier || "",
+              amount: Number(shippingRateInfo.amount || 0),
+              serviceName: shippingRateInfo.serviceName || "",
+            }
+          );
+
+          console.log("📦 Shippo shipment created for new order");
+        } catch (shipmentError) {
+          console.error(
+            "⚠️ Failed to create Shippo shipment:",
+            shipmentError
+          );
+        }
+      }
+
+      // Send confirmation email
+      try {
+        const { sendEmail, emailTemplates } = await import(
+          "./emailService"
+        );
+
+        const customerEmail =
+          shippingAddress.email ||
+          draft.guestEmail ||
+          (draft.userId
+            ? (
+                await prisma.user.findUnique({
+                  where: { id: draft.userId },
+                  select: { email: true },
+                })
+              )?.email
+            : null);
+
+        if (customerEmail) {
+          // Fetch order with shipment details
+          const orderWithShipping = await prisma.order.findUnique({
+            where: { id: newOrder.id },
+            select: {
+              trackingNumber: true,
+              trackingUrl: true,
+              shippingCarrier: true,
+              shippingService: true,
+              shippingCost: true,
+            },
+          });
+
+          const emailData = {
+            customerName: shippingAddress.name || "Customer",
+            orderNumber: newOrder.orderNumber,
+            orderId: newOrder.id,
+            orderDate: new Date(newOrder.createdAt).toLocaleDateString(),
+            status: "CONFIRMED",
+            items: newOrder.orderItems.map((item: any) => ({
+              name: item.variantName
+                ? `${item.productName || "Product"} - ${item.variantName}`
+                : item.productName || "Product",
+              quantity: item.quantity,
+              price: item.price,
+            })),
+            total: newOrder.totalAmount,
+            shippingAddress: {
+              firstName: shippingAddress.name?.split(" ")[0] || "",
+              lastName:
+                shippingAddress.name?.split(" ").slice(1).join(" ") || "",
+              address: shippingAddress.street || "",
+              city: shippingAddress.city || "",
+              state: shippingAddress.state || "",
+              zipCode: shippingAddress.zipCode || "",
+            },
+            shippingDetails: orderWithShipping
+              ? {
+                  trackingNumber: orderWithShipping.trackingNumber,
+                  trackingUrl: orderWithShipping.trackingUrl,
+                  carrier: orderWithShipping.shippingCarrier,
+                  service: orderWithShipping.shippingService,
+                  shippingCost: orderWithShipping.shippingCost
+                    ? Number(orderWithShipping.shippingCost)
+                    : null,
+                }
+              : undefined,
+          };
+
+          await sendEmail({
+            to: customerEmail,
+            subject: "Order Confirmation - Licorice Ropes",
+            html: emailTemplates.orderConfirmation(emailData),
+          });
+          console.log("✅ Order confirmation email sent to:", customerEmail);
+        }
+      } catch (emailError) {
+        console.warn("❌ Email service not available:", emailError);
+      }
+    } else {
+      throw new Error("Missing order data in webhook metadata");
+    }
+  } else if (event.type === "checkout.session.expired") {
+    const session = event.data.object as Stripe.Checkout.Session;
+    const draftId = session.metadata?.draftId;
+
+    if (draftId) {
+      await expireCheckoutDraft(draftId);
+      console.log("⌛ Checkout draft expired:", draftId);
+      outcome = "draft_expired";
+    }
+  } else if (event.type === "payment_intent.payment_failed") {
+    const pi = event.data.object as Stripe.PaymentIntent;
+    console.log("❌ Payment failed:", pi.id);
+
+    // Try to find the order and mark as failed
+    const orderId = pi.metadata?.orderId;
+    if (orderId) {
+      await prisma.order.update({
+        where: { id: orderId },
+        data: {
+          paymentStatus: "FAILED",
+          status: "CANCELLED",
+          updatedAt: new Date(),
+        },
+      });
+      await releaseDiscountRedemption({ orderId });
+      console.log("✅ Order marked as failed:", orderId);
+      outcome = "order_marked_failed";
+    }
+  } else if (event.type === "charge.refunded") {
+    const charge = event.data.object as Stripe.Charge;
+    console.log("💸 Charge refunded:", charge.id);
+
+    // Find order by payment ID and mark as refunded
+    const order = await prisma.order.findFirst({
+      where: { paymentId: charge.payment_intent as string },
+    });
+
+    if (order) {
+      await prisma.order.update({
+        where: { id: order.id },
+        data: {
+          paymentStatus: "REFUNDED",
+          status: "REFUNDED",
+          updatedAt: new Date(),
+        },
+      });
+      outcome = "order_refunded";
+    }
+  }
+
+  return outcome;
+};
+
+/**
+ * Take over an existing ledger entry if it failed or was abandoned mid-way
+ */
+const claimExistingEvent = async (
+  entry: StripeWebhookEvent
+): Promise<boolean> => {
+  const isStale =
+    entry.status === "PROCESSING" &&
+    Date.now() - entry.updatedAt.getTime() > STALE_PROCESSING_MS;
+
+  if (entry.status !== "FAILED" && !isStale) {
+    return false;
+  }
+
+  // Conditional update so two concurrent deliveries cannot both claim it
+  const claimed = await prisma.stripeWebhookEvent.updateMany({
+    where: { id: entry.id, status: entry.status, updatedAt: entry.updatedAt },
+    data: { status: "PROCESSING", attempts: { increment: 1 }, error: null },
+  });
+
+  return claimed.count === 1;
+};
+
+/**
+ * Record an event in the ledger; returns the entry and whether this caller owns processing
+ */
+const claimStripeEvent = async (
+  event: Stripe.Event
+): Promise<{ claimed: boolean; entry: StripeWebhookEvent }> => {
+  try {
+    const entry = await prisma.stripeWebhookEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        status: "PROCESSING",
+        attempts: 1,
+        payload: event as any,
+      },
+    });
+    return { claimed: true, entry };
+  } catch (error: any) {
+    if (error?.code !== "P2002") throw error;
+  }
+
+  const entry = await prisma.stripeWebhookEvent.findUnique({
+    where: { id: event.id },
+  });
+
+  return { claimed: await claimExistingEvent(entry), entry };
+};
+
+/**
+ * Process a claimed event and store the result in the ledger
+ */
+const runClaimedEvent = async (
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<StripeEventResult> => {
+  try {
+    const outcome = await processStripeEvent(stripe, event);
+
+    await prisma.stripeWebhookEvent.update({
+      where: { id: event.id },
+      data: { status: "PROCESSED", outcome, processedAt: new Date() },
+    });
+
+    return { status: "PROCESSED", outcome };
+  } catch (error: any) {
+    console.error("❌ Webhook processing error:", error);
+    const message = error?.message || String(error);
+
+    await prisma.stripeWebhookEvent.update({
+      where: { id: event.id },
+      data: { status: "FAILED", error: message },
+    });
+
+    return { status: "FAILED", error: message };
+  }
+};
+
+/**
+ * Handle a webhook delivery exactly once; replays of processed events are no-ops
+ */
+export const handleStripeWebhookEvent = async (
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<StripeEventResult> => {
+  const { claimed, entry } = await claimStripeEvent(event);
+
+  if (!claimed) {
+    return {
+      status: entry.status === "PROCESSED" ? "DUPLICATE" : "IN_PROGRESS",
+      outcome: entry.outcome,
+      error: entry.error,
+    };
+  }
+
+  return runClaimedEvent(stripe, event);
+};
+
+/**
+ * Re-run a failed event from its stored payload. Returns null if the event is unknown.
+ */
+export const retryStripeEvent = async (
+  stripe: Stripe,
+  eventId: string
+): Promise<StripeEventResult | null> => {
+  const entry = await prisma.stripeWebhookEvent.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!entry) return null;
+
+  if (!(await claimExistingEvent(entry))) {
+    return {
+      status: entry.status === "PROCESSED" ? "DUPLICATE" : "IN_PROGRESS",
+      outcome: entry.outcome,
+      error: entry.error,
+    };
+  }
+
+  return runClaimedEvent(stripe, entry.payload as unknown as Stripe.Event);
+};
@@ -0,0 +1,156 @@
+import { PrismaClient, Prisma, ProductVariant } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Flavor fields returned alongside a variant
+export const variantInclude = Prisma.validator<Prisma.ProductVariantInclude>()({
+  flavor: {
+    select: {
+      id: true,
+      name: true,
+      color: true,
+      image: true
+    }
+  }
+});
+
+type VariantLabelSource = Pick<ProductVariant, 'name' | 'size'> & { flavor?: { name: string } | null };
+
+/**
+ * Display label for a variant: its own name, or flavor and size, e.g. "Cherry / 12 pack"
+ */
+export const getVariantLabel = (variant: VariantLabelSource): string => {
+  if (variant.name) return variant.name;
+  return [variant.flavor?.name, variant.size].filter(Boolean).join(' / ');
+};
+
+/**
+ * Price of a variant, falling back to the product price when it has no override
+ */
+export const getVariantPrice = (variant: Pick<ProductVariant, 'price'> | null | undefined, productPrice: any): number =>
+  Number(variant?.price ?? productPrice);
+
+/**
+ * Unique key of a variant's flavor and size within its product. Either can be empty, and a null
+ * column would let the database accept duplicate variants, so both go into one string.
+ */
+export const getVariantOptionKey = (variant: { flavorId?: string | null; size?: string | null }): string =>
+  `${variant.flavorId || ''}|${(variant.size || '').trim().toLowerCase()}`;
+
+const lockProduct = (tx: Prisma.TransactionClient, productId: string) =>
+  tx.$queryRaw`SELECT id FROM products WHERE id = ${productId} FOR UPDATE`;
+
+/**
+ * Reset a product's stock to the sum of its variants. Products without variants keep their own count.
+ * Once a product has variants its stock is only held per variant at each location too.
+ */
+export const syncProductStock = async (
+  productId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> => {
+  const [variantCount, total] = await Promise.all([
+    client.productVariant.count({ where: { productId } }),
+    client.productVariant.aggregate({ where: { productId }, _sum: { stock: true } })
+  ]);
+
+  if (variantCount === 0) return;
+
+  await client.product.update({
+    where: { id: productId },
+    data: { stock: total._sum.stock || 0 }
+  });
+};
+
+/**
+ * Hand a product's own stock to its first variant, so adding variants doesn't lose the units on
+ * hand. Location rows and lots without a variant move to it, with an ADJUSTMENT log out of the
+ * product and into the variant per location. Does nothing once the product has other variants.
+ * Returns the units moved.
+ */
+export const moveProductStockToVariant = async (
+  tx: Prisma.TransactionClient,
+  productId: string,
+  variant: Pick<ProductVariant, 'id' | 'sku'>
+): Promise<number> => {
+  await lockProduct(tx, productId);
+
+  const others = await tx.productVariant.count({ where: { productId, id: { not: variant.id } } });
+  if (others > 0) return 0;
+
+  const product = await tx.product.findUnique({ where: { id: productId }, select: { stock: true } });
+  const rows = await tx.locationStock.findMany({
+    where: { productId, variantId: null },
+    select: { locationId: true, quantity: true }
+  });
+
+  await tx.locationStock.updateMany({
+    where: { productId, variantId: null },
+    data: { variantId: variant.id, variantKey: variant.id }
+  });
+  await tx.inventoryLot.updateMany({
+    where: { productId, variantId: null },
+    data: { variantId: variant.id }
+  });
+
+  const moved = product?.stock || 0;
+  if (moved !== 0) {
+    await tx.productVariant.update({
+      where: { id: variant.id },
+      data: { stock: { increment: moved } }
+    });
+  }
+
+  const chunks = rows.length > 0 ? rows : [{ locationId: null, quantity: moved }];
+  for (const chunk of chunks.filter(entry => entry.quantity !== 0)) {
+    const logFields = { productId, locationId: chunk.locationId, type: 'ADJUSTMENT' as const, referenceId: variant.id };
+    await tx.inventoryLog.createMany({
+      data: [
+        { ...logFields, variantId: null, quantity: -chunk.quantity, reason: `Moved to first variant ${variant.sku}` },
+        { ...logFields, variantId: variant.id, quantity: chunk.quantity, reason: 'Moved from product stock' }
+      ]
+    });
+  }
+
+  return moved;
+};
+
+/**
+ * Take a variant's stock out of its product before the variant is deleted, with an ADJUSTMENT
+ * log per location. Its location rows and lots are removed with it.
+ */
+export const writeOffVariantStock = async (
+  tx: Prisma.TransactionClient,
+  variant: Pick<ProductVariant, 'id' | 'productId' | 'sku' | 'stock'>
+): Promise<void> => {
+  await lockProduct(tx, variant.productId);
+
+  const [current, rows] = await Promise.all([
+    tx.productVariant.findUnique({ where: { id: variant.id }, select: { stock: true } }),
+    tx.locationStock.findMany({ where: { variantId: variant.id }, select: { locationId: true, quantity: true } })
+  ]);
+  const stock = current?.stock ?? variant.stock;
+
+  const chunks = rows.length > 0 ? rows : [{ locationId: null, quantity: stock }];
+  for (const chunk of chunks.filter(entry => entry.quantity !== 0)) {
+    await tx.inventoryLog.create({
+      data: {
+        productId: variant.productId,
+        variantId: variant.id,
+        locationId: chunk.locationId,
+        type: 'ADJUSTMENT',
+        quantity: -chunk.quantity,
+        reason: `Variant ${variant.sku} deleted`
+      }
+    });
+  }
+
+  await tx.locationStock.deleteMany({ where: { variantId: variant.id } });
+  await tx.inventoryLot.deleteMany({ where: { variantId: variant.id } });
+
+  if (stock !== 0) {
+    await tx.product.update({
+      where: { id: variant.productId },
+      data: { stock: { decrement: stock } }
+    });
+  }
+};
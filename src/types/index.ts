@@ -23,12 +23,14 @@ export interface ApiResponse<T = any> {
 }
 
 export interface PaginationInfo {
-  currentPage: number;
+  currentPage: number | null; // null when paging by cursor
   totalPages: number;
   totalItems: number;
   itemsPerPage: number;
   hasNext: boolean;
   hasPrev: boolean;
+  nextCursor?: string | null; // Opaque cursors, only returned when paging by cursor
+  prevCursor?: string | null;
 }
 
 export interface PaginatedResponse<T> {
@@ -26,8 +26,8 @@ export const upload = multer({
   }
 });
 
-// Upload single image to Cloudinary
-export const uploadToCloudinary = async (file: any): Promise<string> => {
+// Upload single image to Cloudinary, returning its URL and the public ID needed to delete it
+export const uploadImageToCloudinary = async (file: any): Promise<{ url: string; publicId: string }> => {
   try {
     const result = await new Promise<any>((resolve, reject) => {
       cloudinary.uploader.upload_stream(
@@ -46,13 +46,19 @@ export const uploadToCloudinary = async (file: any): Promise<string> => {
       ).end(file.buffer);
     });
 
-    return result.secure_url;
+    return { url: result.secure_url, publicId: result.public_id };
   } catch (error) {
     console.error('Cloudinary upload error:', error);
     throw new Error('Failed to upload image');
   }
 };
 
+// Upload single image to Cloudinary
+export const uploadToCloudinary = async (file: any): Promise<string> => {
+  const { url } = await uploadImageToCloudinary(file);
+  return url;
+};
+
 // Upload multiple images to Cloudinary
 export const uploadMultipleToCloudinary = async (files: any[]): Promise<string[]> => {
   try {
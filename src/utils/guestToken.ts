@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+
+// Guest tokens identify anonymous visitors until they sign in
+export const GUEST_TOKEN_TTL_DAYS = 30;
+
+const guestTokenCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  maxAge: GUEST_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000
+};
+
+export const generateGuestToken = (): string => crypto.randomBytes(24).toString('hex');
+
+/**
+ * Read a guest token from its cookie, falling back to a header for clients that cannot use cookies
+ */
+export const readGuestToken = (req: Request, cookieName: string, headerName: string): string | null => {
+  const token = req.cookies?.[cookieName] || req.header(headerName);
+  return typeof token === 'string' && token.length > 0 ? token : null;
+};
+
+export const setGuestTokenCookie = (res: Response, cookieName: string, token: string): void => {
+  res.cookie(cookieName, token, guestTokenCookieOptions);
+};
+
+export const clearGuestTokenCookie = (res: Response, cookieName: string): void => {
+  res.clearCookie(cookieName);
+};
+
+export const guestTokenExpiry = (): Date =>
+  new Date(Date.now() + GUEST_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Long-lived anonymous visitor ID, shared by guest favorites and recently viewed products
+export const VISITOR_TOKEN_COOKIE = 'visitorToken';
+export const VISITOR_TOKEN_HEADER = 'X-Visitor-Token';
+
+/**
+ * The visitor token for this request, issuing a new cookie when `create` is set and there is none
+ */
+export const resolveVisitorToken = (req: Request, res: Response, create: boolean = false): string | null => {
+  const token = readGuestToken(req, VISITOR_TOKEN_COOKIE, VISITOR_TOKEN_HEADER);
+  if (token || !create) return token;
+
+  const newToken = generateGuestToken();
+  setGuestTokenCookie(res, VISITOR_TOKEN_COOKIE, newToken);
+  res.setHeader(VISITOR_TOKEN_HEADER, newToken);
+
+  return newToken;
+};
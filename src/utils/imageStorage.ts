@@ -0,0 +1,87 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { uploadImageToCloudinary, deleteFromCloudinary } from './cloudinary';
+
+export interface StoredImage {
+  url: string;
+  publicId: string;
+}
+
+// A place product images are uploaded to and deleted from
+export interface ImageStorage {
+  name: string;
+  upload(file: Express.Multer.File): Promise<StoredImage>;
+  remove(publicId: string): Promise<void>;
+}
+
+export const cloudinaryStorage: ImageStorage = {
+  name: 'cloudinary',
+  upload: (file) => uploadImageToCloudinary(file),
+  remove: async (publicId) => {
+    await deleteFromCloudinary(publicId);
+  }
+};
+
+/**
+ * Stores images on local disk and serves them from baseUrl. Meant for development and tests,
+ * where a Cloudinary account isn't available.
+ */
+export const createLocalStorage = (
+  directory: string = process.env.LOCAL_UPLOAD_DIR || 'uploads',
+  baseUrl: string = process.env.LOCAL_UPLOAD_URL || '/uploads'
+): ImageStorage => ({
+  name: 'local',
+  upload: async (file) => {
+    const extension = path.extname(file.originalname || '').toLowerCase() || '.img';
+    const publicId = `${crypto.randomUUID()}${extension}`;
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, publicId), file.buffer);
+
+    return { url: `${baseUrl.replace(/\/$/, '')}/${publicId}`, publicId };
+  },
+  remove: async (publicId) => {
+    // Public IDs are bare file names; refuse anything that could point outside the directory
+    if (path.basename(publicId) !== publicId) {
+      throw new Error('Invalid image ID');
+    }
+    await fs.rm(path.join(directory, publicId), { force: true });
+  }
+});
+
+const adapters: Record<string, ImageStorage> = {
+  cloudinary: cloudinaryStorage
+};
+
+let activeStorage: ImageStorage | null = null;
+
+/**
+ * Storage new uploads go to, chosen by IMAGE_STORAGE ("cloudinary" by default, or "local")
+ */
+export const getImageStorage = (): ImageStorage => {
+  if (!activeStorage) {
+    activeStorage = process.env.IMAGE_STORAGE === 'local' ? createLocalStorage() : cloudinaryStorage;
+    adapters[activeStorage.name] = activeStorage;
+  }
+  return activeStorage;
+};
+
+/**
+ * Replace the storage used for new uploads, e.g. with a local adapter in tests
+ */
+export const setImageStorage = (storage: ImageStorage): void => {
+  activeStorage = storage;
+  adapters[storage.name] = storage;
+};
+
+/**
+ * Storage an existing image was uploaded to, so it can be deleted from the right place.
+ * Returns null for external URLs and backends that aren't configured here.
+ */
+export const getStorageByName = (name: string): ImageStorage | null => {
+  if (name === 'local' && !adapters.local) {
+    adapters.local = createLocalStorage();
+  }
+  return adapters[name] || null;
+};
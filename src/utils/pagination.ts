@@ -0,0 +1,120 @@
+import { AppError, PaginationInfo } from '../types';
+
+export class PaginationError extends Error implements AppError {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'PaginationError';
+    this.statusCode = statusCode;
+  }
+}
+
+export interface CursorQuery {
+  id: string | null; // Row the page starts after (or before, going back); null for the first page
+  direction: 'next' | 'prev';
+  limit: number;
+}
+
+const encodeCursor = (id: string, direction: CursorQuery['direction']): string =>
+  Buffer.from(JSON.stringify({ id, d: direction })).toString('base64url');
+
+/**
+ * Read cursor pagination from the query string. Lists page by cursor when `cursor` is present,
+ * left empty for the first page; otherwise they keep using page/limit and this returns null.
+ * Throws PaginationError for a cursor that was not issued by us.
+ */
+export const readCursorQuery = (query: any, limit: number): CursorQuery | null => {
+  if (query.cursor === undefined) return null;
+
+  const cursor = String(query.cursor);
+  if (!cursor) {
+    return { id: null, direction: 'next', limit };
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof decoded.id !== 'string' || (decoded.d !== 'next' && decoded.d !== 'prev')) {
+      throw new Error('Malformed cursor');
+    }
+    return { id: decoded.id, direction: decoded.d, limit };
+  } catch (error) {
+    throw new PaginationError('Invalid pagination cursor');
+  }
+};
+
+/**
+ * findMany arguments for a cursor page. One extra row is fetched to tell whether more follow.
+ * The list's orderBy must end in a unique field (usually id) so the order is stable.
+ */
+export const cursorArgs = (cursor: CursorQuery): { take: number; cursor?: { id: string }; skip?: number } => ({
+  take: (cursor.direction === 'prev' ? -1 : 1) * (cursor.limit + 1),
+  ...(cursor.id ? { cursor: { id: cursor.id }, skip: 1 } : {})
+});
+
+/**
+ * Trim the extra row fetched by cursorArgs and describe the page in the usual pagination shape,
+ * with cursors for the next and previous pages. Page numbers do not apply, so currentPage is null.
+ */
+export const buildCursorPage = <T extends { id: string }>(
+  rows: T[],
+  cursor: CursorQuery,
+  totalItems: number
+): { items: T[]; pagination: PaginationInfo } => {
+  const hasMore = rows.length > cursor.limit;
+  const items = !hasMore ? rows : cursor.direction === 'prev' ? rows.slice(rows.length - cursor.limit) : rows.slice(0, cursor.limit);
+
+  const hasNext = cursor.direction === 'next' ? hasMore : cursor.id !== null;
+  const hasPrev = cursor.direction === 'next' ? cursor.id !== null : hasMore;
+
+  return {
+    items,
+    pagination: {
+      currentPage: null,
+      totalPages: Math.ceil(totalItems / cursor.limit),
+      totalItems,
+      itemsPerPage: cursor.limit,
+      hasNext,
+      hasPrev,
+      nextCursor: hasNext && items.length > 0 ? encodeCursor(items[items.length - 1].id, 'next') : null,
+      prevCursor: hasPrev && items.length > 0 ? encodeCursor(items[0].id, 'prev') : null
+    }
+  };
+};
+
+/**
+ * findMany arguments for either a numbered page or a cursor page
+ */
+export const pageArgs = (
+  page: number,
+  limit: number,
+  cursor: CursorQuery | null
+): { skip?: number; take: number; cursor?: { id: string } } =>
+  cursor ? cursorArgs(cursor) : { skip: (page - 1) * limit, take: limit };
+
+/**
+ * Page items and pagination info for either a numbered page or a cursor page
+ */
+export const buildPage = <T extends { id: string }>(
+  rows: T[],
+  totalItems: number,
+  page: number,
+  limit: number,
+  cursor: CursorQuery | null
+): { items: T[]; pagination: PaginationInfo } => {
+  if (cursor) return buildCursorPage(rows, cursor, totalItems);
+
+  const totalPages = Math.ceil(totalItems / limit);
+  return {
+    items: rows,
+    pagination: {
+      currentPage: page,
+      totalPages,
+      totalItems,
+      itemsPerPage: limit,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    }
+  };
+};
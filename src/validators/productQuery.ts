@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+export const PRODUCT_SORT_FIELDS = ['createdAt', 'price', 'name', 'rating', 'reviewCount', 'sales', 'stock'] as const;
+
+// Query strings arrive as text; blank values count as not provided
+const blankToUndefined = (value: unknown) => (value === '' ? undefined : value);
+
+const optionalNumber = (schema: z.ZodNumber) => z.preprocess(blankToUndefined, z.coerce.number().pipe(schema).optional());
+
+const optionalBoolean = z.preprocess(
+  blankToUndefined,
+  z.enum(['true', 'false', '1', '0']).transform(value => value === 'true' || value === '1').optional()
+);
+
+// Accepts ?flavor=Cherry&flavor=Grape as well as ?flavor=Cherry,Grape
+const optionalList = z.preprocess(
+  blankToUndefined,
+  z
+    .union([z.string(), z.array(z.string())])
+    .transform(value =>
+      (Array.isArray(value) ? value : [value])
+        .flatMap(item => item.split(','))
+        .map(item => item.trim())
+        .filter(Boolean)
+    )
+    .optional()
+);
+
+export const productListQuerySchema = z
+  .object({
+    page: z.preprocess(blankToUndefined, z.coerce.number().int().min(1).default(1)),
+    limit: z.preprocess(blankToUndefined, z.coerce.number().int().min(1).max(100).default(10)),
+    category: z.string().trim().min(1).optional(),
+    sortBy: z.preprocess(blankToUndefined, z.enum(PRODUCT_SORT_FIELDS).default('createdAt')),
+    sortOrder: z.preprocess(blankToUndefined, z.enum(['asc', 'desc']).default('desc')),
+    minPrice: optionalNumber(z.number().min(0, 'minPrice cannot be negative')),
+    maxPrice: optionalNumber(z.number().min(0, 'maxPrice cannot be negative')),
+    minRating: optionalNumber(z.number().min(0).max(5, 'minRating must be between 0 and 5')),
+    inStock: optionalBoolean,
+    onSale: optionalBoolean,
+    flavor: optionalList,
+    brand: optionalList
+  })
+  .refine(query => query.minPrice === undefined || query.maxPrice === undefined || query.minPrice <= query.maxPrice, {
+    message: 'minPrice cannot be greater than maxPrice',
+    path: ['minPrice']
+  });
+
+export type ProductListQuery = z.infer<typeof productListQuerySchema>;
+
+/**
+ * Field name to messages, for the errors of a 400 response
+ */
+export const formatZodErrors = (error: z.ZodError): Record<string, string[]> => {
+  const fieldErrors: Record<string, string[]> = {};
+
+  for (const issue of error.issues) {
+    const field = issue.path.length > 0 ? issue.path.join('.') : '_';
+    fieldErrors[field] = [...(fieldErrors[field] || []), issue.message];
+  }
+
+  return fieldErrors;
+};